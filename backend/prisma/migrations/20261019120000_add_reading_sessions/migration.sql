@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "ReadingSession" (
+    "id" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "abandonedAt" TIMESTAMP(3),
+    "edition" TEXT,
+    "bookId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReadingSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReadingSession_bookId_idx" ON "ReadingSession"("bookId");
+
+-- CreateIndex
+CREATE INDEX "ReadingSession_finishedAt_idx" ON "ReadingSession"("finishedAt");
+
+-- AddForeignKey
+ALTER TABLE "ReadingSession" ADD CONSTRAINT "ReadingSession_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: dateAdded is the best date we have for books tracked before sessions existed
+INSERT INTO "ReadingSession" ("id", "startedAt", "finishedAt", "bookId", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    CASE WHEN "status" = 'reading' THEN "dateAdded" END,
+    CASE WHEN "status" = 'read' THEN "dateAdded" END,
+    "id",
+    CURRENT_TIMESTAMP
+FROM "Book"
+WHERE "status" IN ('reading', 'read');
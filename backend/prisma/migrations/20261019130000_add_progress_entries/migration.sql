@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ProgressEntry" (
+    "id" TEXT NOT NULL,
+    "page" INTEGER NOT NULL,
+    "pagesRead" INTEGER NOT NULL DEFAULT 0,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bookId" TEXT NOT NULL,
+
+    CONSTRAINT "ProgressEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProgressEntry_bookId_recordedAt_idx" ON "ProgressEntry"("bookId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "ProgressEntry_recordedAt_idx" ON "ProgressEntry"("recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "ProgressEntry" ADD CONSTRAINT "ProgressEntry_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Review" ALTER COLUMN "rating" SET DATA TYPE DOUBLE PRECISION;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "isPublic" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Profile" ADD COLUMN     "publicSlug" TEXT;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "isPublic" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Profile_publicSlug_key" ON "Profile"("publicSlug");
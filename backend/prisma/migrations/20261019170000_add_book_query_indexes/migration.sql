@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill
+UPDATE "Book" b
+SET "averageRating" = COALESCE((SELECT AVG(r."rating") FROM "Review" r WHERE r."bookId" = b."id"), 0);
+
+-- CreateIndex
+CREATE INDEX "Book_userId_dateAdded_idx" ON "Book"("userId", "dateAdded");
+
+-- CreateIndex
+CREATE INDEX "Book_userId_title_idx" ON "Book"("userId", "title");
+
+-- CreateIndex
+CREATE INDEX "Book_userId_author_idx" ON "Book"("userId", "author");
+
+-- CreateIndex
+CREATE INDEX "Book_userId_averageRating_idx" ON "Book"("userId", "averageRating");
+
+-- CreateIndex
+CREATE INDEX "Book_tags_idx" ON "Book" USING GIN ("tags");
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("author", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce("content", ''))
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("text", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Book_searchVector_idx" ON "Book" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Review_searchVector_idx" ON "Review" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Article_searchVector_idx" ON "Article" USING GIN ("searchVector");
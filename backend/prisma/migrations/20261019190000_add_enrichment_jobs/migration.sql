@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "EnrichmentStatus" AS ENUM ('pending', 'running', 'done', 'failed');
+
+-- CreateTable
+CREATE TABLE "EnrichmentJob" (
+    "id" TEXT NOT NULL,
+    "status" "EnrichmentStatus" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "bookId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EnrichmentJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EnrichmentJob_bookId_key" ON "EnrichmentJob"("bookId");
+
+-- CreateIndex
+CREATE INDEX "EnrichmentJob_status_nextAttemptAt_idx" ON "EnrichmentJob"("status", "nextAttemptAt");
+
+-- AddForeignKey
+ALTER TABLE "EnrichmentJob" ADD CONSTRAINT "EnrichmentJob_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Queue existing books that are still missing a real cover
+INSERT INTO "EnrichmentJob" ("id", "bookId", "updatedAt")
+SELECT gen_random_uuid()::text, "id", CURRENT_TIMESTAMP
+FROM "Book"
+WHERE "coverUrl" IS NULL OR "coverUrl" NOT LIKE 'http%' OR "coverUrl" LIKE 'https://placehold.co/%';
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "coverStoredAt" TIMESTAMP(3);
+
+-- Re-run enrichment for every book so existing covers get downloaded
+UPDATE "EnrichmentJob" SET "status" = 'pending', "attempts" = 0, "nextAttemptAt" = CURRENT_TIMESTAMP, "lastError" = NULL;
+
+INSERT INTO "EnrichmentJob" ("id", "bookId", "updatedAt")
+SELECT gen_random_uuid()::text, b."id", CURRENT_TIMESTAMP
+FROM "Book" b
+WHERE NOT EXISTS (SELECT 1 FROM "EnrichmentJob" j WHERE j."bookId" = b."id");
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "BookShelf" (
+    "bookId" TEXT NOT NULL,
+    "shelfId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookShelf_pkey" PRIMARY KEY ("bookId","shelfId")
+);
+
+-- CreateIndex
+CREATE INDEX "BookShelf_shelfId_position_idx" ON "BookShelf"("shelfId", "position");
+
+-- AddForeignKey
+ALTER TABLE "BookShelf" ADD CONSTRAINT "BookShelf_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookShelf" ADD CONSTRAINT "BookShelf_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "Shelf"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry each book's single shelf over, keeping the order books were added in
+INSERT INTO "BookShelf" ("bookId", "shelfId", "position", "addedAt")
+SELECT "id", "shelfId", ROW_NUMBER() OVER (PARTITION BY "shelfId" ORDER BY "dateAdded", "id") - 1, "dateAdded"
+FROM "Book"
+WHERE "shelfId" IS NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "Book" DROP CONSTRAINT "Book_shelfId_fkey";
+
+-- DropIndex
+DROP INDEX "Book_shelfId_idx";
+
+-- AlterTable
+ALTER TABLE "Book" DROP COLUMN "shelfId";
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "EditionFormat" AS ENUM ('hardcover', 'paperback', 'ebook', 'audiobook');
+
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "activeEditionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ReadingSession" ADD COLUMN     "editionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Edition" (
+    "id" TEXT NOT NULL,
+    "format" "EditionFormat",
+    "publisher" TEXT,
+    "year" INTEGER,
+    "pages" INTEGER,
+    "durationMinutes" INTEGER,
+    "isbn" TEXT,
+    "bookId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Edition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Edition_bookId_idx" ON "Edition"("bookId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Book_activeEditionId_key" ON "Book"("activeEditionId");
+
+-- AddForeignKey
+ALTER TABLE "Book" ADD CONSTRAINT "Book_activeEditionId_fkey" FOREIGN KEY ("activeEditionId") REFERENCES "Edition"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Edition" ADD CONSTRAINT "Edition_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReadingSession" ADD CONSTRAINT "ReadingSession_editionId_fkey" FOREIGN KEY ("editionId") REFERENCES "Edition"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Give every existing book one edition of unknown format from its ISBN and page count
+INSERT INTO "Edition" ("id", "pages", "isbn", "bookId", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "totalPages", "isbn", "id", "dateAdded", CURRENT_TIMESTAMP
+FROM "Book";
+
+UPDATE "Book" b
+SET "activeEditionId" = e."id"
+FROM "Edition" e
+WHERE e."bookId" = b."id";
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "format" "EditionFormat",
+ADD COLUMN     "totalDurationMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ProgressEntry" ADD COLUMN     "listened" BOOLEAN NOT NULL DEFAULT false;
+
+-- Mirror the active edition's format and length onto each book
+UPDATE "Book" b
+SET "format" = e."format", "totalDurationMinutes" = e."durationMinutes"
+FROM "Edition" e
+WHERE e."id" = b."activeEditionId";
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "ContributorRole" AS ENUM ('author', 'translator', 'editor', 'illustrator', 'narrator');
+
+-- CreateTable
+CREATE TABLE "Author" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Author_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookContributor" (
+    "bookId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "role" "ContributorRole" NOT NULL DEFAULT 'author',
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "BookContributor_pkey" PRIMARY KEY ("bookId","authorId","role")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Author_userId_name_key" ON "Author"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "BookContributor_authorId_idx" ON "BookContributor"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "Author" ADD CONSTRAINT "Author_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookContributor" ADD CONSTRAINT "BookContributor_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookContributor" ADD CONSTRAINT "BookContributor_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "Author"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing author line becomes one author; co-authors can be split from the book form
+INSERT INTO "Author" ("id", "name", "userId", "updatedAt")
+SELECT gen_random_uuid()::text, "author", "userId", CURRENT_TIMESTAMP
+FROM "Book"
+WHERE "userId" IS NOT NULL
+GROUP BY "userId", "author";
+
+INSERT INTO "BookContributor" ("bookId", "authorId", "role", "position")
+SELECT b."id", a."id", 'author', 0
+FROM "Book" b
+JOIN "Author" a ON a."userId" = b."userId" AND a."name" = b."author";
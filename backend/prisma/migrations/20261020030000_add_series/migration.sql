@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "seriesPosition" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "Series" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Book_seriesId_seriesPosition_idx" ON "Book"("seriesId", "seriesPosition");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Series_userId_name_key" ON "Series"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Book" ADD CONSTRAINT "Book_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "Series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Series" ADD CONSTRAINT "Series_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "Quote" (
+    "id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "page" INTEGER,
+    "chapter" TEXT,
+    "note" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "searchVector" tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce("text", '')), 'A') ||
+      setweight(to_tsvector('english', coalesce("note", '')), 'B') ||
+      setweight(to_tsvector('english', coalesce("chapter", '')), 'C')
+    ) STORED,
+    "bookId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Quote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Quote_bookId_idx" ON "Quote"("bookId");
+
+-- CreateIndex
+CREATE INDEX "Quote_searchVector_idx" ON "Quote" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN     "location" INTEGER;
@@ -18,11 +18,19 @@ const initialBooks = [
     reviews: [
       {
         id: 'r1-1',
-        content: "One of my all-time favorites. The quote that stays with me: 'Self-sacrifice? But it is precisely the self that cannot and must not be sacrificed.' A powerful exploration of individualism and creative integrity.",
+        content: "One of my all-time favorites. A powerful exploration of individualism and creative integrity.",
         rating: 5,
         dateAdded: new Date('2020-01-15'),
       }
     ],
+    quotes: [
+      {
+        id: 'q1-1',
+        text: 'Self-sacrifice? But it is precisely the self that cannot and must not be sacrificed.',
+        note: 'The quote that stays with me',
+        tags: ['Individualism'],
+      }
+    ],
   },
   {
     id: '2',
@@ -38,11 +46,23 @@ const initialBooks = [
     reviews: [
       {
         id: 'r2-1',
-        content: "My favourite quotes: 'if both the past and the external world exist only in the mind, and if the mind itself is controllable – what then?' and 'Freedom is the freedom to say that two plus two make four. If that is granted, all else follows.' A book I revisit often.",
+        content: "A book I revisit often.",
         rating: 5,
         dateAdded: new Date('2020-06-20'),
       }
     ],
+    quotes: [
+      {
+        id: 'q2-1',
+        text: 'If both the past and the external world exist only in the mind, and if the mind itself is controllable – what then?',
+        tags: ['Truth'],
+      },
+      {
+        id: 'q2-2',
+        text: 'Freedom is the freedom to say that two plus two make four. If that is granted, all else follows.',
+        tags: ['Freedom', 'Truth'],
+      }
+    ],
   },
   {
     id: '3',
@@ -444,13 +464,11 @@ async function main() {
   await prisma.readingGoal.deleteMany();
   await prisma.profile.deleteMany();
 
+  // Seeded rows have no owner; the first account to register claims them
   // Create profile
   console.log('Creating profile...');
   await prisma.profile.create({
-    data: {
-      id: 'default',
-      ...profileData,
-    },
+    data: profileData,
   });
 
   // Create reading goal
@@ -460,13 +478,16 @@ async function main() {
   });
 
   // Create books with reviews
-  console.log('Creating books with reviews...');
+  console.log('Creating books with reviews and quotes...');
   for (const bookData of initialBooks) {
-    const { reviews, ...book } = bookData;
+    const { reviews, quotes = [], ...book } = bookData;
     
     await prisma.book.create({
       data: {
         ...book,
+        averageRating: reviews.length > 0
+          ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+          : 0,
         reviews: {
           create: reviews.map(review => ({
             id: review.id,
@@ -475,6 +496,15 @@ async function main() {
             dateAdded: review.dateAdded,
           })),
         },
+        quotes: quotes.length > 0 ? { create: quotes } : undefined,
+        // The seed list only knows when a book was added, so use that as the session date
+        sessions: book.status === 'want_to_read'
+          ? undefined
+          : {
+              create: book.status === 'read'
+                ? { finishedAt: book.dateAdded }
+                : { startedAt: book.dateAdded },
+            },
       },
     });
   }
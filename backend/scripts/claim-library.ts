@@ -0,0 +1,31 @@
+import prisma from '../src/lib/prisma.js';
+import { claimUnownedLibrary } from '../src/lib/auth.js';
+
+/**
+ * Give the library created before accounts existed to an existing account:
+ *   npm run db:claim-library -- owner@example.com
+ */
+async function claimLibrary(email: string | undefined) {
+  if (!email) {
+    throw new Error('Usage: npm run db:claim-library -- <email>');
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() } });
+    if (!user) {
+      throw new Error(`No account with the email ${email}`);
+    }
+
+    const books = await prisma.$transaction((tx) => claimUnownedLibrary(user.id, tx), { timeout: 10 * 60 * 1000 });
+    console.log(`✅ ${user.email} now owns the unclaimed library (${books} books)`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+claimLibrary(process.argv[2])
+  .catch((error) => {
+    console.error('Script failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
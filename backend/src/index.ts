@@ -4,9 +4,22 @@ import dotenv from 'dotenv';
 import { recommendationsRouter } from './routes/recommendations.js';
 import { booksRouter } from './routes/books.js';
 import { shelvesRouter } from './routes/shelves.js';
+import { tagsRouter } from './routes/tags.js';
+import { authorsRouter } from './routes/authors.js';
+import { seriesRouter } from './routes/series.js';
+import { quotesRouter } from './routes/quotes.js';
 import { readingGoalRouter } from './routes/reading-goal.js';
 import { profileRouter } from './routes/profile.js';
 import { articlesRouter } from './routes/articles.js';
+import { importRouter } from './routes/import.js';
+import { exportRouter } from './routes/export.js';
+import { authRouter } from './routes/auth.js';
+import { publicRouter } from './routes/public.js';
+import { searchRouter } from './routes/search.js';
+import { metadataRouter } from './routes/metadata.js';
+import { coversRouter } from './routes/covers.js';
+import { requireAuth } from './lib/auth.js';
+import { startEnrichmentWorker } from './lib/enrichment.js';
 
 // Load environment variables
 dotenv.config();
@@ -22,15 +35,28 @@ const corsOptions = {
 
 // Middleware
 app.use(cors(corsOptions));
-app.use(express.json());
+app.use(express.json({ limit: '25mb' })); // Library backups include article text
 
 // Routes
-app.use('/api/books', booksRouter);
-app.use('/api/shelves', shelvesRouter);
-app.use('/api/reading-goal', readingGoalRouter);
-app.use('/api/profile', profileRouter);
-app.use('/api/recommendations', recommendationsRouter);
-app.use('/api/articles', articlesRouter);
+app.use('/api/auth', authRouter);
+app.use('/api/public', publicRouter); // Read-only shared pages, no sign in
+app.use('/api/covers', coversRouter); // Images are public, uploads check the session
+
+// Everything below is scoped to the signed-in user (req.userId)
+app.use('/api/books', requireAuth, booksRouter);
+app.use('/api/shelves', requireAuth, shelvesRouter);
+app.use('/api/tags', requireAuth, tagsRouter);
+app.use('/api/authors', requireAuth, authorsRouter);
+app.use('/api/series', requireAuth, seriesRouter);
+app.use('/api/quotes', requireAuth, quotesRouter);
+app.use('/api/reading-goal', requireAuth, readingGoalRouter);
+app.use('/api/profile', requireAuth, profileRouter);
+app.use('/api/recommendations', requireAuth, recommendationsRouter);
+app.use('/api/articles', requireAuth, articlesRouter);
+app.use('/api/import', requireAuth, importRouter);
+app.use('/api/export', requireAuth, exportRouter);
+app.use('/api/search', requireAuth, searchRouter);
+app.use('/api/metadata', requireAuth, metadataRouter);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -46,4 +72,7 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📚 Ipshita's Library API ready!`);
+
+  // Look up covers and other missing metadata outside of requests
+  startEnrichmentWorker();
 });
@@ -0,0 +1,140 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import prisma from './prisma.js';
+import { syncAuthorsFromLine } from './contributors.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Signed-in user; set by requireAuth on every scoped route */
+      userId: string;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_COOKIE = 'library_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Hash a password for storage as "scrypt:<salt>:<hash>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Hand everything created before accounts existed (rows without a user) to one
+ * user. Done on purpose only: when LIBRARY_OWNER_EMAIL registers, or from
+ * `npm run db:claim-library`. Returns how many books were claimed.
+ *
+ * Authors were only backfilled for books that had an owner, so the claimed
+ * books get their contributors built from their author lines here.
+ */
+export async function claimUnownedLibrary(
+  userId: string,
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<number> {
+  const unowned = { where: { userId: null }, data: { userId } };
+  const books = await client.book.findMany({ where: { userId: null }, select: { id: true } });
+  await client.book.updateMany({ where: { id: { in: books.map((book) => book.id) } }, data: { userId } });
+  for (const book of books) {
+    await syncAuthorsFromLine(userId, book.id, client);
+  }
+  await client.shelf.updateMany(unowned);
+  await client.readingGoal.updateMany(unowned);
+  await client.article.updateMany(unowned);
+  // A user has one profile, so only take the old one if they have none yet
+  if (!(await client.profile.findUnique({ where: { userId } }))) {
+    const profile = await client.profile.findFirst({ where: { userId: null }, orderBy: { createdAt: 'asc' } });
+    if (profile) await client.profile.update({ where: { id: profile.id }, data: { userId } });
+  }
+  return books.length;
+}
+
+// Only a hash of the token is stored, so a database leak can't be replayed as a login
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Start a session for the user and set its cookie on the response
+ */
+export async function startSession(res: Response, userId: string): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.authSession.create({
+    data: { tokenHash: hashToken(token), userId, expiresAt },
+  });
+
+  // The frontend is served from another origin in production, so the cookie must be cross-site there
+  const isProduction = process.env.NODE_ENV === 'production';
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: isProduction ? 'none' : 'lax',
+    expires: expiresAt,
+    path: '/api',
+  });
+}
+
+/**
+ * End the current session (if any) and clear its cookie
+ */
+export async function endSession(req: Request, res: Response): Promise<void> {
+  const token = readSessionToken(req);
+  if (token) {
+    await prisma.authSession.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+  res.clearCookie(SESSION_COOKIE, { path: '/api' });
+}
+
+function readSessionToken(req: Request): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+/**
+ * Express middleware: reject requests without a valid session, otherwise set req.userId
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = readSessionToken(req);
+    const session = token
+      ? await prisma.authSession.findUnique({ where: { tokenHash: hashToken(token) } })
+      : null;
+
+    if (!session || session.expiresAt < new Date()) {
+      return res.status(401).json({ error: 'Please sign in' });
+    }
+
+    req.userId = session.userId;
+    next();
+  } catch (error) {
+    console.error('Failed to check session:', error);
+    res.status(500).json({ error: 'Failed to check session' });
+  }
+}
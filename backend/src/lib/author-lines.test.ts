@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseAuthorLine } from './author-lines.js';
+
+describe('parseAuthorLine', () => {
+  it('splits authors on & and ;', () => {
+    assert.deepEqual(parseAuthorLine('Ward & Smith; Jones'), [
+      { name: 'Ward', role: 'author' },
+      { name: 'Smith', role: 'author' },
+      { name: 'Jones', role: 'author' },
+    ]);
+  });
+
+  it('keeps "Last, First" as one author', () => {
+    assert.deepEqual(parseAuthorLine('Austen, Jane'), [{ name: 'Austen, Jane', role: 'author' }]);
+  });
+
+  it('reads names after "tr." as translators', () => {
+    assert.deepEqual(parseAuthorLine('Dostoevsky, tr. Pevear & Volokhonsky'), [
+      { name: 'Dostoevsky', role: 'author' },
+      { name: 'Pevear', role: 'translator' },
+      { name: 'Volokhonsky', role: 'translator' },
+    ]);
+  });
+
+  it('reads "trans." and "ed." segments', () => {
+    assert.deepEqual(parseAuthorLine('Austen, Jane, ed. Tanner, trans. Ozawa'), [
+      { name: 'Austen, Jane', role: 'author' },
+      { name: 'Tanner', role: 'editor' },
+      { name: 'Ozawa', role: 'translator' },
+    ]);
+  });
+});
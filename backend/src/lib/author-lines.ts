@@ -0,0 +1,27 @@
+import { ContributorRole } from '@prisma/client';
+
+// "tr." / "trans." start a run of translators and "ed." / "eds." one of editors
+const ROLE_MARKERS: [RegExp, ContributorRole][] = [
+  [/^(?:tr|trans)\.\s*/i, 'translator'],
+  [/^eds?\.\s*/i, 'editor'],
+];
+
+/**
+ * Contributors in an author line: "Ward & Smith" is two authors, and in
+ * "Dostoevsky, tr. Pevear & Volokhonsky" the names after "tr." are
+ * translators. Other commas are left alone because "Austen, Jane" is one
+ * person.
+ */
+export function parseAuthorLine(line: string): { name: string; role: ContributorRole }[] {
+  const contributors: { name: string; role: ContributorRole }[] = [];
+  // Markers only count after a comma, so the line always starts with its authors
+  for (const [index, segment] of line.split(/\s*,\s*(?=(?:tr|trans|eds?)\.)/i).entries()) {
+    const marker = index > 0 ? ROLE_MARKERS.find(([pattern]) => pattern.test(segment)) : undefined;
+    const role = marker?.[1] ?? 'author';
+    const names = (marker ? segment.replace(marker[0], '') : segment).split(/\s*[&;]\s*/);
+    for (const name of names.map((value) => value.trim()).filter(Boolean)) {
+      contributors.push({ name, role });
+    }
+  }
+  return contributors;
+}
@@ -0,0 +1,518 @@
+import { Article, Book, BookShelf, Edition, Prisma, Profile, ProgressEntry, Quote, ReadingGoal, ReadingSession, Review, Series, Shelf, Tag } from '@prisma/client';
+import prisma from './prisma.js';
+import { parseCsv, toCsv } from './csv.js';
+import { refreshAverageRating } from './book-query.js';
+import { enqueueEnrichment, needsEnrichment } from './enrichment.js';
+import { syncActiveEdition } from './editions.js';
+import { ContributorInput, parseContributors, setBookContributors, syncAuthorsFromLine } from './contributors.js';
+import { sanitizeMarkdown } from './markdown.js';
+
+/**
+ * Bump when the backup layout changes; restores refuse newer versions
+ */
+export const BACKUP_VERSION = 7;
+
+export type BackupBook = Book & {
+  shelves: BookShelf[];
+  contributors: ContributorInput[]; // Authors are matched by name on restore
+  editions: Edition[];
+  reviews: Review[];
+  quotes: Quote[];
+  sessions: ReadingSession[];
+  progressEntries: ProgressEntry[];
+};
+
+/**
+ * Full library snapshot. Dates are ISO strings once serialized; Prisma
+ * accepts those back as-is on restore.
+ */
+export interface LibraryBackup {
+  version: number;
+  exportedAt: string;
+  profile: Profile | null;
+  shelves: Shelf[];
+  tags: Tag[];
+  series: Series[];
+  books: BackupBook[];
+  readingGoals: ReadingGoal[];
+  articles: Article[];
+}
+
+export interface RestoreSummary {
+  profile: number;
+  shelves: number;
+  tags: number;
+  series: number;
+  books: number;
+  editions: number;
+  reviews: number;
+  quotes: number;
+  sessions: number;
+  progressEntries: number;
+  readingGoals: number;
+  articles: number;
+}
+
+/**
+ * Read everything in a user's library into a backup object
+ */
+export async function createBackup(userId: string): Promise<LibraryBackup> {
+  const [profile, shelves, tags, series, books, readingGoals, articles] = await Promise.all([
+    prisma.profile.findUnique({ where: { userId } }),
+    prisma.shelf.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.tag.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.series.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.book.findMany({
+      where: { userId },
+      include: {
+        shelves: { orderBy: { addedAt: 'asc' } },
+        contributors: { orderBy: { position: 'asc' }, include: { author: { select: { name: true } } } },
+        editions: { orderBy: { createdAt: 'asc' } },
+        reviews: { orderBy: { dateAdded: 'asc' } },
+        quotes: { orderBy: { createdAt: 'asc' } },
+        sessions: { orderBy: { createdAt: 'asc' } },
+        progressEntries: { orderBy: { recordedAt: 'asc' } },
+      },
+      orderBy: { dateAdded: 'asc' },
+    }),
+    prisma.readingGoal.findMany({ where: { userId }, orderBy: { year: 'asc' } }),
+    prisma.article.findMany({ where: { userId }, orderBy: { dateAdded: 'asc' } }),
+  ]);
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    shelves,
+    tags,
+    series,
+    books: books.map((book) => ({
+      ...book,
+      contributors: book.contributors.map(({ author, role }) => ({ name: author.name, role })),
+    })),
+    readingGoals,
+    articles,
+  };
+}
+
+// ============ CSV layout ============
+// One row per record: the record type, its id and the remaining fields as JSON.
+// Editions, reviews, quotes, sessions and progress entries become their own rows keyed by bookId.
+// A book's shelf memberships and contributors stay inside its row.
+
+export const BACKUP_CSV_COLUMNS = ['version', 'record', 'id', 'data'];
+
+type BackupRecordType = 'profile' | 'shelf' | 'tag' | 'series' | 'book' | 'edition' | 'review' | 'quote' | 'session' | 'progress' | 'goal' | 'article';
+
+/**
+ * Flatten a backup into CSV rows
+ */
+export function backupToCsv(backup: LibraryBackup): string {
+  const rows: Record<string, unknown>[] = [];
+  const add = (record: BackupRecordType, data: { id: string }) => {
+    const { id, ...rest } = data;
+    rows.push({ version: backup.version, record, id, data: JSON.stringify(rest) });
+  };
+
+  if (backup.profile) add('profile', backup.profile);
+  backup.shelves.forEach((shelf) => add('shelf', shelf));
+  backup.tags.forEach((tag) => add('tag', tag));
+  backup.series.forEach((series) => add('series', series));
+  for (const { editions, reviews, quotes, sessions, progressEntries, ...book } of backup.books) {
+    add('book', book);
+    editions.forEach((edition) => add('edition', edition));
+    reviews.forEach((review) => add('review', review));
+    quotes.forEach((quote) => add('quote', quote));
+    sessions.forEach((session) => add('session', session));
+    progressEntries.forEach((entry) => add('progress', entry));
+  }
+  backup.readingGoals.forEach((goal) => add('goal', goal));
+  backup.articles.forEach((article) => add('article', article));
+
+  return toCsv(BACKUP_CSV_COLUMNS, rows);
+}
+
+/**
+ * Rebuild a backup object from the CSV layout written by backupToCsv
+ */
+export function backupFromCsv(csv: string): unknown {
+  const records = parseCsv(csv);
+  if (records.length === 0 || !('record' in records[0]) || !('data' in records[0])) {
+    throw new Error('Not a library backup CSV');
+  }
+
+  const backup = {
+    version: parseInt(records[0].version),
+    exportedAt: new Date().toISOString(),
+    profile: null as unknown,
+    shelves: [] as unknown[],
+    tags: [] as unknown[],
+    series: [] as unknown[],
+    books: [] as Record<string, unknown[]>[],
+    readingGoals: [] as unknown[],
+    articles: [] as unknown[],
+  };
+  const booksById = new Map<string, Record<string, unknown[]>>();
+  const childrenOf = (bookId: unknown, key: string) => {
+    const book = booksById.get(String(bookId));
+    if (!book) throw new Error(`Backup row references unknown book ${bookId}`);
+    return book[key];
+  };
+
+  for (const { record, id, data } of records) {
+    let row: Record<string, unknown>;
+    try {
+      row = { id, ...JSON.parse(data) };
+    } catch {
+      throw new Error(`Invalid data for ${record} ${id}`);
+    }
+
+    switch (record as BackupRecordType) {
+      case 'profile': backup.profile = row; break;
+      case 'shelf': backup.shelves.push(row); break;
+      case 'tag': backup.tags.push(row); break;
+      case 'series': backup.series.push(row); break;
+      case 'book': {
+        const book = { ...row, editions: [], reviews: [], quotes: [], sessions: [], progressEntries: [] };
+        backup.books.push(book);
+        booksById.set(id, book);
+        break;
+      }
+      case 'edition': childrenOf(row.bookId, 'editions').push(row); break;
+      case 'review': childrenOf(row.bookId, 'reviews').push(row); break;
+      case 'quote': childrenOf(row.bookId, 'quotes').push(row); break;
+      case 'session': childrenOf(row.bookId, 'sessions').push(row); break;
+      case 'progress': childrenOf(row.bookId, 'progressEntries').push(row); break;
+      case 'goal': backup.readingGoals.push(row); break;
+      case 'article': backup.articles.push(row); break;
+      default: throw new Error(`Unknown backup record type "${record}"`);
+    }
+  }
+
+  return backup;
+}
+
+/**
+ * Check the shape of an uploaded backup before anything is written
+ */
+export function parseBackup(input: unknown): LibraryBackup {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Backup must be a JSON object');
+  }
+
+  const backup = input as Partial<LibraryBackup>;
+  if (typeof backup.version !== 'number' || isNaN(backup.version)) {
+    throw new Error('Backup is missing its version');
+  }
+  if (backup.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${backup.version} is newer than this server supports (${BACKUP_VERSION})`);
+  }
+
+  const list = <T>(value: T[] | undefined, name: string): T[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) throw new Error(`Backup "${name}" must be a list`);
+    return value;
+  };
+
+  const books = list(backup.books, 'books');
+  for (const book of books) {
+    if (!book?.id || !book.title || !book.author) {
+      throw new Error('Every backed up book needs an id, title and author');
+    }
+    const contributors = book.contributors?.length ? parseContributors(book.contributors) : null;
+    if (contributors && 'error' in contributors) {
+      throw new Error(`Backed up book ${book.id}: ${contributors.error}`);
+    }
+  }
+
+  return {
+    version: backup.version,
+    exportedAt: backup.exportedAt ?? '',
+    profile: backup.profile ?? null,
+    shelves: list(backup.shelves, 'shelves'),
+    tags: list(backup.tags, 'tags'),
+    series: list(backup.series, 'series'),
+    books: books.map((book) => ({
+      ...book,
+      shelves: list(book.shelves, 'shelves'),
+      contributors: list(book.contributors, 'contributors'),
+      editions: list(book.editions, 'editions'),
+      reviews: list(book.reviews, 'reviews'),
+      quotes: list(book.quotes, 'quotes'),
+      sessions: list(book.sessions, 'sessions'),
+      progressEntries: list(book.progressEntries, 'progressEntries'),
+    })),
+    readingGoals: list(backup.readingGoals, 'readingGoals'),
+    articles: list(backup.articles, 'articles'),
+  };
+}
+
+/**
+ * Restore a backup into a user's library. Every record is upserted by id
+ * (goals by year), so restoring the same file twice leaves the library
+ * unchanged. Records that are not in the backup are left alone.
+ */
+export async function restoreBackup(userId: string, backup: LibraryBackup): Promise<RestoreSummary> {
+  const summary: RestoreSummary = {
+    profile: 0,
+    shelves: 0,
+    tags: 0,
+    series: 0,
+    books: 0,
+    editions: 0,
+    reviews: 0,
+    quotes: 0,
+    sessions: 0,
+    progressEntries: 0,
+    readingGoals: 0,
+    articles: 0,
+  };
+
+  // Ids are global: a record whose id already belongs to another account is
+  // restored under a derived id, so their data is never touched and restoring
+  // again still lands on the same rows
+  const restoreId = (id: string, owner: { userId: string | null } | null | undefined) =>
+    !owner || owner.userId === userId ? id : `${id}-${userId}`;
+
+  await prisma.$transaction(async (tx) => {
+    if (backup.profile) {
+      const { name, libraryName, bio, avatar } = backup.profile;
+      const data = { name, libraryName, bio, avatar };
+      await tx.profile.upsert({ where: { userId }, create: { userId, ...data }, update: data });
+      summary.profile = 1;
+    }
+
+    // Shelf names are unique per user, so a shelf may already exist here under another id
+    const shelfIds = new Map<string, string>();
+    for (const { id, name, rule, createdAt } of backup.shelves) {
+      const existing = await tx.shelf.findUnique({ where: { userId_name: { userId, name } } });
+      const shelfId = restoreId(id, await tx.shelf.findUnique({ where: { id }, select: { userId: true } }));
+      const shelfRule = rule ? (rule as Prisma.InputJsonValue) : Prisma.DbNull;
+      const shelf = existing ?? await tx.shelf.upsert({
+        where: { id: shelfId },
+        create: { id: shelfId, name, rule: shelfRule, userId, createdAt },
+        update: { name, rule: shelfRule },
+      });
+      shelfIds.set(id, shelf.id);
+      summary.shelves++;
+    }
+
+    // Tags are keyed by name too; parents are linked once every tag exists
+    const tagIds = new Map<string, string>();
+    for (const { id, name, color } of backup.tags) {
+      const tag = await tx.tag.upsert({
+        where: { userId_name: { userId, name } },
+        create: { name, color, userId },
+        update: { color },
+      });
+      tagIds.set(id, tag.id);
+      summary.tags++;
+    }
+    for (const { id, parentId } of backup.tags) {
+      await tx.tag.update({
+        where: { id: tagIds.get(id)! },
+        data: { parentId: (parentId && tagIds.get(parentId)) || null },
+      });
+    }
+
+    // Series names are unique per user as well
+    const seriesIds = new Map<string, string>();
+    for (const { id, name } of backup.series) {
+      const series = await tx.series.upsert({
+        where: { userId_name: { userId, name } },
+        create: { name, userId },
+        update: {},
+      });
+      seriesIds.set(id, series.id);
+      summary.series++;
+    }
+
+    for (const { shelves, contributors, editions, reviews, quotes, sessions, progressEntries, ...backedUpBook } of backup.books) {
+      const bookId = restoreId(
+        backedUpBook.id,
+        await tx.book.findUnique({ where: { id: backedUpBook.id }, select: { userId: true } })
+      );
+      const book = { ...backedUpBook, id: bookId };
+      const ownerOf = (child: { book: { userId: string | null } } | null) => child?.book;
+      const withOwner = { select: { book: { select: { userId: true } } } };
+
+      const data = {
+        title: book.title,
+        author: book.author,
+        tags: book.tags ?? [],
+        coverUrl: book.coverUrl ?? null,
+        coverStoredAt: null, // Backups don't carry images; enrichment downloads them again
+        dateAdded: book.dateAdded,
+        status: book.status,
+        progress: book.progress ?? null,
+        totalPages: book.totalPages ?? null,
+        totalDurationMinutes: book.totalDurationMinutes ?? null,
+        format: book.format ?? null,
+        isbn: book.isbn ?? null,
+        description: book.description ?? null,
+        isPublic: book.isPublic ?? false,
+        seriesId: (book.seriesId && seriesIds.get(book.seriesId)) || null,
+        seriesPosition: book.seriesPosition ?? null,
+        userId,
+      };
+      await tx.book.upsert({
+        where: { id: book.id },
+        create: { id: book.id, ...data, createdAt: book.createdAt },
+        update: data,
+      });
+      if (needsEnrichment(data)) {
+        await enqueueEnrichment(book.id, tx);
+      }
+      summary.books++;
+
+      // Version 1 backups kept a single shelfId on the book
+      const { shelfId: legacyShelfId } = backedUpBook as { shelfId?: string | null };
+      const bookShelves = shelves.length > 0
+        ? shelves
+        : legacyShelfId ? [{ shelfId: legacyShelfId, position: 0, addedAt: book.dateAdded }] : [];
+      for (const entry of bookShelves) {
+        const shelfId = shelfIds.get(entry.shelfId);
+        if (!shelfId) continue;
+        await tx.bookShelf.upsert({
+          where: { bookId_shelfId: { bookId: book.id, shelfId } },
+          create: { bookId: book.id, shelfId, position: entry.position, addedAt: entry.addedAt },
+          update: { position: entry.position },
+        });
+      }
+
+      // Version 4 and older backups had only the author line
+      if (contributors.length > 0) {
+        await setBookContributors(userId, book.id, contributors, tx);
+      } else {
+        await syncAuthorsFromLine(userId, book.id, tx);
+      }
+
+      // Version 3 and older backups had no editions; the book's ISBN and pages become one
+      const editionIds = new Map<string, string>();
+      for (const edition of editions) {
+        const id = restoreId(edition.id, ownerOf(await tx.edition.findUnique({ where: { id: edition.id }, ...withOwner })));
+        const data = {
+          format: edition.format ?? null,
+          publisher: edition.publisher ?? null,
+          year: edition.year ?? null,
+          pages: edition.pages ?? null,
+          durationMinutes: edition.durationMinutes ?? null,
+          isbn: edition.isbn ?? null,
+          bookId: book.id,
+        };
+        await tx.edition.upsert({
+          where: { id },
+          create: { id, ...data, createdAt: edition.createdAt },
+          update: data,
+        });
+        editionIds.set(edition.id, id);
+        summary.editions++;
+      }
+      const activeEditionId = book.activeEditionId && editionIds.get(book.activeEditionId);
+      if (activeEditionId) {
+        await tx.book.update({ where: { id: book.id }, data: { activeEditionId } });
+      } else {
+        await syncActiveEdition(book.id, tx);
+      }
+
+      for (const review of reviews) {
+        const id = restoreId(review.id, ownerOf(await tx.review.findUnique({ where: { id: review.id }, ...withOwner })));
+        const data = {
+          content: sanitizeMarkdown(review.content),
+          rating: review.rating,
+          isPublic: review.isPublic ?? false,
+          dateAdded: review.dateAdded,
+          bookId: book.id,
+        };
+        await tx.review.upsert({
+          where: { id },
+          create: { id, ...data, createdAt: review.createdAt },
+          update: data,
+        });
+        summary.reviews++;
+      }
+
+      for (const quote of quotes) {
+        const id = restoreId(quote.id, ownerOf(await tx.quote.findUnique({ where: { id: quote.id }, ...withOwner })));
+        const data = {
+          text: quote.text,
+          page: quote.page ?? null,
+          location: quote.location ?? null,
+          chapter: quote.chapter ?? null,
+          note: quote.note ?? null,
+          tags: quote.tags ?? [],
+          bookId: book.id,
+        };
+        await tx.quote.upsert({
+          where: { id },
+          create: { id, ...data, createdAt: quote.createdAt },
+          update: data,
+        });
+        summary.quotes++;
+      }
+
+      for (const session of sessions) {
+        const id = restoreId(session.id, ownerOf(await tx.readingSession.findUnique({ where: { id: session.id }, ...withOwner })));
+        const data = {
+          startedAt: session.startedAt ?? null,
+          finishedAt: session.finishedAt ?? null,
+          abandonedAt: session.abandonedAt ?? null,
+          edition: session.edition ?? null,
+          editionId: (session.editionId && editionIds.get(session.editionId)) || null,
+          bookId: book.id,
+        };
+        await tx.readingSession.upsert({
+          where: { id },
+          create: { id, ...data, createdAt: session.createdAt },
+          update: data,
+        });
+        summary.sessions++;
+      }
+
+      for (const entry of progressEntries) {
+        const id = restoreId(entry.id, ownerOf(await tx.progressEntry.findUnique({ where: { id: entry.id }, ...withOwner })));
+        const data = {
+          page: entry.page,
+          pagesRead: entry.pagesRead,
+          listened: entry.listened ?? false,
+          recordedAt: entry.recordedAt,
+          bookId: book.id,
+        };
+        await tx.progressEntry.upsert({ where: { id }, create: { id, ...data }, update: data });
+        summary.progressEntries++;
+      }
+    }
+
+    for (const { year, target, current } of backup.readingGoals) {
+      await tx.readingGoal.upsert({
+        where: { userId_year: { userId, year } },
+        create: { userId, year, target, current },
+        update: { target, current },
+      });
+      summary.readingGoals++;
+    }
+
+    for (const article of backup.articles) {
+      const id = restoreId(article.id, await tx.article.findUnique({ where: { id: article.id }, select: { userId: true } }));
+      const data = {
+        title: article.title,
+        url: article.url,
+        text: article.text,
+        wordCount: article.wordCount,
+        pageCount: article.pageCount,
+        dateAdded: article.dateAdded,
+        userId,
+      };
+      await tx.article.upsert({
+        where: { id },
+        create: { id, ...data, createdAt: article.createdAt },
+        update: data,
+      });
+      summary.articles++;
+    }
+
+    await refreshAverageRating({ userId }, tx);
+  }, { timeout: 120000 });
+
+  return summary;
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createBookMatcher, editDistance, normalizeAuthor, normalizeTitle } from './book-matching.js';
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    assert.equal(editDistance('kitten', 'sitting'), 3);
+    assert.equal(editDistance('dune', 'dunes'), 1);
+    assert.equal(editDistance('emma', 'ema'), 1);
+  });
+
+  it('is zero for equal strings and the length against an empty one', () => {
+    assert.equal(editDistance('mort', 'mort'), 0);
+    assert.equal(editDistance('', 'mort'), 4);
+    assert.equal(editDistance('mort', ''), 4);
+  });
+});
+
+describe('normalizeTitle', () => {
+  it('drops articles, subtitles, series markers and punctuation', () => {
+    assert.equal(normalizeTitle('The Name of the Wind: The Kingkiller Chronicle'), 'name of the wind');
+    assert.equal(normalizeTitle('Mort (Discworld, #4)'), 'mort');
+    assert.equal(normalizeTitle('Pride & Prejudice'), 'pride and prejudice');
+  });
+});
+
+describe('normalizeAuthor', () => {
+  it('reorders "Last, First" and ignores accents and initials punctuation', () => {
+    assert.equal(normalizeAuthor('Orwell, George'), 'george orwell');
+    assert.equal(normalizeAuthor('Gabriel García Márquez'), 'gabriel garcia marquez');
+    assert.equal(normalizeAuthor('J.R.R. Tolkien'), 'j r r tolkien');
+  });
+});
+
+describe('createBookMatcher', () => {
+  const matcher = createBookMatcher([{ id: 'a', title: 'Nineteen Eighty-Four', author: 'George Orwell', isbn: '978-0-452-28423-4' }]);
+
+  it('matches by ISBN first, then by title and author', () => {
+    assert.deepEqual(matcher.find({ title: 'Anything', author: 'Anyone', isbn: '9780452284234' })?.reason, 'isbn');
+    assert.deepEqual(matcher.find({ title: 'Nineteen eighty-four', author: 'Orwell, George' })?.reason, 'title_author');
+    assert.equal(matcher.find({ title: 'Animal Farm', author: 'George Orwell' }), null);
+  });
+});
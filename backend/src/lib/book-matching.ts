@@ -0,0 +1,101 @@
+import { normalizeIsbn } from './isbn.js';
+
+/**
+ * Duplicate detection shared by the importers: a book matches when the ISBN
+ * matches, or failing that when the normalized title + author match.
+ */
+
+export interface MatchableBook {
+  id: string;
+  title: string;
+  author: string;
+  isbn: string | null;
+}
+
+export type MatchReason = 'isbn' | 'title_author';
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Lowercase, drop subtitles and series markers such as "(Discworld, #1)", drop punctuation
+ */
+export function normalizeTitle(title: string): string {
+  return stripAccents(title)
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, ' ')
+    .split(/[:;]/)[0]
+    .replace(/^(the|a|an)\s+/, '')
+    .replace(/&/g, 'and')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lowercase, drop initials' punctuation and accents; "Orwell, George" becomes "george orwell"
+ */
+export function normalizeAuthor(author: string): string {
+  let name = stripAccents(author).toLowerCase().trim();
+  const lastFirst = name.match(/^([^,]+),\s*([^,]+)$/);
+  if (lastFirst) name = `${lastFirst[2]} ${lastFirst[1]}`;
+  return name.replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Levenshtein distance, keeping one row of the table at a time
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Compare quotes by their words, ignoring case and line breaks
+ */
+export function normalizeQuoteText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function titleAuthorKey(title: string, author: string): string {
+  return `${normalizeTitle(title)}|${normalizeAuthor(author)}`;
+}
+
+/**
+ * Build an index over existing books; `add` lets callers register books from
+ * the same import so repeated rows are caught too.
+ */
+export function createBookMatcher<T extends MatchableBook>(books: T[]) {
+  const byIsbn = new Map<string, T>();
+  const byTitleAuthor = new Map<string, T>();
+
+  const add = (book: T) => {
+    const isbn = normalizeIsbn(book.isbn);
+    if (isbn && !byIsbn.has(isbn)) byIsbn.set(isbn, book);
+    const key = titleAuthorKey(book.title, book.author);
+    if (!byTitleAuthor.has(key)) byTitleAuthor.set(key, book);
+  };
+
+  const find = (candidate: { title: string; author: string; isbn?: string | null }): { book: T; reason: MatchReason } | null => {
+    const isbn = normalizeIsbn(candidate.isbn);
+    if (isbn && byIsbn.has(isbn)) {
+      return { book: byIsbn.get(isbn)!, reason: 'isbn' };
+    }
+    const byName = byTitleAuthor.get(titleAuthorKey(candidate.title, candidate.author));
+    return byName ? { book: byName, reason: 'title_author' } : null;
+  };
+
+  books.forEach(add);
+  return { add, find };
+}
@@ -0,0 +1,103 @@
+import { Prisma, ReadingStatus } from '@prisma/client';
+import prisma from './prisma.js';
+import { shelfMembershipWhere } from './smart-shelves.js';
+import { tagWithDescendants } from './tags.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+const STATUSES: ReadingStatus[] = ['want_to_read', 'reading', 'read'];
+
+const SORT_FIELDS = {
+  dateAdded: 'dateAdded',
+  rating: 'averageRating',
+  title: 'title',
+  author: 'author',
+} as const;
+
+export type BookSort = keyof typeof SORT_FIELDS;
+
+export const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+export interface BookQuery {
+  where: Prisma.BookWhereInput;
+  orderBy: Prisma.BookOrderByWithRelationInput[];
+  cursor?: string;
+  limit: number;
+}
+
+const queryString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Turn `GET /api/books` query params into a Prisma query for the user's books.
+ * Async because smart shelf rules and the tag hierarchy have to be looked up.
+ */
+export async function parseBookQuery(userId: string, query: Record<string, unknown>): Promise<BookQuery> {
+  const q = queryString(query.q);
+  const status = queryString(query.status);
+  const shelf = queryString(query.shelf);
+  const tag = queryString(query.tag);
+  const ratingMin = parseFloat(queryString(query.ratingMin));
+  const sort = queryString(query.sort) as BookSort;
+  const direction: Prisma.SortOrder = query.direction === 'asc' ? 'asc' : 'desc';
+  const limit = Math.min(Math.max(parseInt(queryString(query.limit)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const where: Prisma.BookWhereInput = { userId };
+  if (q) {
+    where.OR = [
+      { title: { contains: q, mode: 'insensitive' } },
+      { author: { contains: q, mode: 'insensitive' } },
+      { tags: { has: q } },
+    ];
+  }
+  if (STATUSES.includes(status as ReadingStatus)) {
+    where.status = status as ReadingStatus;
+  }
+  // The sidebar's default shelves are statuses, anything else is a custom or smart shelf id
+  if (shelf && shelf !== 'all') {
+    if (STATUSES.includes(shelf as ReadingStatus)) {
+      where.AND = [{ status: shelf as ReadingStatus }];
+    } else {
+      const found = await prisma.shelf.findFirst({ where: { id: shelf, userId }, select: { id: true, rule: true } });
+      where.AND = [await shelfMembershipWhere(userId, found ?? { id: shelf, rule: null })];
+    }
+  }
+  // A parent tag also matches its sub-genres
+  if (tag) {
+    where.tags = { hasSome: await tagWithDescendants(userId, tag) };
+  }
+  if (!isNaN(ratingMin) && ratingMin > 0) {
+    where.averageRating = { gte: ratingMin };
+  }
+
+  // Unknown sorts, including inherited keys like `toString`, fall back to dateAdded
+  const field = Object.hasOwn(SORT_FIELDS, sort) ? SORT_FIELDS[sort] : SORT_FIELDS.dateAdded;
+  // id breaks ties so cursors stay stable between pages
+  const orderBy: Prisma.BookOrderByWithRelationInput[] = [{ [field]: direction }, { id: direction }];
+
+  return {
+    where,
+    orderBy,
+    cursor: queryString(query.cursor) || undefined,
+    limit,
+  };
+}
+
+/**
+ * Recompute the cached average rating used for sorting and filtering,
+ * either for one book or for every book a user owns
+ */
+export async function refreshAverageRating(
+  target: { bookId: string } | { userId: string },
+  client: Client = prisma
+): Promise<void> {
+  const filter = 'bookId' in target
+    ? Prisma.sql`b."id" = ${target.bookId}`
+    : Prisma.sql`b."userId" = ${target.userId}`;
+
+  await client.$executeRaw`
+    UPDATE "Book" b
+    SET "averageRating" = COALESCE((SELECT AVG(r."rating") FROM "Review" r WHERE r."bookId" = b."id"), 0)
+    WHERE ${filter}
+  `;
+}
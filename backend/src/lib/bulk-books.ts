@@ -0,0 +1,171 @@
+import { Prisma, ReadingStatus } from '@prisma/client';
+import prisma from './prisma.js';
+import { applyStatusChange } from './reading-sessions.js';
+import { coverStore } from './covers.js';
+import { addBooksToShelf } from './shelves.js';
+
+const STATUSES: ReadingStatus[] = ['want_to_read', 'reading', 'read'];
+
+// Keeps one request (and its transaction) to a reasonable size
+export const MAX_BULK_BOOKS = 500;
+
+export type BulkAction =
+  | { type: 'add_to_shelf'; shelfId: string }
+  | { type: 'remove_from_shelf'; shelfId: string }
+  | { type: 'set_status'; status: ReadingStatus }
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'remove_tags'; tags: string[] }
+  | { type: 'delete' };
+
+export type BulkOutcome = 'updated' | 'unchanged' | 'deleted' | 'not_found';
+
+export interface BulkItemResult {
+  bookId: string;
+  outcome: BulkOutcome;
+}
+
+export interface BulkReport {
+  action: BulkAction['type'];
+  summary: Record<BulkOutcome, number>;
+  items: BulkItemResult[];
+}
+
+function parseTags(tags: unknown): string[] | null {
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : null;
+  if (!list) return null;
+  const cleaned = list.filter((t): t is string => typeof t === 'string').map((t) => t.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+/**
+ * Validate a bulk request body: { bookIds, action, shelf?, status?, tags? }.
+ * The shelf must belong to the user and can't be a smart shelf.
+ */
+export async function parseBulkRequest(
+  userId: string,
+  body: any
+): Promise<{ bookIds: string[]; action: BulkAction } | { error: string }> {
+  const bookIds: unknown = body?.bookIds;
+  if (!Array.isArray(bookIds) || bookIds.length === 0 || !bookIds.every((id) => typeof id === 'string')) {
+    return { error: 'bookIds must be a non-empty array of book ids' };
+  }
+  if (bookIds.length > MAX_BULK_BOOKS) {
+    return { error: `At most ${MAX_BULK_BOOKS} books can be changed at once` };
+  }
+  const ids = [...new Set(bookIds as string[])];
+
+  switch (body.action) {
+    case 'add_to_shelf':
+    case 'remove_from_shelf': {
+      if (!body.shelf) return { error: 'A shelf is required' };
+      const shelf = await prisma.shelf.findFirst({ where: { id: String(body.shelf), userId }, select: { id: true, rule: true } });
+      if (!shelf) return { error: 'Shelf not found' };
+      if (shelf.rule !== null) return { error: 'Books can\'t be added to or removed from a smart shelf' };
+      return { bookIds: ids, action: { type: body.action, shelfId: shelf.id } };
+    }
+    case 'set_status':
+      if (!STATUSES.includes(body.status)) {
+        return { error: `status must be one of ${STATUSES.join(', ')}` };
+      }
+      return { bookIds: ids, action: { type: 'set_status', status: body.status } };
+    case 'add_tags':
+    case 'remove_tags': {
+      const tags = parseTags(body.tags);
+      if (!tags) return { error: 'At least one tag is required' };
+      return { bookIds: ids, action: { type: body.action, tags } };
+    }
+    case 'delete':
+      return { bookIds: ids, action: { type: 'delete' } };
+    default:
+      return { error: 'action must be one of add_to_shelf, remove_from_shelf, set_status, add_tags, remove_tags, delete' };
+  }
+}
+
+/**
+ * Apply one action to many books in a single transaction, reporting what
+ * happened to each. Ids that aren't the user's books are reported as not_found.
+ */
+export async function runBulkAction(userId: string, bookIds: string[], action: BulkAction): Promise<BulkReport> {
+  const items = await prisma.$transaction(async (tx) => {
+    const books = await tx.book.findMany({
+      where: { id: { in: bookIds }, userId },
+      select: { id: true, status: true, tags: true },
+    });
+    const byId = new Map(books.map((book) => [book.id, book]));
+
+    // Shelf additions go in together so the books land on the shelf in request order
+    const addedToShelf = new Set(
+      action.type === 'add_to_shelf' ? await addBooksToShelf(action.shelfId, bookIds.filter((id) => byId.has(id)), tx) : []
+    );
+
+    const results: BulkItemResult[] = [];
+    for (const bookId of bookIds) {
+      const book = byId.get(bookId);
+      if (!book) {
+        results.push({ bookId, outcome: 'not_found' });
+        continue;
+      }
+
+      switch (action.type) {
+        case 'add_to_shelf': {
+          if (!addedToShelf.has(bookId)) break;
+          results.push({ bookId, outcome: 'updated' });
+          continue;
+        }
+        case 'remove_from_shelf': {
+          const { count } = await tx.bookShelf.deleteMany({ where: { bookId, shelfId: action.shelfId } });
+          if (count === 0) break;
+          results.push({ bookId, outcome: 'updated' });
+          continue;
+        }
+        case 'set_status': {
+          if (book.status === action.status) break;
+          await tx.book.update({ where: { id: bookId }, data: { status: action.status } });
+          await applyStatusChange(bookId, book.status, action.status, tx);
+          results.push({ bookId, outcome: 'updated' });
+          continue;
+        }
+        case 'add_tags': {
+          const added = action.tags.filter((tag) => !book.tags.includes(tag));
+          if (added.length === 0) break;
+          await tx.book.update({ where: { id: bookId }, data: { tags: [...book.tags, ...added] } });
+          results.push({ bookId, outcome: 'updated' });
+          continue;
+        }
+        case 'remove_tags': {
+          const kept = book.tags.filter((tag) => !action.tags.includes(tag));
+          if (kept.length === book.tags.length) break;
+          await tx.book.update({ where: { id: bookId }, data: { tags: kept } });
+          results.push({ bookId, outcome: 'updated' });
+          continue;
+        }
+        case 'delete': {
+          await tx.book.delete({ where: { id: bookId } });
+          results.push({ bookId, outcome: 'deleted' });
+          continue;
+        }
+      }
+      results.push({ bookId, outcome: 'unchanged' });
+    }
+    return results;
+  }, { timeout: 60000 });
+
+  // Files aren't part of the transaction, so only remove covers once it has committed
+  if (action.type === 'delete') {
+    for (const item of items) {
+      if (item.outcome === 'deleted') await coverStore.remove(item.bookId);
+    }
+  }
+
+  const count = (outcome: BulkOutcome) => items.filter((item) => item.outcome === outcome).length;
+  return {
+    action: action.type,
+    summary: {
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      deleted: count('deleted'),
+      not_found: count('not_found'),
+    },
+    items,
+  };
+}
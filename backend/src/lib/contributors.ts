@@ -0,0 +1,112 @@
+import { BookContributor, ContributorRole, Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { parseAuthorLine } from './author-lines.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export const CONTRIBUTOR_ROLES: ContributorRole[] = ['author', 'translator', 'editor', 'illustrator', 'narrator'];
+
+export interface ContributorInput {
+  name: string;
+  role: ContributorRole;
+}
+
+/**
+ * Shape a contributor for the API
+ */
+export function transformContributor(contributor: BookContributor & { author: { name: string } }) {
+  return {
+    authorId: contributor.authorId,
+    name: contributor.author.name,
+    role: contributor.role,
+  };
+}
+
+/**
+ * Parse a list of `{ name, role }` from a request body, in title page order.
+ * A book needs at least one author; repeated name + role pairs are dropped.
+ */
+export function parseContributors(value: unknown): { data: ContributorInput[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'contributors must be a list of { name, role }' };
+  }
+
+  const data: ContributorInput[] = [];
+  const seen = new Set<string>();
+  for (const entry of value) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const role = entry?.role ?? 'author';
+    if (!name) {
+      return { error: 'Every contributor needs a name' };
+    }
+    if (!CONTRIBUTOR_ROLES.includes(role)) {
+      return { error: `role must be one of ${CONTRIBUTOR_ROLES.join(', ')}` };
+    }
+    if (seen.has(`${name}|${role}`)) continue;
+    seen.add(`${name}|${role}`);
+    data.push({ name, role });
+  }
+
+  if (!data.some((contributor) => contributor.role === 'author')) {
+    return { error: 'At least one author is required' };
+  }
+  return { data };
+}
+
+/**
+ * The single string kept on Book.author for display, sorting, search and
+ * matching: the authors joined with " & "
+ */
+export function authorLine(contributors: ContributorInput[]): string {
+  return contributors
+    .filter((contributor) => contributor.role === 'author')
+    .map((contributor) => contributor.name)
+    .join(' & ');
+}
+
+/**
+ * Replace a book's contributors, creating authors by name as needed, and
+ * rebuild its author line. Authors left without any books are removed.
+ */
+export async function setBookContributors(
+  userId: string,
+  bookId: string,
+  contributors: ContributorInput[],
+  client: Client = prisma
+): Promise<void> {
+  await client.bookContributor.deleteMany({ where: { bookId } });
+
+  for (const [position, contributor] of contributors.entries()) {
+    const author = await client.author.upsert({
+      where: { userId_name: { userId, name: contributor.name } },
+      create: { userId, name: contributor.name },
+      update: {},
+    });
+    await client.bookContributor.create({
+      data: { bookId, authorId: author.id, role: contributor.role, position },
+    });
+  }
+
+  await client.book.update({ where: { id: bookId }, data: { author: authorLine(contributors) } });
+  await client.author.deleteMany({ where: { userId, contributions: { none: {} } } });
+}
+
+/**
+ * The author line was written directly (the book form, imports): rebuild the
+ * book's contributors from it, keeping translators, editors and the like the
+ * line doesn't mention. The line is rewritten to hold just the authors.
+ */
+export async function syncAuthorsFromLine(userId: string, bookId: string, client: Client = prisma): Promise<void> {
+  const book = await client.book.findUniqueOrThrow({
+    where: { id: bookId },
+    include: { contributors: { orderBy: { position: 'asc' }, include: { author: true } } },
+  });
+
+  const fromLine = parseAuthorLine(book.author);
+  const others = book.contributors
+    .filter((contributor) => contributor.role !== 'author')
+    .map((contributor) => ({ name: contributor.author.name, role: contributor.role }))
+    .filter((other) => !fromLine.some((c) => c.name === other.name && c.role === other.role));
+
+  await setBookContributors(userId, bookId, [...fromLine, ...others], client);
+}
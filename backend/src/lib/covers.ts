@@ -0,0 +1,279 @@
+import { cp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import prisma from './prisma.js';
+
+export const COVER_SIZES = ['small', 'medium', 'large'] as const;
+export type CoverSize = (typeof COVER_SIZES)[number];
+
+// Widths each size is scaled down to; smaller images are kept at their own size
+const COVER_WIDTHS: Record<CoverSize, number> = { small: 120, medium: 300, large: 600 };
+
+export const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+const DOWNLOAD_TIMEOUT_MS = 15 * 1000;
+const MAX_REDIRECTS = 3;
+
+// Covers are only downloaded from the metadata providers (and the hosts they
+// redirect to), never from an arbitrary user-supplied URL
+const COVER_HOSTS = [
+  /^covers\.openlibrary\.org$/,
+  /^([\w-]+\.)*archive\.org$/,
+  /^books\.google(apis)?\.com$/,
+  /^([\w-]+\.)*googleusercontent\.com$/,
+];
+
+/**
+ * Somewhere to keep cover images, keyed by book and size
+ */
+export interface CoverStore {
+  put(bookId: string, size: CoverSize, data: Buffer): Promise<void>;
+  get(bookId: string, size: CoverSize): Promise<Buffer | null>;
+  remove(bookId: string): Promise<void>;
+  // Replace one book's covers with copies of another's, in every stored size
+  copy(fromBookId: string, toBookId: string): Promise<void>;
+}
+
+/**
+ * Covers on local disk under COVER_STORAGE_DIR (default storage/covers), one folder per book
+ */
+export function createDiskCoverStore(root: string): CoverStore {
+  const fileFor = (bookId: string, size: CoverSize) => path.join(root, path.basename(bookId), size);
+
+  return {
+    async put(bookId, size, data) {
+      const file = fileFor(bookId, size);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    async get(bookId, size) {
+      try {
+        return await readFile(fileFor(bookId, size));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async remove(bookId) {
+      await rm(path.join(root, path.basename(bookId)), { recursive: true, force: true });
+    },
+
+    async copy(fromBookId, toBookId) {
+      const target = path.join(root, path.basename(toBookId));
+      await rm(target, { recursive: true, force: true });
+      try {
+        await cp(path.join(root, path.basename(fromBookId)), target, { recursive: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+  };
+}
+
+export const coverStore = createDiskCoverStore(path.resolve(process.env.COVER_STORAGE_DIR || 'storage/covers'));
+
+/**
+ * Image type from the file's magic bytes, or null if it isn't an image we serve
+ */
+export function detectImageType(data: Buffer): string | null {
+  if (data.length < 12) return null;
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data.subarray(0, 6).toString('ascii') === 'GIF87a' || data.subarray(0, 6).toString('ascii') === 'GIF89a') return 'image/gif';
+  if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+  return null;
+}
+
+/**
+ * The largest version of a provider's cover (Open Library and Google Books can
+ * resize for us), so every size is scaled down from the best image available
+ */
+function largestSourceUrl(url: string): string {
+  const openLibrary = url.match(/^(https:\/\/covers\.openlibrary\.org\/b\/\w+\/[^/]+)-[SML]\.jpg/);
+  if (openLibrary) return `${openLibrary[1]}-L.jpg`;
+
+  if (/^https:\/\/books\.google(apis)?\.com\/books\/content/.test(url)) {
+    const u = new URL(url);
+    u.searchParams.delete('edge');
+    u.searchParams.set('fife', `w${COVER_WIDTHS.large}`);
+    return u.toString();
+  }
+
+  return url;
+}
+
+/**
+ * Whether a cover URL is one we download and keep a copy of: HTTPS from Open
+ * Library or Google Books. Other covers stay hotlinked.
+ */
+export function isStorableCoverUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && COVER_HOSTS.some((host) => host.test(hostname));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a response body, giving up as soon as it grows past MAX_COVER_BYTES
+ */
+async function readCapped(response: Response, url: string): Promise<Buffer> {
+  const tooLarge = () => new Error(`Cover at ${url} is larger than ${MAX_COVER_BYTES} bytes`);
+  if (Number(response.headers.get('content-length')) > MAX_COVER_BYTES) throw tooLarge();
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let length = 0;
+  const reader = response.body.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    length += chunk.value.length;
+    if (length > MAX_COVER_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(Buffer.from(chunk.value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch a cover, following redirects by hand so every hop is checked against
+ * the allowed hosts
+ */
+async function download(url: string): Promise<Buffer> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    if (!isStorableCoverUrl(current)) {
+      throw new Error(`Covers are only downloaded from Open Library and Google Books, not ${current}`);
+    }
+
+    const response = await fetch(current, { redirect: 'manual', signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects fetching ${url}`);
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`${new URL(current).hostname} responded with ${response.status}`);
+    }
+    const data = await readCapped(response, url);
+    if (!detectImageType(data)) {
+      throw new Error(`Cover at ${url} is not an image`);
+    }
+    return data;
+  }
+}
+
+/**
+ * An image that passed the magic-byte check but can't be decoded
+ */
+export class InvalidCoverError extends Error {}
+
+/**
+ * Scale one image down to every cover size and store them as the book's cover
+ */
+async function storeCoverSizes(bookId: string, data: Buffer): Promise<void> {
+  let images: Buffer[];
+  try {
+    images = await Promise.all(
+      COVER_SIZES.map((size) =>
+        sharp(data)
+          .rotate()
+          .resize({ width: COVER_WIDTHS[size], withoutEnlargement: true })
+          .jpeg({ quality: 85 })
+          .toBuffer()
+      )
+    );
+  } catch (error) {
+    throw new InvalidCoverError(error instanceof Error ? error.message : 'Cover could not be read');
+  }
+
+  for (const [index, size] of COVER_SIZES.entries()) {
+    await coverStore.put(bookId, size, images[index]);
+  }
+}
+
+/**
+ * Download a remote cover, store it in every size and point the book at the stored copy
+ */
+export async function storeCoverFromUrl(bookId: string, url: string): Promise<void> {
+  await storeCoverSizes(bookId, await download(largestSourceUrl(url)));
+  await prisma.book.update({ where: { id: bookId }, data: { coverUrl: url, coverStoredAt: new Date() } });
+}
+
+/**
+ * Save a user-uploaded cover in every size
+ */
+export async function storeUploadedCover(bookId: string, data: Buffer): Promise<void> {
+  await storeCoverSizes(bookId, data);
+  await prisma.book.update({ where: { id: bookId }, data: { coverUrl: null, coverStoredAt: new Date() } });
+}
+
+/**
+ * Path clients load a stored cover from; the timestamp busts caches after a change
+ */
+function storedCoverPath(bookId: string, storedAt: Date, size: CoverSize = 'large'): string {
+  return `/api/covers/${bookId}/${size}?v=${storedAt.getTime()}`;
+}
+
+// Covers saved before placeholders were generated here
+const LEGACY_PLACEHOLDER = 'https://placehold.co/';
+
+/**
+ * Path to the generated cover shown until (or unless) enrichment finds a real one
+ */
+export function placeholderCoverPath(title: string): string {
+  return `/api/covers/placeholder?title=${encodeURIComponent(title.substring(0, 60))}`;
+}
+
+/**
+ * The cover a book is sent with: its stored copy, the remote cover, or a placeholder
+ */
+export function bookCoverPath(book: { id: string; title: string; coverUrl: string | null; coverStoredAt: Date | null }): string {
+  if (book.coverStoredAt) return storedCoverPath(book.id, book.coverStoredAt);
+  if (book.coverUrl && !book.coverUrl.startsWith(LEGACY_PLACEHOLDER)) return book.coverUrl;
+  return placeholderCoverPath(book.title);
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[c]!);
+
+/**
+ * A plain cover with the title on it, as SVG, wrapped to fit the 150x220 card
+ */
+export function placeholderCoverSvg(title: string): string {
+  const LINE_LENGTH = 14;
+  const MAX_LINES = 5;
+
+  const lines: string[] = [];
+  for (const word of title.trim().split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + word.length + 1 <= LINE_LENGTH) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word.length > LINE_LENGTH ? `${word.substring(0, LINE_LENGTH - 1)}…` : word);
+    }
+  }
+  if (lines.length > MAX_LINES) {
+    lines.splice(MAX_LINES);
+    lines[MAX_LINES - 1] = `${lines[MAX_LINES - 1].substring(0, LINE_LENGTH - 1)}…`;
+  }
+
+  const top = 110 - ((lines.length - 1) * 18) / 2;
+  const text = lines
+    .map((line, i) => `<tspan x="75" y="${top + i * 18}">${escapeXml(line)}</tspan>`)
+    .join('');
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" width="150" height="220" viewBox="0 0 150 220">' +
+    '<rect width="150" height="220" fill="#635C7B"/>' +
+    `<text fill="#fff" font-family="Georgia, serif" font-size="15" text-anchor="middle" dominant-baseline="middle">${text}</text>` +
+    '</svg>'
+  );
+}
@@ -0,0 +1,169 @@
+import prisma from './prisma.js';
+import { normalizeIsbn } from './isbn.js';
+import { editDistance, normalizeAuthor, normalizeTitle } from './book-matching.js';
+import { addBooksToShelf } from './shelves.js';
+import { refreshAverageRating } from './book-query.js';
+import { coverStore } from './covers.js';
+
+/**
+ * Why books were grouped: same ISBN, same normalized title + author, or
+ * close enough (a typo in the title or author) to be worth a look
+ */
+export type DuplicateReason = 'isbn' | 'title_author' | 'similar';
+
+export interface DuplicateCluster {
+  bookIds: string[];
+  reasons: DuplicateReason[];
+}
+
+/**
+ * Close enough to be a typo: a couple of edits, scaled to the length.
+ * Very short strings must match exactly ("It" is not "If").
+ */
+function isSimilar(a: string, b: string): boolean {
+  const length = Math.max(a.length, b.length);
+  if (length < 5) return a === b;
+  return editDistance(a, b) <= Math.max(1, Math.floor(length * 0.2));
+}
+
+/**
+ * Group a user's books that look like the same work. Exact ISBN and
+ * title + author matches are grouped directly; fuzzy matches compare titles
+ * within an author (and authors within a title) so the work stays well
+ * under every pair of books.
+ */
+export async function findDuplicateClusters(userId: string): Promise<DuplicateCluster[]> {
+  const books = await prisma.book.findMany({
+    where: { userId },
+    select: { id: true, title: true, author: true, isbn: true },
+    orderBy: { dateAdded: 'asc' },
+  });
+
+  // Union-find over book indexes, remembering why each pair was joined
+  const parent = books.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const pairReasons = new Map<string, Set<DuplicateReason>>();
+  const join = (a: number, b: number, reason: DuplicateReason) => {
+    if (a === b) return;
+    parent[root(a)] = root(b);
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+    pairReasons.set(key, (pairReasons.get(key) ?? new Set()).add(reason));
+  };
+
+  const keyed = books.map((book) => ({
+    isbn: normalizeIsbn(book.isbn),
+    title: normalizeTitle(book.title),
+    author: normalizeAuthor(book.author),
+  }));
+
+  const groupBy = (key: (i: number) => string | null) => {
+    const groups = new Map<string, number[]>();
+    keyed.forEach((_, i) => {
+      const value = key(i);
+      if (value) groups.set(value, [...(groups.get(value) ?? []), i]);
+    });
+    return [...groups.values()];
+  };
+
+  for (const group of groupBy((i) => keyed[i].isbn)) {
+    group.slice(1).forEach((i) => join(group[0], i, 'isbn'));
+  }
+  for (const group of groupBy((i) => `${keyed[i].title}|${keyed[i].author}`)) {
+    group.slice(1).forEach((i) => join(group[0], i, 'title_author'));
+  }
+
+  // Same author, title with a typo; then same title, author with a typo
+  const fuzzy = (groups: number[][], field: 'title' | 'author') => {
+    for (const group of groups) {
+      for (let x = 0; x < group.length; x++) {
+        for (let y = x + 1; y < group.length; y++) {
+          const [a, b] = [keyed[group[x]][field], keyed[group[y]][field]];
+          if (a !== b && isSimilar(a, b)) join(group[x], group[y], 'similar');
+        }
+      }
+    }
+  };
+  fuzzy(groupBy((i) => keyed[i].author), 'title');
+  fuzzy(groupBy((i) => keyed[i].title), 'author');
+
+  const clusters = new Map<number, number[]>();
+  books.forEach((_, i) => clusters.set(root(i), [...(clusters.get(root(i)) ?? []), i]));
+
+  return [...clusters.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => {
+      const reasons = new Set<DuplicateReason>();
+      for (const [key, found] of pairReasons) {
+        const [a] = key.split('|').map(Number);
+        if (members.includes(a)) found.forEach((reason) => reasons.add(reason));
+      }
+      return { bookIds: members.map((i) => books[i].id), reasons: [...reasons] };
+    });
+}
+
+/**
+ * Fold duplicates into one surviving book, atomically: reviews, quotes,
+ * reading sessions, progress and editions move over (so a second copy becomes a
+ * second edition), tags and shelves are combined, and details the survivor
+ * is missing (description, cover, series) are filled in from the duplicates. The
+ * survivor keeps its own title, author, status and active edition.
+ * The duplicates are deleted. Returns false if any book isn't the user's.
+ */
+export async function mergeBooks(userId: string, survivorId: string, duplicateIds: string[]): Promise<boolean> {
+  const ids = [...new Set(duplicateIds)].filter((id) => id !== survivorId);
+
+  const merged = await prisma.$transaction(async (tx) => {
+    const books = await tx.book.findMany({
+      where: { id: { in: [survivorId, ...ids] }, userId },
+      include: { shelves: { orderBy: { addedAt: 'asc' } } },
+    });
+    const survivor = books.find((book) => book.id === survivorId);
+    const duplicates = ids.map((id) => books.find((book) => book.id === id));
+    if (!survivor || duplicates.some((book) => !book)) return false;
+    const others = duplicates.filter((book): book is (typeof books)[number] => !!book);
+
+    await tx.review.updateMany({ where: { bookId: { in: ids } }, data: { bookId: survivorId } });
+    await tx.quote.updateMany({ where: { bookId: { in: ids } }, data: { bookId: survivorId } });
+    await tx.readingSession.updateMany({ where: { bookId: { in: ids } }, data: { bookId: survivorId } });
+    await tx.progressEntry.updateMany({ where: { bookId: { in: ids } }, data: { bookId: survivorId } });
+    await tx.edition.updateMany({ where: { bookId: { in: ids } }, data: { bookId: survivorId } });
+    for (const shelf of others.flatMap((book) => book.shelves)) {
+      await addBooksToShelf(shelf.shelfId, [survivorId], tx);
+    }
+
+    const firstOf = <T>(pick: (book: (typeof books)[number]) => T | null) =>
+      others.map(pick).find((value) => value !== null) ?? null;
+    const hasCover = (book: (typeof books)[number]) => book.coverStoredAt !== null || book.coverUrl !== null;
+    const coverFrom = hasCover(survivor) ? undefined : others.find(hasCover);
+    const inSeries = survivor.seriesId === null ? others.find((book) => book.seriesId !== null) : undefined;
+
+    // Copied before the duplicates' files are removed below; if the merge
+    // rolls back, the survivor's copy is simply never pointed at
+    if (coverFrom?.coverStoredAt) {
+      await coverStore.copy(coverFrom.id, survivorId);
+    }
+
+    await tx.book.update({
+      where: { id: survivorId },
+      data: {
+        tags: [...new Set([survivor, ...others].flatMap((book) => book.tags))],
+        description: survivor.description ?? firstOf((book) => book.description),
+        progress: survivor.progress ?? firstOf((book) => book.progress),
+        ...(coverFrom && { coverUrl: coverFrom.coverUrl, coverStoredAt: coverFrom.coverStoredAt }),
+        ...(inSeries && { seriesId: inSeries.seriesId, seriesPosition: inSeries.seriesPosition }),
+        isPublic: survivor.isPublic || others.some((book) => book.isPublic),
+      },
+    });
+
+    await tx.book.deleteMany({ where: { id: { in: ids } } });
+    await tx.series.deleteMany({ where: { userId, books: { none: {} } } });
+    await refreshAverageRating({ bookId: survivorId }, tx);
+    return true;
+  }, { timeout: 60000 });
+
+  // Files aren't part of the transaction, so only remove covers once it has committed
+  if (merged) {
+    for (const id of ids) await coverStore.remove(id);
+  }
+  return merged;
+}
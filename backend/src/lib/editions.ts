@@ -0,0 +1,124 @@
+import { Edition, EditionFormat, Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { normalizeIsbn } from './isbn.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export const EDITION_FORMATS: EditionFormat[] = ['hardcover', 'paperback', 'ebook', 'audiobook'];
+
+export type EditionInput = Partial<Pick<Edition, 'format' | 'publisher' | 'year' | 'pages' | 'durationMinutes' | 'isbn'>>;
+
+/**
+ * Shape an edition for the API
+ */
+export function transformEdition(edition: Edition) {
+  return {
+    id: edition.id,
+    format: edition.format,
+    publisher: edition.publisher,
+    year: edition.year,
+    pages: edition.pages,
+    durationMinutes: edition.durationMinutes,
+    isbn: edition.isbn,
+  };
+}
+
+/**
+ * Parse the optional fields of an edition body; null or '' clears a field.
+ * Returns an error message instead of data when the input is invalid.
+ */
+export function parseEditionInput(body: any): { data: EditionInput } | { error: string } {
+  const data: EditionInput = {};
+  const isEmpty = (value: unknown) => value === null || value === '';
+
+  if (body.format !== undefined) {
+    if (isEmpty(body.format)) {
+      data.format = null;
+    } else if (EDITION_FORMATS.includes(body.format)) {
+      data.format = body.format;
+    } else {
+      return { error: `format must be one of ${EDITION_FORMATS.join(', ')}` };
+    }
+  }
+  if (body.publisher !== undefined) {
+    data.publisher = typeof body.publisher === 'string' && body.publisher.trim() ? body.publisher.trim() : null;
+  }
+  for (const field of ['year', 'pages', 'durationMinutes'] as const) {
+    if (body[field] === undefined) continue;
+    if (isEmpty(body[field])) {
+      data[field] = null;
+      continue;
+    }
+    const value = Number(body[field]);
+    if (!Number.isInteger(value) || value <= 0) {
+      return { error: `${field} must be a positive whole number` };
+    }
+    data[field] = value;
+  }
+  if (body.isbn !== undefined) {
+    data.isbn = normalizeIsbn(body.isbn);
+  }
+
+  return { data };
+}
+
+/**
+ * Copy the active edition's ISBN, format and length onto the book, which keeps
+ * them for search, matching and progress
+ */
+export async function mirrorActiveEdition(bookId: string, client: Client = prisma): Promise<void> {
+  const book = await client.book.findUniqueOrThrow({ where: { id: bookId }, include: { activeEdition: true } });
+  if (!book.activeEdition) return;
+  await client.book.update({
+    where: { id: bookId },
+    data: {
+      isbn: book.activeEdition.isbn,
+      format: book.activeEdition.format,
+      totalPages: book.activeEdition.pages,
+      totalDurationMinutes: book.activeEdition.durationMinutes,
+    },
+  });
+}
+
+/**
+ * The book's ISBN, format or length was written directly (the book form, imports,
+ * enrichment): carry them onto the active edition, creating one if the book has none
+ */
+export async function syncActiveEdition(bookId: string, client: Client = prisma): Promise<void> {
+  const book = await client.book.findUniqueOrThrow({ where: { id: bookId }, include: { activeEdition: true } });
+  const active = book.activeEdition;
+  const data = {
+    isbn: book.isbn,
+    format: book.format,
+    pages: book.totalPages,
+    durationMinutes: book.totalDurationMinutes,
+  };
+
+  if (!active) {
+    const edition = await client.edition.create({ data: { bookId, ...data } });
+    await client.book.update({ where: { id: bookId }, data: { activeEditionId: edition.id } });
+  } else if ((Object.keys(data) as (keyof typeof data)[]).some((key) => active[key] !== data[key])) {
+    await client.edition.update({ where: { id: active.id }, data });
+  }
+}
+
+/**
+ * Make an edition the one the book shows and tracks progress against
+ */
+export async function setActiveEdition(bookId: string, editionId: string, client: Client = prisma): Promise<void> {
+  await client.book.update({ where: { id: bookId }, data: { activeEditionId: editionId } });
+  await mirrorActiveEdition(bookId, client);
+}
+
+/**
+ * Delete an edition. If it was the active one, the newest remaining edition takes over.
+ */
+export async function removeEdition(bookId: string, editionId: string, client: Client = prisma): Promise<void> {
+  const book = await client.book.findUniqueOrThrow({ where: { id: bookId }, select: { activeEditionId: true } });
+  await client.edition.delete({ where: { id: editionId } });
+
+  if (book.activeEditionId === editionId) {
+    const next = await client.edition.findFirst({ where: { bookId }, orderBy: { createdAt: 'desc' } });
+    if (next) await setActiveEdition(bookId, next.id, client);
+  }
+}
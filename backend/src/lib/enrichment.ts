@@ -0,0 +1,173 @@
+import { Prisma, EnrichmentJob } from '@prisma/client';
+import prisma from './prisma.js';
+import { findMetadataByTitleAuthor } from './metadata/index.js';
+import { isStorableCoverUrl, storeCoverFromUrl } from './covers.js';
+import { normalizeIsbn } from './isbn.js';
+import { syncActiveEdition } from './editions.js';
+import { assignSeries } from './series.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+// Give up after this many failed lookups
+const MAX_ATTEMPTS = 5;
+
+// Retry delay doubles each attempt: 1m, 2m, 4m, ... capped at a day
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+// A job left running this long was interrupted (e.g. by a restart) and is picked up again
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const JOBS_PER_TICK = 10;
+
+type EnrichableBook = {
+  coverUrl: string | null;
+  coverStoredAt: Date | null;
+  isbn: string | null;
+  totalPages: number | null;
+  description: string | null;
+};
+
+function isRemoteCover(coverUrl: string | null): coverUrl is string {
+  return !!coverUrl && coverUrl.startsWith('http') && !coverUrl.startsWith('https://placehold.co/');
+}
+
+function hasRealCover(book: EnrichableBook): boolean {
+  return !!book.coverStoredAt || isRemoteCover(book.coverUrl);
+}
+
+/**
+ * Whether a lookup could fill in anything the book is missing, or its cover still needs downloading
+ */
+export function needsEnrichment(book: EnrichableBook): boolean {
+  return !book.coverStoredAt || !book.isbn || !book.totalPages || !book.description;
+}
+
+/**
+ * Queue a metadata lookup for a book, restarting any earlier job for it
+ */
+export async function enqueueEnrichment(bookId: string, client: Client = prisma): Promise<void> {
+  await client.enrichmentJob.upsert({
+    where: { bookId },
+    create: { bookId },
+    update: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+  });
+}
+
+/**
+ * Look the book up, fill in only the fields it's missing, and keep our own copy of its cover
+ */
+async function runJob(job: EnrichmentJob): Promise<void> {
+  const book = await prisma.book.findUnique({ where: { id: job.bookId } });
+  if (!book) return;
+
+  const missingMetadata = !hasRealCover(book) || !book.isbn || !book.totalPages || !book.description;
+  // Throws (and so retries) only when every provider failed
+  const found = missingMetadata ? await findMetadataByTitleAuthor(book.title, book.author) : null;
+
+  if (found) {
+    const data: Prisma.BookUpdateInput = {
+      ...(found.isbn && !book.isbn && { isbn: normalizeIsbn(found.isbn) }),
+      ...(found.pageCount && !book.totalPages && { totalPages: found.pageCount }),
+      ...(found.description && !book.description && { description: found.description }),
+    };
+    // Books without an owner can't have series, which belong to a user
+    const series = found.series && !book.seriesId && book.userId
+      ? { userId: book.userId, name: found.series, position: found.seriesPosition ?? null }
+      : null;
+    if (Object.keys(data).length > 0 || series) {
+      await prisma.$transaction(async (tx) => {
+        await tx.book.update({ where: { id: book.id }, data });
+        await syncActiveEdition(book.id, tx);
+        if (series) {
+          await assignSeries(series.userId, book.id, series.name, series.position, tx);
+        }
+      });
+      const fields = [...Object.keys(data), ...(series ? ['series'] : [])];
+      console.log(`✅ Enriched "${book.title}" (${fields.join(', ')})`);
+    }
+  }
+
+  // A cover the user picked from elsewhere stays hotlinked rather than being replaced
+  const coverUrl = isRemoteCover(book.coverUrl) ? book.coverUrl : found?.coverUrl;
+  if (!book.coverStoredAt && coverUrl && isStorableCoverUrl(coverUrl)) {
+    await storeCoverFromUrl(book.id, coverUrl);
+    console.log(`✅ Stored cover for "${book.title}"`);
+  }
+}
+
+/**
+ * Claim due jobs so that several server instances never run the same one
+ */
+async function claimJobs(limit: number): Promise<EnrichmentJob[]> {
+  const staleBefore = new Date(Date.now() - STALE_RUNNING_MS);
+  return prisma.$queryRaw<EnrichmentJob[]>`
+    UPDATE "EnrichmentJob"
+    SET "status" = 'running', "attempts" = "attempts" + 1, "updatedAt" = now()
+    WHERE "id" IN (
+      SELECT "id" FROM "EnrichmentJob"
+      WHERE ("status" = 'pending' AND "nextAttemptAt" <= now())
+         OR ("status" = 'running' AND "updatedAt" < ${staleBefore})
+      ORDER BY "nextAttemptAt"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+/**
+ * Run the jobs that are due, one at a time to stay polite to the metadata providers
+ */
+export async function processEnrichmentJobs(limit = JOBS_PER_TICK): Promise<number> {
+  const jobs = await claimJobs(limit);
+
+  for (const job of jobs) {
+    try {
+      await runJob(job);
+      await prisma.enrichmentJob.updateMany({
+        where: { id: job.id },
+        data: { status: 'done', lastError: null },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const giveUp = job.attempts >= MAX_ATTEMPTS;
+      const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+      console.warn(`Enrichment failed for book ${job.bookId} (attempt ${job.attempts}):`, message);
+      await prisma.enrichmentJob.updateMany({
+        where: { id: job.id },
+        data: {
+          status: giveUp ? 'failed' : 'pending',
+          nextAttemptAt: new Date(Date.now() + backoff),
+          lastError: message,
+        },
+      });
+    }
+  }
+
+  return jobs.length;
+}
+
+/**
+ * Poll for due jobs in the background. Returns a function that stops polling.
+ */
+export function startEnrichmentWorker(): () => void {
+  let isProcessing = false;
+
+  const tick = async () => {
+    if (isProcessing) return;
+    isProcessing = true;
+    try {
+      await processEnrichmentJobs();
+    } catch (error) {
+      console.error('Enrichment worker failed:', error);
+    } finally {
+      isProcessing = false;
+    }
+  };
+
+  const timer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  return () => clearInterval(timer);
+}
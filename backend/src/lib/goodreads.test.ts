@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseGoodreadsCsv } from './goodreads.js';
+import { parseImportDate } from './import-candidates.js';
+
+const HEADER = 'Book Id,Title,Author,ISBN,ISBN13,My Rating,Number of Pages,Date Read,Date Added,Bookshelves,Exclusive Shelf,My Review';
+
+describe('parseGoodreadsCsv', () => {
+  it('maps a read book with its series, shelves, rating and review', () => {
+    const [book] = parseGoodreadsCsv([
+      HEADER,
+      '1,"Leviathan Wakes (The Expanse, #1)",James S.A. Corey,"=""0316129089""","=""9780316129084""",4,592,2024/03/15,2024/01/02,"sci-fi, read",read,"Great<br/>fun &amp; games"',
+    ].join('\n'));
+
+    assert.equal(book.row, 1);
+    assert.equal(book.title, 'Leviathan Wakes');
+    assert.equal(book.series, 'The Expanse');
+    assert.equal(book.seriesPosition, 1);
+    assert.equal(book.author, 'James S.A. Corey');
+    assert.equal(book.isbn, '9780316129084');
+    assert.equal(book.totalPages, 592);
+    assert.equal(book.status, 'read');
+    assert.deepEqual(book.shelves, ['sci-fi']);
+    assert.equal(book.rating, 4);
+    assert.equal(book.review, 'Great\nfun & games');
+    assert.deepEqual(book.dateAdded, new Date(Date.UTC(2024, 0, 2)));
+    assert.deepEqual(book.reads, [{ startedAt: null, finishedAt: new Date(Date.UTC(2024, 2, 15)), abandonedAt: null }]);
+  });
+
+  it('treats a zero rating and empty fields as missing', () => {
+    const [book] = parseGoodreadsCsv([HEADER, '2,Dune,Frank Herbert,="",="",0,,,2024/01/02,,to-read,'].join('\n'));
+
+    assert.equal(book.status, 'want_to_read');
+    assert.equal(book.isbn, null);
+    assert.equal(book.totalPages, null);
+    assert.equal(book.rating, null);
+    assert.equal(book.review, null);
+    assert.deepEqual(book.reads, []);
+  });
+
+  it('rejects files without the Goodreads columns', () => {
+    assert.throws(() => parseGoodreadsCsv('Title,Authors\nDune,Frank Herbert'), /Not a Goodreads export/);
+  });
+});
+
+describe('parseImportDate', () => {
+  it('reads export dates as UTC days', () => {
+    assert.deepEqual(parseImportDate('2024/3/5'), new Date(Date.UTC(2024, 2, 5)));
+  });
+
+  it('returns null for empty or invalid dates', () => {
+    assert.equal(parseImportDate(''), null);
+    assert.equal(parseImportDate(undefined), null);
+    assert.equal(parseImportDate('not a date'), null);
+  });
+});
@@ -0,0 +1,79 @@
+import { ReadingStatus } from '@prisma/client';
+import { parseCsv } from './csv.js';
+import { ImportCandidate, parseImportDate } from './import-candidates.js';
+import { seriesFromTitle } from './series-marker.js';
+import { sanitizeMarkdown } from './markdown.js';
+
+// Goodreads' built-in exclusive shelves
+const EXCLUSIVE_SHELVES: Record<string, ReadingStatus> = {
+  'read': 'read',
+  'currently-reading': 'reading',
+  'to-read': 'want_to_read',
+};
+
+const REQUIRED_COLUMNS = ['Title', 'Author', 'Exclusive Shelf'];
+
+/**
+ * Goodreads wraps ISBNs as ="0451524934" so spreadsheets keep leading zeros
+ */
+function cleanIsbn(value: string | undefined): string | null {
+  const cleaned = (value ?? '').replace(/^="?|"$/g, '').trim();
+  return cleaned || null;
+}
+
+/**
+ * Reviews are exported as HTML fragments
+ */
+function cleanReview(value: string | undefined): string | null {
+  if (!value) return null;
+  const text = sanitizeMarkdown(value.replace(/<br\s*\/?>/gi, '\n'))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+  return text || null;
+}
+
+/**
+ * Parse a Goodreads library export ("goodreads_library_export.csv")
+ * Throws when the file does not look like a Goodreads export.
+ */
+export function parseGoodreadsCsv(text: string): ImportCandidate[] {
+  const records = parseCsv(text);
+  if (records.length > 0) {
+    const missing = REQUIRED_COLUMNS.filter((c) => !(c in records[0]));
+    if (missing.length > 0) {
+      throw new Error(`Not a Goodreads export: missing column(s) ${missing.join(', ')}`);
+    }
+  }
+
+  return records.map((record, index) => {
+    const exclusiveShelf = record['Exclusive Shelf'];
+    const shelves = (record['Bookshelves'] ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter((s) => s && s !== exclusiveShelf && !(s in EXCLUSIVE_SHELVES));
+    const rating = parseInt(record['My Rating']);
+    const pages = parseInt(record['Number of Pages']);
+    const dateRead = parseImportDate(record['Date Read']);
+
+    return {
+      row: index + 1,
+      // "Leviathan Wakes (The Expanse, #1)" is the title plus its series
+      ...seriesFromTitle(record['Title']),
+      author: record['Author'],
+      isbn: cleanIsbn(record['ISBN13']) ?? cleanIsbn(record['ISBN']),
+      totalPages: pages > 0 ? pages : null,
+      status: EXCLUSIVE_SHELVES[exclusiveShelf] ?? 'want_to_read',
+      tags: [],
+      shelves,
+      dateAdded: parseImportDate(record['Date Added']),
+      // Goodreads only exports the most recent read date
+      reads: dateRead ? [{ startedAt: null, finishedAt: dateRead, abandonedAt: null }] : [],
+      rating: rating > 0 ? rating : null, // 0 means "not rated"
+      review: cleanReview(record['My Review']),
+      description: null,
+      quotes: [],
+    };
+  });
+}
@@ -0,0 +1,55 @@
+import { ReadingStatus } from '@prisma/client';
+
+/**
+ * One read of a book as recorded by the source service
+ */
+export interface ImportedRead {
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  abandonedAt: Date | null;
+}
+
+/**
+ * A passage highlighted in the source, with the reader's note on it
+ */
+export interface ImportedQuote {
+  text: string;
+  note: string | null;
+  page: number | null;
+  location: number | null;
+  createdAt: Date | null;
+}
+
+/**
+ * A book parsed from an external export, independent of the source format
+ */
+export interface ImportCandidate {
+  row: number; // 1-based data row in the source file
+  title: string; // Without any series marker
+  author: string; // '' when the source has none
+  series: string | null;
+  seriesPosition: number | null;
+  isbn: string | null;
+  totalPages: number | null;
+  status: ReadingStatus;
+  tags: string[];
+  shelves: string[]; // Custom shelf names
+  dateAdded: Date | null;
+  reads: ImportedRead[]; // Oldest first
+  rating: number | null; // 0.25-5, quarter stars allowed
+  review: string | null;
+  description: string | null;
+  quotes: ImportedQuote[];
+}
+
+/**
+ * Parse an export date; Goodreads and StoryGraph both write 2024/03/15
+ */
+export function parseImportDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+  const date = match
+    ? new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,298 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { createBookMatcher, MatchReason, normalizeQuoteText } from './book-matching.js';
+import { normalizeIsbn } from './isbn.js';
+import { refreshAverageRating } from './book-query.js';
+import { enqueueEnrichment } from './enrichment.js';
+import { addBooksToShelf } from './shelves.js';
+import { syncActiveEdition } from './editions.js';
+import { syncAuthorsFromLine } from './contributors.js';
+import { assignSeries } from './series.js';
+import { ImportCandidate, ImportedQuote, ImportedRead } from './import-candidates.js';
+import { sanitizeMarkdown } from './markdown.js';
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+interface PlannedImport {
+  candidate: ImportCandidate;
+  action: ImportAction;
+  matchedBookId?: string;
+  matchReason?: MatchReason;
+  changes: string[];
+  reason?: string;
+  update?: Prisma.BookUpdateInput;
+  newReads?: ImportedRead[];
+  newQuotes?: ImportedQuote[];
+  addReview?: boolean;
+}
+
+export interface ImportPlan {
+  userId: string;
+  entries: PlannedImport[];
+  newShelves: string[];
+}
+
+// Rows written per transaction by commitImport
+const COMMIT_BATCH_SIZE = 50;
+
+/**
+ * Placeholder id for a book that only exists in the file being imported
+ */
+const pendingId = (row: number) => `row-${row}`;
+
+const sameDay = (a: Date | null, b: Date | null) =>
+  !!a && !!b && a.toISOString().split('T')[0] === b.toISOString().split('T')[0];
+
+/**
+ * A read is already known when a session ends (or, if still open, starts) on the same day
+ */
+const isKnownRead = (read: ImportedRead, sessions: { startedAt: Date | null; finishedAt: Date | null; abandonedAt: Date | null }[]) =>
+  sessions.some((s) =>
+    read.finishedAt ? sameDay(s.finishedAt, read.finishedAt)
+      : read.abandonedAt ? sameDay(s.abandonedAt, read.abandonedAt)
+        : sameDay(s.startedAt, read.startedAt)
+  );
+
+/**
+ * Sessions to create for a new book: the recorded reads, plus one matching
+ * the status when the source did not record a date for it
+ */
+function sessionsFor(candidate: ImportCandidate): Prisma.ReadingSessionCreateWithoutBookInput[] {
+  const sessions: Prisma.ReadingSessionCreateWithoutBookInput[] = candidate.reads.map((read) => ({ ...read }));
+  const fallbackDate = candidate.dateAdded ?? new Date();
+
+  if (candidate.status === 'read' && !candidate.reads.some((r) => r.finishedAt)) {
+    // Exports often omit the read date; fall back to when the book was shelved
+    sessions.push({ finishedAt: fallbackDate });
+  }
+  if (candidate.status === 'reading' && !candidate.reads.some((r) => !r.finishedAt && !r.abandonedAt)) {
+    sessions.push({ startedAt: fallbackDate });
+  }
+  return sessions;
+}
+
+/**
+ * Work out what importing the candidates into a user's library would do without writing anything
+ */
+export async function planImport(userId: string, candidates: ImportCandidate[]): Promise<ImportPlan> {
+  const [books, shelves] = await Promise.all([
+    prisma.book.findMany({
+      where: { userId },
+      include: {
+        sessions: { select: { startedAt: true, finishedAt: true, abandonedAt: true } },
+        shelves: { select: { shelf: { select: { name: true } } } },
+        quotes: { select: { text: true } },
+        _count: { select: { reviews: true } },
+      },
+    }),
+    prisma.shelf.findMany({ where: { userId }, select: { name: true } }),
+  ]);
+
+  const matcher = createBookMatcher<{ id: string; title: string; author: string; isbn: string | null }>(books);
+  const existingById = new Map(books.map((b) => [b.id, b]));
+  const shelfNames = new Set(shelves.map((s) => s.name));
+  const newShelves = new Set<string>();
+
+  const entries = candidates.map((candidate): PlannedImport => {
+    // Kindle personal documents have no author, so only a title is required
+    if (!candidate.title) {
+      return { candidate, action: 'skip', changes: [], reason: 'Missing title' };
+    }
+
+    candidate.shelves
+      .filter((name) => !shelfNames.has(name))
+      .forEach((name) => newShelves.add(name));
+
+    const match = matcher.find(candidate);
+    if (!match) {
+      matcher.add({ id: pendingId(candidate.row), title: candidate.title, author: candidate.author, isbn: candidate.isbn });
+      return { candidate, action: 'create', changes: [] };
+    }
+
+    const existing = existingById.get(match.book.id);
+    if (!existing) {
+      return {
+        candidate,
+        action: 'skip',
+        matchReason: match.reason,
+        changes: [],
+        reason: `Duplicate of row ${match.book.id.replace('row-', '')} in this file`,
+      };
+    }
+
+    // Only fill in what the library is missing - never overwrite local edits
+    const changes: string[] = [];
+    const update: Prisma.BookUpdateInput = {};
+    const isbn = normalizeIsbn(candidate.isbn);
+    if (isbn && !existing.isbn) {
+      update.isbn = isbn;
+      changes.push('isbn');
+    }
+    if (candidate.totalPages && !existing.totalPages) {
+      update.totalPages = candidate.totalPages;
+      changes.push('totalPages');
+    }
+    const newTags = candidate.tags.filter((t) => !existing.tags.includes(t));
+    if (newTags.length > 0) {
+      update.tags = [...existing.tags, ...newTags];
+      changes.push('tags');
+    }
+    const onShelves = new Set(existing.shelves.map((s) => s.shelf.name));
+    if (candidate.shelves.some((name) => !onShelves.has(name))) {
+      changes.push('shelves');
+    }
+    const addReview = existing._count.reviews === 0 && (!!candidate.review || !!candidate.rating);
+    if (addReview) changes.push('review');
+    const newReads = candidate.reads.filter((read) => !isKnownRead(read, existing.sessions));
+    if (newReads.length > 0) changes.push('readingSessions');
+    // Quotes already on the book are recognized by their text, so re-importing adds only new ones
+    const knownQuotes = new Set(existing.quotes.map((q) => normalizeQuoteText(q.text)));
+    const newQuotes = candidate.quotes.filter((quote) => !knownQuotes.has(normalizeQuoteText(quote.text)));
+    if (newQuotes.length > 0) changes.push('quotes');
+
+    return {
+      candidate,
+      action: changes.length > 0 ? 'update' : 'skip',
+      matchedBookId: existing.id,
+      matchReason: match.reason,
+      changes,
+      reason: changes.length > 0 ? undefined : 'Already in library',
+      update,
+      addReview,
+      newReads,
+      newQuotes,
+    };
+  });
+
+  return { userId, entries, newShelves: Array.from(newShelves) };
+}
+
+/**
+ * Serializable summary of a plan, used as the dry-run diff and the commit report
+ */
+export function describePlan(plan: ImportPlan) {
+  const count = (action: ImportAction) => plan.entries.filter((e) => e.action === action).length;
+  const quotesOf = (e: PlannedImport) =>
+    e.action === 'create' ? e.candidate.quotes.length : e.action === 'update' ? e.newQuotes?.length ?? 0 : 0;
+
+  return {
+    summary: {
+      total: plan.entries.length,
+      create: count('create'),
+      update: count('update'),
+      skip: count('skip'),
+      quotes: plan.entries.reduce((sum, e) => sum + quotesOf(e), 0),
+    },
+    newShelves: plan.newShelves,
+    items: plan.entries.map((e) => ({
+      row: e.candidate.row,
+      title: e.candidate.title,
+      author: e.candidate.author,
+      status: e.candidate.status,
+      action: e.action,
+      matchedBookId: e.matchedBookId,
+      matchReason: e.matchReason,
+      changes: e.changes,
+      reason: e.reason,
+      quotes: quotesOf(e),
+    })),
+  };
+}
+
+function reviewFor(candidate: ImportCandidate): Prisma.ReviewCreateWithoutBookInput | null {
+  const content = sanitizeMarkdown(candidate.review);
+  if (!content && !candidate.rating) return null;
+  return {
+    content,
+    rating: candidate.rating ?? 0,
+    dateAdded: candidate.reads.at(-1)?.finishedAt ?? candidate.dateAdded ?? undefined,
+  };
+}
+
+function quotesFor(quotes: ImportedQuote[] | undefined): Prisma.QuoteCreateNestedManyWithoutBookInput | undefined {
+  if (!quotes?.length) return undefined;
+  return { create: quotes.map((quote) => ({ ...quote, createdAt: quote.createdAt ?? undefined })) };
+}
+
+/**
+ * Apply a plan. Rows are written in batches, each batch in its own
+ * transaction, so a large export can't run into the transaction timeout and
+ * lose everything. If a batch fails the earlier ones stay; importing the file
+ * again matches the books already added instead of duplicating them.
+ */
+export async function commitImport(plan: ImportPlan): Promise<void> {
+  const { userId } = plan;
+  for (const name of plan.newShelves) {
+    await prisma.shelf.upsert({ where: { userId_name: { userId, name } }, update: {}, create: { name, userId } });
+  }
+  // Smart shelves pick their own books, so a listed smart shelf is skipped
+  const shelves = await prisma.shelf.findMany({
+    where: { userId, rule: { equals: Prisma.DbNull } },
+    select: { id: true, name: true },
+  });
+  const shelfIdByName = new Map(shelves.map((s) => [s.name, s.id]));
+
+  for (let start = 0; start < plan.entries.length; start += COMMIT_BATCH_SIZE) {
+    await prisma.$transaction(async (tx) => {
+      for (const entry of plan.entries.slice(start, start + COMMIT_BATCH_SIZE)) {
+        const { candidate } = entry;
+        const shelfIds = candidate.shelves
+          .map((name) => shelfIdByName.get(name))
+          .filter((id): id is string => !!id);
+
+        if (entry.action === 'create') {
+          const sessions = sessionsFor(candidate);
+          const review = reviewFor(candidate);
+          // No coverUrl: the enrichment job looks one up
+          const book = await tx.book.create({
+            data: {
+              title: candidate.title,
+              author: candidate.author,
+              tags: candidate.tags,
+              status: candidate.status,
+              totalPages: candidate.totalPages,
+              progress: candidate.status === 'read' ? candidate.totalPages : null,
+              isbn: normalizeIsbn(candidate.isbn),
+              description: candidate.description,
+              userId,
+              ...(candidate.dateAdded && { dateAdded: candidate.dateAdded }),
+              reviews: review ? { create: review } : undefined,
+              sessions: sessions.length > 0 ? { create: sessions } : undefined,
+              quotes: quotesFor(candidate.quotes),
+            },
+          });
+          for (const shelfId of shelfIds) {
+            await addBooksToShelf(shelfId, [book.id], tx);
+          }
+          await syncAuthorsFromLine(userId, book.id, tx);
+          if (candidate.series) {
+            await assignSeries(userId, book.id, candidate.series, candidate.seriesPosition, tx);
+          }
+          await syncActiveEdition(book.id, tx);
+          await enqueueEnrichment(book.id, tx);
+        } else if (entry.action === 'update' && entry.matchedBookId) {
+          const review = entry.addReview ? reviewFor(candidate) : null;
+          await tx.book.update({
+            where: { id: entry.matchedBookId },
+            data: {
+              ...entry.update,
+              reviews: review ? { create: review } : undefined,
+              sessions: entry.newReads?.length ? { create: entry.newReads } : undefined,
+              quotes: quotesFor(entry.newQuotes),
+            },
+          });
+          if (entry.changes.includes('shelves')) {
+            for (const shelfId of shelfIds) {
+              await addBooksToShelf(shelfId, [entry.matchedBookId], tx);
+            }
+          }
+          if (entry.changes.includes('isbn') || entry.changes.includes('totalPages')) {
+            await syncActiveEdition(entry.matchedBookId, tx);
+          }
+        }
+      }
+    }, { timeout: 60000 });
+  }
+
+  await refreshAverageRating({ userId });
+}
@@ -0,0 +1,54 @@
+/**
+ * ISBN checksums and normalization. Books store ISBN-13 where possible so
+ * that an ISBN-10 and its ISBN-13 compare equal. The frontend keeps a copy
+ * of these rules in src/types/isbn.ts for barcode scanning.
+ */
+
+function stripIsbn(isbn: string): string {
+  return isbn.toUpperCase().replace(/[^0-9X]/g, '');
+}
+
+/**
+ * Ten digits (the last may be X) with a valid mod-11 check digit
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  const sum = isbn
+    .split('')
+    .reduce((acc, char, i) => acc + (char === 'X' ? 10 : Number(char)) * (10 - i), 0);
+  return sum % 11 === 0;
+}
+
+/**
+ * Thirteen digits starting 978/979 with a valid EAN-13 check digit
+ */
+export function isValidIsbn13(isbn: string): boolean {
+  if (!/^97[89]\d{10}$/.test(isbn)) return false;
+  const sum = isbn
+    .split('')
+    .reduce((acc, char, i) => acc + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * The 978-prefixed ISBN-13 for a valid ISBN-10
+ */
+export function isbn10To13(isbn10: string): string {
+  const body = `978${isbn10.slice(0, 9)}`;
+  const sum = body
+    .split('')
+    .reduce((acc, char, i) => acc + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return `${body}${(10 - (sum % 10)) % 10}`;
+}
+
+/**
+ * Strip punctuation/hyphens from an ISBN and upgrade valid ISBN-10s to ISBN-13.
+ * Returns null when nothing usable is left; a 10/13-character value with a bad
+ * checksum is kept as-is since catalogues do contain them.
+ */
+export function normalizeIsbn(isbn: string | null | undefined): string | null {
+  if (!isbn) return null;
+  const cleaned = stripIsbn(isbn);
+  if (isValidIsbn10(cleaned)) return isbn10To13(cleaned);
+  return cleaned.length === 10 || cleaned.length === 13 ? cleaned : null;
+}
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseKindleClippings } from './kindle.js';
+
+const entry = (titleLine: string, meta: string, text = '') => `${titleLine}\n- ${meta}\n\n${text}\n==========\n`;
+
+describe('parseKindleClippings', () => {
+  it('groups highlights by book and attaches notes to the highlight they cover', () => {
+    const [book] = parseKindleClippings(
+      '\uFEFF' +
+        entry('Mort (Discworld, #4) (Pratchett, Terry)', 'Your Highlight on page 12 | Location 180-182 | Added on Monday, March 4, 2024 9:15:32 PM', 'THERE IS NO JUSTICE.') +
+        entry('Mort (Discworld, #4) (Pratchett, Terry)', 'Your Note on page 12 | Location 181 | Added on Monday, March 4, 2024 9:16:00 PM', 'Death, in caps'),
+      'reading'
+    );
+
+    assert.equal(book.title, 'Mort');
+    assert.equal(book.series, 'Discworld');
+    assert.equal(book.author, 'Terry Pratchett');
+    assert.equal(book.status, 'reading');
+    assert.equal(book.quotes.length, 1);
+    assert.equal(book.quotes[0].text, 'THERE IS NO JUSTICE.');
+    assert.equal(book.quotes[0].note, 'Death, in caps');
+    assert.equal(book.quotes[0].page, 12);
+    assert.equal(book.quotes[0].location, 180);
+  });
+
+  it('joins several authors and expands shortened locations', () => {
+    const [book] = parseKindleClippings(
+      entry('Good Omens (Pratchett, Terry;Gaiman, Neil)', 'Highlight Loc. 1180-82 | Added on Monday, March 4, 2024 9:15:32 PM', 'A passage') +
+        entry('Good Omens (Pratchett, Terry;Gaiman, Neil)', 'Note Loc. 1182 | Added on Monday, March 4, 2024 9:15:32 PM', 'On the passage'),
+      'read'
+    );
+
+    assert.equal(book.author, 'Terry Pratchett & Neil Gaiman');
+    assert.equal(book.quotes[0].note, 'On the passage');
+  });
+
+  it('drops highlights that a longer highlight contains', () => {
+    const [book] = parseKindleClippings(
+      entry('Dune (Herbert, Frank)', 'Your Highlight on Location 10-10', 'Fear is the mind-killer.') +
+        entry('Dune (Herbert, Frank)', 'Your Highlight on Location 10-11', 'I must not fear. Fear is the mind-killer.'),
+      'read'
+    );
+
+    assert.deepEqual(book.quotes.map((quote) => quote.text), ['I must not fear. Fear is the mind-killer.']);
+  });
+
+  it('leaves the author empty for personal documents', () => {
+    const [book] = parseKindleClippings(entry('My Notes', 'Your Highlight on Location 3-4', 'Remember this'), 'read');
+
+    assert.equal(book.title, 'My Notes');
+    assert.equal(book.author, '');
+  });
+
+  it('skips books with nothing but bookmarks', () => {
+    const books = parseKindleClippings(
+      entry('Dune (Herbert, Frank)', 'Your Bookmark on Location 40') +
+        entry('Emma (Austen, Jane)', 'Your Highlight on Location 5-6', 'Badly done, Emma!'),
+      'read'
+    );
+
+    assert.deepEqual(books.map((book) => [book.row, book.title]), [[1, 'Emma']]);
+    assert.throws(() => parseKindleClippings(entry('Dune (Herbert, Frank)', 'Your Bookmark on Location 40'), 'read'), /only bookmarks/);
+  });
+
+  it('rejects files without clippings', () => {
+    assert.throws(() => parseKindleClippings('just some text', 'read'), /Not a Kindle clippings file/);
+  });
+});
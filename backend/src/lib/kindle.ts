@@ -0,0 +1,195 @@
+import { ReadingStatus } from '@prisma/client';
+import { ImportCandidate, ImportedQuote } from './import-candidates.js';
+import { normalizeAuthor, normalizeQuoteText, normalizeTitle } from './book-matching.js';
+import { seriesFromTitle } from './series-marker.js';
+
+type ClippingKind = 'highlight' | 'note' | 'bookmark';
+
+/**
+ * One entry of a Kindle "My Clippings.txt"
+ */
+interface KindleClipping {
+  title: string;
+  author: string;
+  kind: ClippingKind;
+  page: number | null;
+  location: number | null; // First location covered
+  locationEnd: number | null; // Last location covered; same as `location` for notes and bookmarks
+  addedAt: Date | null;
+  text: string;
+}
+
+// Entries are separated by a line of ten equals signs
+const SEPARATOR = /^==========\s*$/m;
+
+// "- Your Highlight on page 12 | Location 180-182 | Added on Monday, March 4, 2024 9:15:32 PM"
+// Older devices write "- Highlight Loc. 180-82 | Added on ..."
+const META_LINE = /^-\s*(?:Your\s+)?(Highlight|Note|Bookmark)\b(.*?)(?:\|\s*Added on\s+(.+))?$/i;
+const PAGE = /\bpage\s+(\d+)/i;
+const LOCATION = /\b(?:location|loc\.)\s+(\d+)(?:-(\d+))?/i;
+
+/**
+ * "Le Guin, Ursula K.;Harris, Jo" becomes "Ursula K. Le Guin & Jo Harris"
+ */
+function authorFromClipping(value: string): string {
+  return value
+    .split(';')
+    .map((name) => name.trim().replace(/^([^,]+),\s*([^,]+)$/, '$2 $1'))
+    .filter(Boolean)
+    .join(' & ');
+}
+
+/**
+ * The author is the last parenthesized group of the title line, so series
+ * markers like "Mort (Discworld, #4) (Pratchett, Terry)" stay in the title.
+ * Personal documents often have no author at all.
+ */
+function splitTitleLine(line: string): { title: string; author: string } {
+  const match = line.match(/^(.*)\(([^()]*)\)\s*$/);
+  return match
+    ? { title: match[1].trim(), author: authorFromClipping(match[2]) }
+    : { title: line.trim(), author: '' };
+}
+
+/**
+ * Older devices shorten the end of a range: "Loc. 1180-82" ends at 1182
+ */
+function locationRange(meta: string): { location: number | null; locationEnd: number | null } {
+  const match = meta.match(LOCATION);
+  if (!match) return { location: null, locationEnd: null };
+  const [, start, end] = match;
+  const fullEnd = end && end.length < start.length ? start.slice(0, start.length - end.length) + end : end;
+  return { location: parseInt(start), locationEnd: parseInt(fullEnd ?? start) };
+}
+
+/**
+ * "Monday, March 4, 2024 9:15:32 PM" without the weekday parses as local time
+ */
+function parseAddedOn(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value.replace(/^[A-Za-z]+,\s*/, '').trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseClippings(text: string): KindleClipping[] {
+  const clippings: KindleClipping[] = [];
+
+  for (const block of text.replace(/\uFEFF/g, '').split(SEPARATOR)) {
+    const lines = block.split(/\r?\n/).map((line) => line.trim());
+    while (lines.length > 0 && !lines[0]) lines.shift();
+    const meta = lines[1]?.match(META_LINE);
+    if (!meta) continue;
+
+    const page = meta[2].match(PAGE);
+    clippings.push({
+      ...splitTitleLine(lines[0]),
+      kind: meta[1].toLowerCase() as ClippingKind,
+      page: page ? parseInt(page[1]) : null,
+      ...locationRange(meta[2]),
+      addedAt: parseAddedOn(meta[3]),
+      text: lines.slice(2).join('\n').trim(),
+    });
+  }
+
+  return clippings;
+}
+
+/**
+ * Turn one book's clippings into quotes. A note is attached to the highlight
+ * it was written on (the one covering the note's location); notes without a
+ * highlight become quotes of their own. Extending a highlight on the device
+ * leaves the shorter version behind, so highlights contained in another one
+ * are dropped, as are bookmarks, which have no text.
+ */
+function quotesFrom(clippings: KindleClipping[]): ImportedQuote[] {
+  const highlights = clippings.filter((c) => c.kind === 'highlight' && c.text);
+  const kept = highlights.filter((highlight) => !highlights.some((other) =>
+    other !== highlight &&
+    other.text.length > highlight.text.length &&
+    normalizeQuoteText(other.text).includes(normalizeQuoteText(highlight.text))
+  ));
+
+  const quotes = new Map<KindleClipping, ImportedQuote>();
+  for (const highlight of kept) {
+    quotes.set(highlight, {
+      text: highlight.text,
+      note: null,
+      page: highlight.page,
+      location: highlight.location,
+      createdAt: highlight.addedAt,
+    });
+  }
+
+  const orphanNotes: ImportedQuote[] = [];
+  for (const note of clippings.filter((c) => c.kind === 'note' && c.text)) {
+    const at = note.location;
+    const highlight = at === null ? undefined : kept
+      .filter((h) => h.location !== null && h.locationEnd !== null && h.location <= at && at <= h.locationEnd)
+      .at(-1);
+    const quote = highlight && quotes.get(highlight);
+    if (quote) {
+      quote.note = quote.note ? `${quote.note}\n${note.text}` : note.text;
+    } else {
+      orphanNotes.push({ text: note.text, note: null, page: note.page, location: note.location, createdAt: note.addedAt });
+    }
+  }
+
+  // The same passage highlighted twice only needs saving once
+  const seen = new Set<string>();
+  return [...quotes.values(), ...orphanNotes].filter((quote) => {
+    const key = normalizeQuoteText(quote.text);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Parse a Kindle "My Clippings.txt" into one import candidate per book, with
+ * its highlights and notes as quotes. Books not yet in the library are added
+ * with `status`; books with nothing but bookmarks are left out. Throws when the
+ * file holds no clippings.
+ */
+export function parseKindleClippings(text: string, status: ReadingStatus): ImportCandidate[] {
+  const clippings = parseClippings(text);
+  if (clippings.length === 0) {
+    throw new Error('Not a Kindle clippings file: no highlights, notes or bookmarks found');
+  }
+
+  const byBook = new Map<string, KindleClipping[]>();
+  for (const clipping of clippings) {
+    const key = `${normalizeTitle(clipping.title)}|${normalizeAuthor(clipping.author)}`;
+    byBook.set(key, [...(byBook.get(key) ?? []), clipping]);
+  }
+
+  const books = Array.from(byBook.values())
+    .map((bookClippings) => ({ bookClippings, quotes: quotesFrom(bookClippings) }))
+    .filter(({ quotes }) => quotes.length > 0);
+  if (books.length === 0) {
+    throw new Error('No highlights or notes found, only bookmarks');
+  }
+
+  return books.map(({ bookClippings, quotes }, index) => {
+    const dates = bookClippings
+      .map((c) => c.addedAt)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return {
+      row: index + 1,
+      ...seriesFromTitle(bookClippings[0].title),
+      author: bookClippings[0].author, // Empty for personal documents, which get no contributors
+      isbn: null,
+      totalPages: null,
+      status,
+      tags: [],
+      shelves: [],
+      dateAdded: dates[0] ?? null, // First highlight
+      reads: [],
+      rating: null,
+      review: null,
+      description: null,
+      quotes,
+    };
+  });
+}
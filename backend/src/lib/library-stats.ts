@@ -0,0 +1,103 @@
+import { ReadingStatus } from '@prisma/client';
+import prisma from './prisma.js';
+import { PAGES_PER_MINUTE_LISTENED } from './progress.js';
+
+const TOP_TAGS = 5;
+
+export interface LibraryStats {
+  total: number;
+  byStatus: Record<ReadingStatus, number>;
+  avgRating: number; // Across read books with a review, 0 when there are none
+  ratingDistribution: Record<number, number>; // Rated read books by rounded rating, 1 to 5
+  totalReviews: number;
+  totalPages: number; // Read books, with audiobook listening time as page-equivalents
+  year: number;
+  finishedByMonth: number[]; // Reads (re-reads included) finished in each month of `year`
+  topTags: { name: string; count: number }[]; // Rolled up to their top-level genre
+}
+
+/**
+ * Counts and totals for the user's library, worked out here so clients don't
+ * need every book to show them
+ */
+export async function libraryStats(userId: string, year: number): Promise<LibraryStats> {
+  const [books, tagRows] = await Promise.all([
+    prisma.book.findMany({
+      where: { userId },
+      select: {
+        status: true,
+        format: true,
+        totalPages: true,
+        totalDurationMinutes: true,
+        averageRating: true,
+        tags: true,
+        _count: { select: { reviews: true } },
+        sessions: {
+          where: { finishedAt: { gte: new Date(Date.UTC(year, 0, 1)), lt: new Date(Date.UTC(year + 1, 0, 1)) } },
+          select: { finishedAt: true },
+        },
+      },
+    }),
+    prisma.tag.findMany({ where: { userId }, select: { name: true, parent: { select: { name: true } } } }),
+  ]);
+
+  // A sub-genre counts towards its top-level genre, e.g. "Space Opera" towards "Science Fiction"
+  const parentOf = new Map(tagRows.map((row) => [row.name, row.parent?.name ?? null]));
+  const rootOf = (tag: string) => {
+    const seen = new Set<string>();
+    while (parentOf.get(tag) && !seen.has(tag)) {
+      seen.add(tag);
+      tag = parentOf.get(tag)!;
+    }
+    return tag;
+  };
+
+  const byStatus: Record<ReadingStatus, number> = { want_to_read: 0, reading: 0, read: 0 };
+  const ratingDistribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const finishedByMonth: number[] = Array(12).fill(0);
+  const tagCounts = new Map<string, number>();
+  let ratingSum = 0;
+  let rated = 0;
+  let totalReviews = 0;
+  let totalPages = 0;
+
+  for (const book of books) {
+    byStatus[book.status]++;
+    totalReviews += book._count.reviews;
+
+    if (book.status === 'read') {
+      // Audiobooks are measured in minutes
+      totalPages += book.format === 'audiobook'
+        ? Math.round((book.totalDurationMinutes || 0) * PAGES_PER_MINUTE_LISTENED)
+        : book.totalPages || 0;
+      if (book._count.reviews > 0) {
+        ratingSum += book.averageRating;
+        rated++;
+        const rating = Math.round(book.averageRating);
+        if (rating >= 1 && rating <= 5) ratingDistribution[rating]++;
+      }
+    }
+
+    for (const session of book.sessions) {
+      finishedByMonth[session.finishedAt!.getUTCMonth()]++;
+    }
+    for (const tag of new Set(book.tags.map(rootOf))) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return {
+    total: books.length,
+    byStatus,
+    avgRating: rated > 0 ? ratingSum / rated : 0,
+    ratingDistribution,
+    totalReviews,
+    totalPages,
+    year,
+    finishedByMonth,
+    topTags: [...tagCounts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_TAGS)
+      .map(([name, count]) => ({ name, count })),
+  };
+}
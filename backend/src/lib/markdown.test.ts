@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { sanitizeMarkdown } from './markdown.js';
+
+describe('sanitizeMarkdown', () => {
+  it('strips HTML tags and keeps their text', () => {
+    assert.equal(sanitizeMarkdown('<p>A <b>great</b> read<br/></p>'), 'A great read');
+    assert.equal(sanitizeMarkdown('<a href="https://example.com" target=_blank>link</a>'), 'link');
+    assert.equal(sanitizeMarkdown('<img src=x onerror=alert(1)>cover'), 'cover');
+    assert.equal(sanitizeMarkdown('<img src=x onerror>cover'), 'cover');
+  });
+
+  it('drops scripts, styles and comments with their content', () => {
+    assert.equal(sanitizeMarkdown('Hi<script>alert(1)</script><style>p{}</style><!-- note --> there'), 'Hi there');
+  });
+
+  it("doesn't let split tags reassemble", () => {
+    assert.equal(sanitizeMarkdown('<scr<b>ipt>alert(1)</script>'), 'alert(1)');
+  });
+
+  it('keeps literal angle brackets that are not HTML', () => {
+    assert.equal(sanitizeMarkdown('a<b and c>d'), 'a<b and c>d');
+    assert.equal(sanitizeMarkdown('Better than <Foundation>, worse than <Dune>'), 'Better than <Foundation>, worse than <Dune>');
+    assert.equal(sanitizeMarkdown('x < y && y > z'), 'x < y && y > z');
+    assert.equal(sanitizeMarkdown('> quoted\n<3 this'), '> quoted\n<3 this');
+  });
+
+  it('leaves Markdown alone and normalizes line endings', () => {
+    assert.equal(sanitizeMarkdown('  **Bold** and ||spoiler||\r\n- item\r\n'), '**Bold** and ||spoiler||\n- item');
+    assert.equal(sanitizeMarkdown(undefined), '');
+  });
+});
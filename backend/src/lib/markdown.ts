@@ -0,0 +1,58 @@
+/**
+ * Reviews are written in Markdown. Clients render them as text-only elements,
+ * but reviews also leave through the public page and exports, so real HTML is
+ * dropped before it is stored. Text that merely contains angle brackets, like
+ * "a<b and c>d" or "<Foundation>", is kept as written.
+ */
+
+// Elements whose content is never text worth keeping
+const EMBEDDED_CONTENT = /<(script|style|iframe|object|embed|template|noscript|svg|math)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const COMMENT = /<!--[\s\S]*?-->/g;
+
+// Anything shaped like a tag; `isHtmlTag` decides whether it really is one
+const TAG_LIKE = /<(\/?)([a-z][a-z0-9-]*)([^<>]*)>/gi;
+const ATTRIBUTES = /^(?:\s+[a-z_:][\w:.-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'<>=`]+))?)*\s*\/?\s*$/i;
+
+const HTML_ELEMENTS = new Set([
+  'a', 'abbr', 'address', 'area', 'article', 'aside', 'audio', 'b', 'base', 'bdi', 'bdo', 'blockquote', 'body',
+  'br', 'button', 'canvas', 'caption', 'center', 'cite', 'code', 'col', 'colgroup', 'data', 'dd', 'del', 'details',
+  'dfn', 'dialog', 'div', 'dl', 'dt', 'em', 'embed', 'fieldset', 'figcaption', 'figure', 'font', 'footer', 'form',
+  'frame', 'frameset', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hr', 'html', 'i', 'iframe', 'img',
+  'input', 'ins', 'kbd', 'label', 'legend', 'li', 'link', 'main', 'map', 'mark', 'marquee', 'menu', 'meta', 'meter',
+  'nav', 'noscript', 'object', 'ol', 'optgroup', 'option', 'output', 'p', 'param', 'picture', 'pre', 'progress', 'q',
+  's', 'samp', 'script', 'section', 'select', 'slot', 'small', 'source', 'span', 'strike', 'strong', 'style', 'sub',
+  'summary', 'sup', 'svg', 'table', 'tbody', 'td', 'template', 'textarea', 'tfoot', 'th', 'thead', 'time', 'title',
+  'tr', 'track', 'tt', 'u', 'ul', 'var', 'video', 'wbr',
+]);
+
+/**
+ * A known element whose attributes parse as HTML attributes. Bare words only
+ * count alongside a `name=value` pair, so "<b and c>" stays text while
+ * `<img src=x onerror>` does not.
+ */
+function isHtmlTag(closing: string, name: string, attributes: string): boolean {
+  if (!HTML_ELEMENTS.has(name.toLowerCase())) return false;
+  const bare = attributes.replace(/\/\s*$/, '').trim();
+  if (closing) return !bare;
+  return ATTRIBUTES.test(attributes) && (!bare || attributes.includes('='));
+}
+
+/**
+ * Strip HTML from Markdown, leaving the Markdown itself (including ||spoilers||)
+ * and any other text untouched. Repeats until stable so split tags like
+ * "<scr<b>ipt>" don't reassemble.
+ */
+export function sanitizeMarkdown(value: unknown): string {
+  let text = String(value ?? '').replace(/\r\n?/g, '\n');
+  let previous;
+  do {
+    previous = text;
+    text = text
+      .replace(EMBEDDED_CONTENT, '')
+      .replace(COMMENT, '')
+      .replace(TAG_LIKE, (tag, closing: string, name: string, attributes: string) =>
+        isHtmlTag(closing, name, attributes) ? '' : tag
+      );
+  } while (text !== previous);
+  return text.trim();
+}
@@ -0,0 +1,51 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { BookMetadata, MetadataProvider, withSeries } from './types.js';
+import { normalizeIsbn } from '../isbn.js';
+
+type FixtureBook = Omit<BookMetadata, 'source'>;
+
+// Override with METADATA_FIXTURES_PATH, relative to the backend directory
+const fixturesPath = () => path.resolve(process.env.METADATA_FIXTURES_PATH || 'fixtures/metadata.json');
+
+let cache: { path: string; books: FixtureBook[] } | null = null;
+
+async function loadFixtures(): Promise<FixtureBook[]> {
+  const file = fixturesPath();
+  if (cache?.path !== file) {
+    cache = { path: file, books: JSON.parse(await readFile(file, 'utf-8')) };
+  }
+  return cache.books;
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const toMetadata = (book: FixtureBook): BookMetadata => withSeries({ ...book, source: 'fixtures' });
+
+/**
+ * Local JSON fixtures - works offline, for development and tests
+ */
+export const fixturesProvider: MetadataProvider = {
+  name: 'fixtures',
+
+  async search(q, limit) {
+    const needle = normalize(q);
+    const books = await loadFixtures();
+    return books
+      .filter((book) => [book.title, book.author, book.isbn ?? ''].some((field) => normalize(field).includes(needle)))
+      .slice(0, limit)
+      .map(toMetadata);
+  },
+
+  async findByIsbn(isbn) {
+    const book = (await loadFixtures()).find((b) => b.isbn && normalizeIsbn(b.isbn) === normalizeIsbn(isbn));
+    return book ? toMetadata(book) : null;
+  },
+
+  async findByTitleAuthor(title, author) {
+    const book = (await loadFixtures()).find(
+      (b) => normalize(b.title) === normalize(title) && normalize(b.author) === normalize(author)
+    );
+    return book ? toMetadata(book) : null;
+  },
+};
@@ -0,0 +1,44 @@
+import { BookMetadata, MetadataProvider, fetchJson, withSeries } from './types.js';
+
+const API_BASE = 'https://www.googleapis.com/books/v1/volumes';
+
+function toMetadata(volume: any): BookMetadata {
+  const info = volume.volumeInfo ?? {};
+  const isbn = info.industryIdentifiers?.find((id: any) => id.type === 'ISBN_13' || id.type === 'ISBN_10')?.identifier;
+  // Google Books provides different sizes: smallThumbnail, thumbnail, small, medium, large
+  const coverUrl = info.imageLinks?.large || info.imageLinks?.medium || info.imageLinks?.thumbnail;
+
+  return withSeries({
+    title: info.title,
+    author: info.authors?.[0] || 'Unknown Author',
+    authors: info.authors,
+    isbn,
+    coverUrl: coverUrl?.replace('http://', 'https://'),
+    pageCount: info.pageCount,
+    publishYear: info.publishedDate ? parseInt(info.publishedDate) || undefined : undefined,
+    description: info.description,
+    source: 'google',
+  });
+}
+
+async function query(q: string, limit: number): Promise<BookMetadata[]> {
+  const data = await fetchJson(`${API_BASE}?q=${encodeURIComponent(q)}&maxResults=${limit}`);
+  return (data.items ?? []).filter((item: any) => item.volumeInfo?.title).map(toMetadata);
+}
+
+/**
+ * Google Books volumes API - best covers and descriptions
+ */
+export const googleBooksProvider: MetadataProvider = {
+  name: 'google',
+
+  search: (q, limit) => query(q, limit),
+
+  async findByIsbn(isbn) {
+    return (await query(`isbn:${isbn}`, 1))[0] ?? null;
+  },
+
+  async findByTitleAuthor(title, author) {
+    return (await query(`${title} ${author}`, 1))[0] ?? null;
+  },
+};
@@ -0,0 +1,115 @@
+import { BookMetadata, MetadataProvider } from './types.js';
+import { googleBooksProvider } from './google-books.js';
+import { openLibraryProvider } from './open-library.js';
+import { fixturesProvider } from './fixtures.js';
+
+export type { BookMetadata, MetadataProvider } from './types.js';
+
+const PROVIDERS: Record<string, MetadataProvider> = {
+  google: googleBooksProvider,
+  openlibrary: openLibraryProvider,
+  fixtures: fixturesProvider,
+};
+
+/**
+ * How answers from several providers are combined:
+ * - `fill`: highest priority answer wins, lower ones fill in fields it lacks
+ * - `first`: highest priority answer is used as is
+ */
+export type MergePolicy = 'fill' | 'first';
+
+/**
+ * Providers in priority order, from METADATA_PROVIDERS (e.g. "fixtures" to work offline)
+ */
+export function configuredProviders(): MetadataProvider[] {
+  const names = (process.env.METADATA_PROVIDERS || 'google,openlibrary')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const providers = names.map((name) => PROVIDERS[name]).filter((p): p is MetadataProvider => !!p);
+  return providers.length > 0 ? providers : [googleBooksProvider, openLibraryProvider];
+}
+
+export function configuredMergePolicy(): MergePolicy {
+  return process.env.METADATA_MERGE === 'first' ? 'first' : 'fill';
+}
+
+/**
+ * Ask every provider at once. Throws only if all of them failed, so callers
+ * (like the enrichment queue) can retry later.
+ */
+async function askAll<T>(
+  providers: MetadataProvider[],
+  ask: (provider: MetadataProvider) => Promise<T>
+): Promise<T[]> {
+  const settled = await Promise.allSettled(providers.map(ask));
+  const answers = settled.flatMap((result, i) => {
+    if (result.status === 'fulfilled') return [result.value];
+    console.warn(`Metadata provider ${providers[i].name} failed:`, result.reason);
+    return [];
+  });
+  if (answers.length === 0 && settled.length > 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  return answers;
+}
+
+/**
+ * Combine records for the same book, in priority order
+ */
+export function mergeMetadata(records: BookMetadata[], policy: MergePolicy): BookMetadata | null {
+  if (records.length === 0) return null;
+  if (policy === 'first') return records[0];
+
+  const merged = { ...records[0] };
+  for (const record of records.slice(1)) {
+    for (const key of Object.keys(record) as (keyof BookMetadata)[]) {
+      if (merged[key] === undefined || merged[key] === null || merged[key] === '') {
+        (merged as Record<string, unknown>)[key] = record[key];
+      }
+    }
+  }
+  return merged;
+}
+
+const bookKey = (book: BookMetadata) =>
+  book.isbn?.replace(/[^0-9X]/gi, '') || `${book.title}|${book.author}`.toLowerCase().replace(/[^a-z0-9|]/g, '');
+
+/**
+ * Search all providers, highest priority results first, merging duplicates
+ */
+export async function searchMetadata(query: string, limit = 10): Promise<BookMetadata[]> {
+  const providers = configuredProviders();
+  const policy = configuredMergePolicy();
+  const resultLists = await askAll(providers, (provider) => provider.search(query, limit));
+
+  const groups = new Map<string, BookMetadata[]>();
+  for (const list of resultLists) {
+    for (const book of list) {
+      const key = bookKey(book);
+      groups.set(key, [...(groups.get(key) ?? []), book]);
+    }
+  }
+
+  return Array.from(groups.values())
+    .map((records) => mergeMetadata(records, policy)!)
+    .slice(0, limit);
+}
+
+/**
+ * Look a book up by ISBN across all providers
+ */
+export async function findMetadataByIsbn(isbn: string): Promise<BookMetadata | null> {
+  const providers = configuredProviders();
+  const answers = await askAll(providers, (provider) => provider.findByIsbn(isbn));
+  return mergeMetadata(answers.filter((a): a is BookMetadata => a !== null), configuredMergePolicy());
+}
+
+/**
+ * Look a book up by title and author across all providers
+ */
+export async function findMetadataByTitleAuthor(title: string, author: string): Promise<BookMetadata | null> {
+  const providers = configuredProviders();
+  const answers = await askAll(providers, (provider) => provider.findByTitleAuthor(title, author));
+  return mergeMetadata(answers.filter((a): a is BookMetadata => a !== null), configuredMergePolicy());
+}
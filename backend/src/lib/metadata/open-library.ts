@@ -0,0 +1,53 @@
+import { BookMetadata, MetadataProvider, fetchJson, withSeries } from './types.js';
+
+const SEARCH_FIELDS = 'title,author_name,isbn,cover_i,number_of_pages_median,first_publish_year';
+
+function fromSearchDoc(doc: any): BookMetadata {
+  return withSeries({
+    title: doc.title,
+    author: doc.author_name?.[0] || 'Unknown Author',
+    authors: doc.author_name,
+    isbn: doc.isbn?.[0],
+    coverUrl: doc.cover_i ? `https://covers.openlibrary.org/b/id/${doc.cover_i}-L.jpg` : undefined,
+    pageCount: doc.number_of_pages_median,
+    publishYear: doc.first_publish_year,
+    source: 'openlibrary',
+  });
+}
+
+async function search(params: string, limit: number): Promise<BookMetadata[]> {
+  const data = await fetchJson(`https://openlibrary.org/search.json?${params}&limit=${limit}&fields=${SEARCH_FIELDS}`);
+  return (data.docs ?? []).filter((doc: any) => doc.title).map(fromSearchDoc);
+}
+
+/**
+ * Open Library search and books APIs - free, no key, good ISBN coverage
+ */
+export const openLibraryProvider: MetadataProvider = {
+  name: 'openlibrary',
+
+  search: (q, limit) => search(`q=${encodeURIComponent(q)}`, limit),
+
+  async findByIsbn(isbn) {
+    const data = await fetchJson(`https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`);
+    const book = data[`ISBN:${isbn}`];
+    if (!book) return null;
+
+    return withSeries({
+      title: book.title,
+      author: book.authors?.[0]?.name || 'Unknown Author',
+      authors: book.authors?.map((author: any) => author.name),
+      isbn,
+      coverUrl: book.cover?.large || book.cover?.medium,
+      pageCount: book.number_of_pages,
+      publishYear: book.publish_date ? parseInt(book.publish_date.slice(-4)) || undefined : undefined,
+      description: book.excerpts?.[0]?.text,
+      source: 'openlibrary',
+    });
+  },
+
+  async findByTitleAuthor(title, author) {
+    const results = await search(`title=${encodeURIComponent(title)}&author=${encodeURIComponent(author)}`, 1);
+    return results[0] ?? null;
+  },
+};
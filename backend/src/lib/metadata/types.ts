@@ -0,0 +1,50 @@
+import { seriesFromTitle } from '../series-marker.js';
+
+/**
+ * Book details as returned by any metadata provider
+ */
+export interface BookMetadata {
+  title: string;
+  author: string; // First author, for matching
+  authors?: string[]; // Every credited author, in order
+  isbn?: string;
+  coverUrl?: string;
+  pageCount?: number;
+  publishYear?: number;
+  description?: string;
+  series?: string;
+  seriesPosition?: number; // Place in the series, when the source gives one
+  source: string; // Provider the record (or its first fields) came from
+}
+
+/**
+ * A source of book metadata. Methods throw when the source can't be reached
+ * and resolve to empty results when it simply has nothing.
+ */
+export interface MetadataProvider {
+  name: string;
+  search(query: string, limit: number): Promise<BookMetadata[]>;
+  findByIsbn(isbn: string): Promise<BookMetadata | null>;
+  findByTitleAuthor(title: string, author: string): Promise<BookMetadata | null>;
+}
+
+/**
+ * Move a series marker at the end of a title, like "Mort (Discworld, #4)",
+ * into the series fields
+ */
+export function withSeries(metadata: BookMetadata): BookMetadata {
+  const { title, series, seriesPosition } = seriesFromTitle(metadata.title);
+  if (!series) return metadata;
+  return { ...metadata, title, series, seriesPosition: seriesPosition ?? undefined };
+}
+
+// A hung provider would otherwise stall the enrichment queue, which runs one job at a time
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export async function fetchJson(url: string) {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).hostname} responded with ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,11 @@
+/**
+ * Profile fields for a new account. Public pages show the name and library
+ * name, so without a name from sign-up they stay generic rather than falling
+ * back to anything that identifies the owner, such as their email.
+ */
+export function defaultProfile(name?: unknown): { name: string; libraryName: string; avatar: string } {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  return trimmed
+    ? { name: trimmed, libraryName: `${trimmed}'s Library`, avatar: '📚' }
+    : { name: 'Reader', libraryName: 'My Library', avatar: '📚' };
+}
@@ -0,0 +1,114 @@
+import { Prisma, ProgressEntry } from '@prisma/client';
+import prisma from './prisma.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+// Updates closer together than this (e.g. dragging the progress slider) collapse into one entry
+const MERGE_WINDOW_MS = 5 * 60 * 1000;
+
+// How far back to look when estimating reading pace
+const PACE_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Narration runs about 150 words a minute and a printed page holds about 300,
+// so a minute of listening counts as half a page towards daily totals
+export const PAGES_PER_MINUTE_LISTENED = 0.5;
+
+/**
+ * Append a progress log entry for a book moving from `previousPage` to `page`.
+ * For audiobooks (`listened`) both are minutes rather than pages.
+ */
+export async function recordProgress(
+  bookId: string,
+  previousPage: number | null,
+  page: number,
+  listened: boolean,
+  client: Client = prisma
+): Promise<void> {
+  const now = new Date();
+  const last = await client.progressEntry.findFirst({
+    where: { bookId },
+    orderBy: { recordedAt: 'desc' },
+  });
+
+  if (last && last.listened === listened && now.getTime() - last.recordedAt.getTime() < MERGE_WINDOW_MS) {
+    await client.progressEntry.update({
+      where: { id: last.id },
+      data: {
+        page,
+        pagesRead: Math.max(0, last.pagesRead + (page - last.page)),
+        recordedAt: now,
+      },
+    });
+    return;
+  }
+
+  await client.progressEntry.create({
+    data: {
+      bookId,
+      page,
+      pagesRead: Math.max(0, page - (previousPage ?? 0)),
+      listened,
+      recordedAt: now,
+    },
+  });
+}
+
+/**
+ * Recent pages-per-day pace for a book (minutes per day when `listened`),
+ * or null when there is not enough history
+ */
+export function estimatePace(entries: ProgressEntry[], listened = false, now: Date = new Date()): number | null {
+  const since = now.getTime() - PACE_WINDOW_DAYS * DAY_MS;
+  const recent = entries.filter((e) => e.listened === listened && e.recordedAt.getTime() >= since);
+  if (recent.length === 0) return null;
+
+  const pages = recent.reduce((sum, e) => sum + e.pagesRead, 0);
+  const earliest = Math.min(...recent.map((e) => e.recordedAt.getTime()));
+  const days = Math.max(1, (now.getTime() - earliest) / DAY_MS);
+
+  return pages > 0 ? pages / days : null;
+}
+
+/**
+ * Project a finish date from the current page (or minute) and pace
+ */
+export function estimateFinishDate(
+  progress: number | null,
+  total: number | null,
+  pace: number | null,
+  now: Date = new Date()
+): Date | null {
+  if (!total || !pace) return null;
+  const remaining = total - (progress ?? 0);
+  if (remaining <= 0) return null;
+  return new Date(now.getTime() + Math.ceil(remaining / pace) * DAY_MS);
+}
+
+/**
+ * Sum a user's pages read per day (UTC) over the last `days` days, oldest first.
+ * Listening time counts as page-equivalents.
+ */
+export async function pagesPerDay(userId: string, days: number, client: Client = prisma): Promise<{ date: string; pages: number }[]> {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const start = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+  const entries = await client.progressEntry.findMany({
+    where: { recordedAt: { gte: start }, book: { userId } },
+    select: { recordedAt: true, pagesRead: true, listened: true },
+  });
+
+  const totals = new Map<string, number>();
+  for (let i = 0; i < days; i++) {
+    totals.set(new Date(start.getTime() + i * DAY_MS).toISOString().split('T')[0], 0);
+  }
+  for (const entry of entries) {
+    const key = entry.recordedAt.toISOString().split('T')[0];
+    const pages = entry.listened ? entry.pagesRead * PAGES_PER_MINUTE_LISTENED : entry.pagesRead;
+    totals.set(key, (totals.get(key) ?? 0) + pages);
+  }
+
+  return Array.from(totals, ([date, pages]) => ({ date, pages: Math.round(pages) }));
+}
@@ -0,0 +1,96 @@
+import { Prisma, Quote } from '@prisma/client';
+import prisma from './prisma.js';
+
+export type QuoteInput = Partial<Pick<Quote, 'text' | 'page' | 'location' | 'chapter' | 'note' | 'tags'>>;
+
+/**
+ * Shape a quote for the API
+ */
+export function transformQuote(quote: Quote) {
+  return {
+    id: quote.id,
+    text: quote.text,
+    page: quote.page,
+    location: quote.location,
+    chapter: quote.chapter,
+    note: quote.note,
+    tags: quote.tags,
+    dateAdded: quote.createdAt.toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Parse a quote body. New quotes need their text; on updates every field is
+ * optional. null or '' clears the optional fields.
+ */
+export function parseQuoteInput(body: any, requireText: boolean): { data: QuoteInput } | { error: string } {
+  const data: QuoteInput = {};
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  if (body.text !== undefined || requireText) {
+    const quoteText = text(body.text);
+    if (!quoteText) {
+      return { error: 'Quote text cannot be empty' };
+    }
+    data.text = quoteText;
+  }
+  for (const field of ['page', 'location'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] === null || body[field] === '') {
+      data[field] = null;
+    } else {
+      const value = Number(body[field]);
+      if (!Number.isInteger(value) || value <= 0) {
+        return { error: `${field} must be a positive whole number` };
+      }
+      data[field] = value;
+    }
+  }
+  if (body.chapter !== undefined) data.chapter = text(body.chapter);
+  if (body.note !== undefined) data.note = text(body.note);
+  if (body.tags !== undefined) {
+    const tags = Array.isArray(body.tags) ? body.tags : String(body.tags ?? '').split(',');
+    data.tags = [...new Set(tags.map((tag: unknown) => String(tag).trim()).filter(Boolean))] as string[];
+  }
+
+  return { data };
+}
+
+/**
+ * Ids of a user's quotes matching a full-text query, best matches first.
+ * `q` uses web search syntax like the library search.
+ */
+export async function searchQuoteIds(userId: string, q: string): Promise<string[]> {
+  const query = Prisma.sql`websearch_to_tsquery('english', ${q})`;
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT q."id"
+    FROM "Quote" q
+    JOIN "Book" b ON b."id" = q."bookId"
+    WHERE b."userId" = ${userId} AND q."searchVector" @@ ${query}
+    ORDER BY ts_rank(q."searchVector", ${query}) DESC
+  `;
+  return rows.map((row) => row.id);
+}
+
+/**
+ * The quote of the day: picked by hashing the user and date, so it stays put
+ * all day (until quotes are added or removed) and changes tomorrow
+ */
+export async function quoteOfTheDay(userId: string, day: Date) {
+  const where = { book: { userId } };
+  const count = await prisma.quote.count({ where });
+  if (count === 0) return null;
+
+  const key = `${userId}:${day.toISOString().split('T')[0]}`;
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+
+  return prisma.quote.findFirst({
+    where,
+    orderBy: { id: 'asc' },
+    skip: Math.abs(hash) % count,
+    include: { book: { select: { id: true, title: true, author: true } } },
+  });
+}
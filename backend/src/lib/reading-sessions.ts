@@ -0,0 +1,56 @@
+import { Prisma, ReadingStatus } from '@prisma/client';
+import prisma from './prisma.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Count a user's reading sessions finished within a calendar year.
+ * Re-reads count once per finished session. Year boundaries are UTC like the
+ * stored dates, so the count doesn't depend on the server's timezone.
+ */
+export async function countFinishedInYear(userId: string, year: number, client: Client = prisma): Promise<number> {
+  return client.readingSession.count({
+    where: {
+      book: { userId },
+      finishedAt: {
+        gte: new Date(Date.UTC(year, 0, 1)),
+        lt: new Date(Date.UTC(year + 1, 0, 1)),
+      },
+    },
+  });
+}
+
+/**
+ * Keep a book's sessions in step with a status change:
+ * - reading: open a new session unless one is already open
+ * - read: finish the open session, or record a finished one if none is open
+ * - want_to_read: mark the open session as abandoned
+ */
+export async function applyStatusChange(
+  bookId: string,
+  previous: ReadingStatus | null,
+  next: ReadingStatus,
+  client: Client = prisma,
+  at: Date = new Date()
+): Promise<void> {
+  if (previous === next) return;
+
+  const open = await client.readingSession.findFirst({
+    where: { bookId, finishedAt: null, abandonedAt: null },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (next === 'reading') {
+    if (!open) {
+      await client.readingSession.create({ data: { bookId, startedAt: at } });
+    }
+  } else if (next === 'read') {
+    if (open) {
+      await client.readingSession.update({ where: { id: open.id }, data: { finishedAt: at } });
+    } else {
+      await client.readingSession.create({ data: { bookId, finishedAt: at } });
+    }
+  } else if (open) {
+    await client.readingSession.update({ where: { id: open.id }, data: { abandonedAt: at } });
+  }
+}
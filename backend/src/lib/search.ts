@@ -0,0 +1,79 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+
+// Matches are wrapped in <mark></mark>; clients split on the tags rather than rendering HTML
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "';
+
+export interface BookHit {
+  id: string;
+  title: string;
+  author: string;
+  coverUrl: string | null;
+  snippet: string;
+  rank: number;
+}
+
+export interface ReviewHit {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  rating: number;
+  snippet: string;
+  rank: number;
+}
+
+export interface ArticleHit {
+  id: string;
+  title: string;
+  url: string;
+  snippet: string;
+  rank: number;
+}
+
+export interface SearchResults {
+  books: BookHit[];
+  reviews: ReviewHit[];
+  articles: ArticleHit[];
+}
+
+/**
+ * Full-text search over a user's books, reviews and articles, best matches first.
+ * `q` uses web search syntax: quoted phrases, `or`, and `-word` to exclude.
+ */
+export async function searchLibrary(userId: string, q: string, limit: number): Promise<SearchResults> {
+  const query = Prisma.sql`websearch_to_tsquery('english', ${q})`;
+
+  const [books, reviews, articles] = await Promise.all([
+    prisma.$queryRaw<BookHit[]>`
+      SELECT b."id", b."title", b."author", b."coverUrl",
+        ts_headline('english', coalesce(b."description", ''), ${query}, ${HEADLINE_OPTIONS}) AS "snippet",
+        ts_rank(b."searchVector", ${query}) AS "rank"
+      FROM "Book" b
+      WHERE b."userId" = ${userId} AND b."searchVector" @@ ${query}
+      ORDER BY "rank" DESC
+      LIMIT ${limit}
+    `,
+    // ||Spoilers|| still match, but their text stays out of the snippet
+    prisma.$queryRaw<ReviewHit[]>`
+      SELECT r."id", r."bookId", b."title" AS "bookTitle", r."rating",
+        ts_headline('english', regexp_replace(r."content", '[|]{2}.*?[|]{2}', '[spoiler]', 'g'), ${query}, ${HEADLINE_OPTIONS}) AS "snippet",
+        ts_rank(r."searchVector", ${query}) AS "rank"
+      FROM "Review" r
+      JOIN "Book" b ON b."id" = r."bookId"
+      WHERE b."userId" = ${userId} AND r."searchVector" @@ ${query}
+      ORDER BY "rank" DESC
+      LIMIT ${limit}
+    `,
+    prisma.$queryRaw<ArticleHit[]>`
+      SELECT a."id", a."title", a."url",
+        ts_headline('english', a."text", ${query}, ${HEADLINE_OPTIONS}) AS "snippet",
+        ts_rank(a."searchVector", ${query}) AS "rank"
+      FROM "Article" a
+      WHERE a."userId" = ${userId} AND a."searchVector" @@ ${query}
+      ORDER BY "rank" DESC
+      LIMIT ${limit}
+    `,
+  ]);
+
+  return { books, reviews, articles };
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { seriesFromTitle } from './series-marker.js';
+
+describe('seriesFromTitle', () => {
+  it('splits a Goodreads marker off the title', () => {
+    assert.deepEqual(seriesFromTitle('Leviathan Wakes (The Expanse, #1)'), {
+      title: 'Leviathan Wakes',
+      series: 'The Expanse',
+      seriesPosition: 1,
+    });
+  });
+
+  it('reads markers without a comma, and "Book" and "Vol." forms', () => {
+    assert.deepEqual(seriesFromTitle('Mort (Discworld #4)'), { title: 'Mort', series: 'Discworld', seriesPosition: 4 });
+    assert.deepEqual(seriesFromTitle('Dune (Dune Chronicles Book 1)'), {
+      title: 'Dune',
+      series: 'Dune Chronicles',
+      seriesPosition: 1,
+    });
+    assert.deepEqual(seriesFromTitle('Saga (Saga Vol. 3)'), { title: 'Saga', series: 'Saga', seriesPosition: 3 });
+  });
+
+  it('keeps fractional positions for novellas', () => {
+    assert.equal(seriesFromTitle('Edgedancer (The Stormlight Archive, #2.5)').seriesPosition, 2.5);
+  });
+
+  it('leaves titles without a marker alone', () => {
+    const plain = { series: null, seriesPosition: null };
+    assert.deepEqual(seriesFromTitle('The Left Hand of Darkness'), { title: 'The Left Hand of Darkness', ...plain });
+    assert.deepEqual(seriesFromTitle('Hamlet (Folger Edition)'), { title: 'Hamlet (Folger Edition)', ...plain });
+  });
+
+  it('keeps the marker when nothing would be left of the title', () => {
+    assert.deepEqual(seriesFromTitle('(Discworld, #4)'), { title: '(Discworld, #4)', series: null, seriesPosition: null });
+  });
+});
@@ -0,0 +1,21 @@
+export interface SeriesMarker {
+  title: string;
+  series: string | null;
+  seriesPosition: number | null;
+}
+
+// Trailing markers as Goodreads and Open Library write them:
+// "Leviathan Wakes (The Expanse, #1)", "Mort (Discworld #4)", "Dune (Dune Chronicles Book 1)"
+const SERIES_MARKER = /\s*\(([^()]+?),?\s+(?:#|Book\s+|Vol\.?\s*|Volume\s+)(\d+(?:\.\d+)?)\)\s*$/i;
+
+/**
+ * Split a series marker off the end of a title. Titles without one come back as they are.
+ */
+export function seriesFromTitle(title: string): SeriesMarker {
+  const match = title.match(SERIES_MARKER);
+  const stripped = match ? title.slice(0, match.index).trim() : '';
+  if (!match || !stripped) {
+    return { title, series: null, seriesPosition: null };
+  }
+  return { title: stripped, series: match[1].trim(), seriesPosition: parseFloat(match[2]) };
+}
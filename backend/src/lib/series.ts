@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { seriesFromTitle } from './series-marker.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export interface SeriesInput {
+  name: string;
+  position: number | null;
+}
+
+/**
+ * Parse a book's series from a request body: `{ name, position }`, or null to
+ * take it out of its series. Positions are positive and may be fractional.
+ */
+export function parseSeriesInput(value: unknown): { data: SeriesInput | null } | { error: string } {
+  if (value === null) return { data: null };
+  const input = value as { name?: unknown; position?: unknown } | undefined;
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'series must be { name, position } or null' };
+  }
+  if (input?.position === undefined || input.position === null || input.position === '') {
+    return { data: { name, position: null } };
+  }
+  const position = Number(input.position);
+  if (!Number.isFinite(position) || position <= 0) {
+    return { error: 'Series position must be a positive number' };
+  }
+  return { data: { name, position } };
+}
+
+/**
+ * Put a book in the named series (creating it if needed) at `position`, or
+ * take it out of its series with a null name. Series left empty are removed.
+ */
+export async function assignSeries(
+  userId: string,
+  bookId: string,
+  name: string | null,
+  position: number | null,
+  client: Client = prisma
+): Promise<void> {
+  const series = name
+    ? await client.series.upsert({
+        where: { userId_name: { userId, name } },
+        create: { userId, name },
+        update: {},
+      })
+    : null;
+
+  await client.book.update({
+    where: { id: bookId },
+    data: { seriesId: series?.id ?? null, seriesPosition: series ? position : null },
+  });
+  await client.series.deleteMany({ where: { userId, books: { none: {} } } });
+}
+
+/**
+ * The first volume after this one that hasn't been read yet, in reading order
+ */
+export async function nextInSeries(bookId: string, client: Client = prisma): Promise<{ id: string } | null> {
+  const book = await client.book.findUniqueOrThrow({
+    where: { id: bookId },
+    select: { seriesId: true, seriesPosition: true },
+  });
+  if (!book.seriesId) return null;
+
+  return client.book.findFirst({
+    where: {
+      seriesId: book.seriesId,
+      id: { not: bookId },
+      status: { not: 'read' },
+      ...(book.seriesPosition !== null && { seriesPosition: { gt: book.seriesPosition } }),
+    },
+    orderBy: [{ seriesPosition: { sort: 'asc', nulls: 'last' } }, { dateAdded: 'asc' }],
+    select: { id: true },
+  });
+}
+
+/**
+ * Find series markers in the titles of a user's books that aren't in a series
+ * yet, and move them into the series they name. Returns how many books moved.
+ */
+export async function detectSeriesFromTitles(userId: string): Promise<number> {
+  const books = await prisma.book.findMany({
+    where: { userId, seriesId: null },
+    select: { id: true, title: true },
+  });
+  const found = books
+    .map((book) => ({ id: book.id, ...seriesFromTitle(book.title) }))
+    .filter((book) => book.series !== null);
+
+  await prisma.$transaction(async (tx) => {
+    for (const book of found) {
+      await tx.book.update({ where: { id: book.id }, data: { title: book.title } });
+      await assignSeries(userId, book.id, book.series, book.seriesPosition, tx);
+    }
+  }, { timeout: 60000 });
+
+  return found.length;
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseShelfRule, shelfRule } from './shelf-rules.js';
+
+describe('parseShelfRule', () => {
+  it('keeps the conditions that are set and trims them', () => {
+    assert.deepEqual(
+      parseShelfRule({ status: 'read', ratingMin: '4', tags: [' fantasy ', ''], author: ' Le Guin ', finishedYear: 2024 }),
+      { rule: { status: 'read', ratingMin: 4, tags: ['fantasy'], author: 'Le Guin', finishedYear: 2024 } }
+    );
+  });
+
+  it('drops empty conditions', () => {
+    assert.deepEqual(parseShelfRule({ status: '', ratingMin: 0, tags: [], author: ' ', finishedYear: '', year: 2024 }), {
+      error: 'A smart shelf needs at least one condition',
+    });
+  });
+
+  it('rejects invalid conditions', () => {
+    assert.deepEqual(parseShelfRule([]), { error: 'rule must be an object' });
+    assert.deepEqual(parseShelfRule({ status: 'finished' }), {
+      error: 'rule.status must be one of want_to_read, reading, read',
+    });
+    assert.deepEqual(parseShelfRule({ ratingMin: 6 }), { error: 'rule.ratingMin must be between 0.25 and 5' });
+    assert.deepEqual(parseShelfRule({ tags: 'fantasy' }), { error: 'rule.tags must be a list of tags' });
+    assert.deepEqual(parseShelfRule({ finishedYear: 24.5 }), { error: 'rule.finishedYear must be a year' });
+  });
+});
+
+describe('shelfRule', () => {
+  it('returns the stored rule, or null for a regular shelf', () => {
+    assert.deepEqual(shelfRule({ rule: { tags: ['poetry'] } }), { tags: ['poetry'] });
+    assert.equal(shelfRule({ rule: null }), null);
+  });
+});
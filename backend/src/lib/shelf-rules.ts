@@ -0,0 +1,69 @@
+import { ReadingStatus, Shelf } from '@prisma/client';
+
+const STATUSES: ReadingStatus[] = ['want_to_read', 'reading', 'read'];
+
+/**
+ * A smart shelf's membership rule, stored as JSON on Shelf.rule.
+ * Every condition that is set must hold.
+ */
+export interface ShelfRule {
+  status?: ReadingStatus;
+  ratingMin?: number; // Average rating, 0.25-5
+  tags?: string[]; // Book has all of these, or a sub-genre of each
+  author?: string; // Case-insensitive substring
+  finishedYear?: number; // Finished a read during this calendar year
+}
+
+/**
+ * Validate a rule from a request body, dropping empty conditions
+ */
+export function parseShelfRule(input: unknown): { rule: ShelfRule } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'rule must be an object' };
+  }
+  const raw = input as Record<string, unknown>;
+  const rule: ShelfRule = {};
+
+  if (raw.status !== undefined && raw.status !== null && raw.status !== '') {
+    if (!STATUSES.includes(raw.status as ReadingStatus)) {
+      return { error: `rule.status must be one of ${STATUSES.join(', ')}` };
+    }
+    rule.status = raw.status as ReadingStatus;
+  }
+  if (raw.ratingMin !== undefined && raw.ratingMin !== null && raw.ratingMin !== 0) {
+    const ratingMin = Number(raw.ratingMin);
+    if (isNaN(ratingMin) || ratingMin < 0.25 || ratingMin > 5) {
+      return { error: 'rule.ratingMin must be between 0.25 and 5' };
+    }
+    rule.ratingMin = ratingMin;
+  }
+  if (raw.tags !== undefined && raw.tags !== null) {
+    if (!Array.isArray(raw.tags) || !raw.tags.every((tag) => typeof tag === 'string')) {
+      return { error: 'rule.tags must be a list of tags' };
+    }
+    const tags = raw.tags.map((tag: string) => tag.trim()).filter(Boolean);
+    if (tags.length > 0) rule.tags = tags;
+  }
+  if (typeof raw.author === 'string' && raw.author.trim()) {
+    rule.author = raw.author.trim();
+  }
+  if (raw.finishedYear !== undefined && raw.finishedYear !== null && raw.finishedYear !== '') {
+    const finishedYear = Number(raw.finishedYear);
+    if (!Number.isInteger(finishedYear) || finishedYear < 1000 || finishedYear > 9999) {
+      return { error: 'rule.finishedYear must be a year' };
+    }
+    rule.finishedYear = finishedYear;
+  }
+
+  if (Object.keys(rule).length === 0) {
+    return { error: 'A smart shelf needs at least one condition' };
+  }
+  return { rule };
+}
+
+/**
+ * The rule stored on a shelf, or null for a regular shelf
+ */
+export function shelfRule(shelf: Pick<Shelf, 'rule'>): ShelfRule | null {
+  return shelf.rule && typeof shelf.rule === 'object' ? (shelf.rule as ShelfRule) : null;
+}
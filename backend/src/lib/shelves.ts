@@ -0,0 +1,50 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Shelf ids from the request, dropping duplicates, smart shelves and shelves the user doesn't own.
+ * Accepts an array or a single id; null/empty means no shelves.
+ */
+export async function resolveShelfIds(userId: string, value: unknown, client: Client = prisma): Promise<string[]> {
+  const requested = (Array.isArray(value) ? value : [value]).filter(
+    (id): id is string => typeof id === 'string' && id.length > 0
+  );
+  if (requested.length === 0) return [];
+
+  const owned = await client.shelf.findMany({
+    where: { id: { in: requested }, userId, rule: { equals: Prisma.DbNull } },
+    select: { id: true },
+  });
+  const ownedIds = new Set(owned.map((shelf) => shelf.id));
+  return [...new Set(requested)].filter((id) => ownedIds.has(id));
+}
+
+/**
+ * Put books at the end of a shelf, in the given order. Books already on it keep their place.
+ */
+export async function addBooksToShelf(shelfId: string, bookIds: string[], client: Client = prisma): Promise<string[]> {
+  const [existing, last] = await Promise.all([
+    client.bookShelf.findMany({ where: { shelfId, bookId: { in: bookIds } }, select: { bookId: true } }),
+    client.bookShelf.aggregate({ where: { shelfId }, _max: { position: true } }),
+  ]);
+  const onShelf = new Set(existing.map((entry) => entry.bookId));
+  const added = [...new Set(bookIds)].filter((bookId) => !onShelf.has(bookId));
+
+  const start = (last._max.position ?? -1) + 1;
+  await client.bookShelf.createMany({
+    data: added.map((bookId, i) => ({ bookId, shelfId, position: start + i })),
+  });
+  return added;
+}
+
+/**
+ * Make a book's shelves exactly `shelfIds`: leave the ones it's already on, append it to new ones
+ */
+export async function setBookShelves(bookId: string, shelfIds: string[], client: Client = prisma): Promise<void> {
+  await client.bookShelf.deleteMany({ where: { bookId, shelfId: { notIn: shelfIds } } });
+  for (const shelfId of shelfIds) {
+    await addBooksToShelf(shelfId, [bookId], client);
+  }
+}
@@ -0,0 +1,48 @@
+import { Prisma, Shelf } from '@prisma/client';
+import prisma from './prisma.js';
+import { ShelfRule, shelfRule } from './shelf-rules.js';
+import { tagsWithDescendants } from './tags.js';
+
+/**
+ * Prisma filter for the user's books a rule selects. A tag in the rule also
+ * matches its sub-genres, like the tag filter on the book list.
+ */
+export async function ruleWhere(userId: string, rule: ShelfRule): Promise<Prisma.BookWhereInput> {
+  const conditions: Prisma.BookWhereInput[] = [];
+  if (rule.status) conditions.push({ status: rule.status });
+  if (rule.ratingMin) conditions.push({ averageRating: { gte: rule.ratingMin } });
+  if (rule.tags?.length) {
+    for (const tags of await tagsWithDescendants(userId, rule.tags)) {
+      conditions.push({ tags: { hasSome: tags } });
+    }
+  }
+  if (rule.author) conditions.push({ author: { contains: rule.author, mode: 'insensitive' } });
+  if (rule.finishedYear) {
+    conditions.push({
+      sessions: {
+        some: {
+          finishedAt: {
+            gte: new Date(Date.UTC(rule.finishedYear, 0, 1)),
+            lt: new Date(Date.UTC(rule.finishedYear + 1, 0, 1)),
+          },
+        },
+      },
+    });
+  }
+  return { AND: conditions };
+}
+
+/**
+ * Books on a shelf: evaluated from the rule for smart shelves, the BookShelf rows otherwise
+ */
+export async function shelfMembershipWhere(userId: string, shelf: Pick<Shelf, 'id' | 'rule'>): Promise<Prisma.BookWhereInput> {
+  const rule = shelfRule(shelf);
+  return rule ? ruleWhere(userId, rule) : { shelves: { some: { shelfId: shelf.id } } };
+}
+
+/**
+ * Live book count for a shelf
+ */
+export async function countShelfBooks(userId: string, shelf: Pick<Shelf, 'id' | 'rule'>): Promise<number> {
+  return prisma.book.count({ where: { userId, ...(await shelfMembershipWhere(userId, shelf)) } });
+}
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseAuthorLine } from './author-lines.js';
+import { parseStoryGraphCsv } from './storygraph.js';
+
+const HEADER = 'Title,Authors,Contributors,ISBN/UID,Format,Read Status,Date Added,Last Date Read,Dates Read,Read Count,Moods,Star Rating,Review,Tags';
+
+describe('parseStoryGraphCsv', () => {
+  it('maps every read, quarter-star ratings and moods plus tags', () => {
+    const [book] = parseStoryGraphCsv([
+      HEADER,
+      '"Mort (Discworld, #4)",Terry Pratchett,,9780552131063,paperback,read,2024/01/02,2024/06/10,"2024/01/05-2024/01/20, 2024/06/10",2,"funny, reflective",3.75,Loved it,"funny, fantasy"',
+    ].join('\n'));
+
+    assert.equal(book.title, 'Mort');
+    assert.equal(book.series, 'Discworld');
+    assert.equal(book.author, 'Terry Pratchett');
+    assert.equal(book.isbn, '9780552131063');
+    assert.equal(book.status, 'read');
+    assert.equal(book.rating, 3.75);
+    assert.equal(book.review, 'Loved it');
+    assert.deepEqual(book.tags, ['funny', 'reflective', 'fantasy']);
+    assert.deepEqual(book.reads, [
+      { startedAt: new Date(Date.UTC(2024, 0, 5)), finishedAt: new Date(Date.UTC(2024, 0, 20)), abandonedAt: null },
+      { startedAt: null, finishedAt: new Date(Date.UTC(2024, 5, 10)), abandonedAt: null },
+    ]);
+  });
+
+  it('credits comma separated authors separately', () => {
+    const [book] = parseStoryGraphCsv([HEADER, 'Good Omens,"Terry Pratchett, Neil Gaiman",,,,to-read,,,,,,,,'].join('\n'));
+
+    assert.equal(book.author, 'Terry Pratchett & Neil Gaiman');
+    assert.deepEqual(parseAuthorLine(book.author), [
+      { name: 'Terry Pratchett', role: 'author' },
+      { name: 'Neil Gaiman', role: 'author' },
+    ]);
+  });
+
+  it('records did-not-finish reads as abandoned', () => {
+    const [book] = parseStoryGraphCsv([HEADER, 'Ulysses,James Joyce,,,,did-not-finish,,,2024/02/01-2024/02/09,,,,,'].join('\n'));
+
+    assert.equal(book.status, 'want_to_read');
+    assert.deepEqual(book.reads, [
+      { startedAt: new Date(Date.UTC(2024, 1, 1)), finishedAt: null, abandonedAt: new Date(Date.UTC(2024, 1, 9)) },
+    ]);
+  });
+
+  it('falls back to the last read date and drops StoryGraph ids', () => {
+    const [book] = parseStoryGraphCsv([HEADER, 'Dune,Frank Herbert,,sg-1234abcd,,read,,2023/11/30,,,,,,'].join('\n'));
+
+    assert.equal(book.isbn, null);
+    assert.equal(book.rating, null);
+    assert.deepEqual(book.reads, [{ startedAt: null, finishedAt: new Date(Date.UTC(2023, 10, 30)), abandonedAt: null }]);
+  });
+
+  it('rejects files without the StoryGraph columns', () => {
+    assert.throws(() => parseStoryGraphCsv('Title,Author\nDune,Frank Herbert'), /Not a StoryGraph export/);
+  });
+});
@@ -0,0 +1,155 @@
+import { Book, ReadingSession, ReadingStatus, Review } from '@prisma/client';
+import { parseCsv, toCsv } from './csv.js';
+import { ImportCandidate, ImportedRead, parseImportDate } from './import-candidates.js';
+import { seriesFromTitle } from './series-marker.js';
+
+// Column order of a StoryGraph "Export StoryGraph Library" file
+export const STORYGRAPH_COLUMNS = [
+  'Title',
+  'Authors',
+  'Contributors',
+  'ISBN/UID',
+  'Format',
+  'Read Status',
+  'Date Added',
+  'Last Date Read',
+  'Dates Read',
+  'Read Count',
+  'Moods',
+  'Pace',
+  'Character- or Plot-Driven?',
+  'Strong Character Development?',
+  'Loveable Characters?',
+  'Diverse Characters?',
+  'Flawed Characters?',
+  'Star Rating',
+  'Review',
+  'Content Warnings',
+  'Content Warning Description',
+  'Tags',
+  'Owned?',
+];
+
+const REQUIRED_COLUMNS = ['Title', 'Authors', 'Read Status'];
+
+const READ_STATUSES: Record<string, ReadingStatus> = {
+  'read': 'read',
+  'currently-reading': 'reading',
+  'to-read': 'want_to_read',
+  'did-not-finish': 'want_to_read',
+};
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * "Dates Read" holds one entry per read, e.g. "2024/01/05-2024/01/20, 2024/06/01"
+ * where a single date is the finish date
+ */
+function parseReads(value: string | undefined, didNotFinish: boolean): ImportedRead[] {
+  return splitList(value).map((entry) => {
+    const [first, second] = entry.split('-').map((d) => parseImportDate(d));
+    const startedAt = second !== undefined ? first : null;
+    const endedAt = second !== undefined ? second : first;
+    return didNotFinish
+      ? { startedAt, finishedAt: null, abandonedAt: endedAt }
+      : { startedAt, finishedAt: endedAt, abandonedAt: null };
+  }).filter((read) => read.startedAt || read.finishedAt || read.abandonedAt);
+}
+
+/**
+ * Parse a StoryGraph library export.
+ * Throws when the file does not look like a StoryGraph export.
+ */
+export function parseStoryGraphCsv(text: string): ImportCandidate[] {
+  const records = parseCsv(text);
+  if (records.length > 0) {
+    const missing = REQUIRED_COLUMNS.filter((c) => !(c in records[0]));
+    if (missing.length > 0) {
+      throw new Error(`Not a StoryGraph export: missing column(s) ${missing.join(', ')}`);
+    }
+  }
+
+  return records.map((record, index) => {
+    const readStatus = record['Read Status'];
+    const didNotFinish = readStatus === 'did-not-finish';
+    const reads = parseReads(record['Dates Read'], didNotFinish);
+    const lastRead = parseImportDate(record['Last Date Read']);
+    if (reads.length === 0 && lastRead && readStatus === 'read') {
+      reads.push({ startedAt: null, finishedAt: lastRead, abandonedAt: null });
+    }
+
+    // Ratings go to two decimals for quarter stars (e.g. 3.75)
+    const rating = parseFloat(record['Star Rating']);
+    const isbn = record['ISBN/UID'];
+
+    return {
+      row: index + 1,
+      ...seriesFromTitle(record['Title']),
+      // Multiple authors are comma separated; " & " makes each its own contributor
+      author: splitList(record['Authors']).join(' & '),
+      isbn: /^[0-9Xx-]+$/.test(isbn) ? isbn : null, // Non-ISBN values are StoryGraph ids
+      totalPages: null,
+      status: READ_STATUSES[readStatus] ?? 'want_to_read',
+      tags: Array.from(new Set([...splitList(record['Moods']), ...splitList(record['Tags'])])),
+      shelves: [],
+      dateAdded: parseImportDate(record['Date Added']),
+      reads,
+      rating: rating > 0 ? Math.round(rating * 4) / 4 : null,
+      review: record['Review'] || null,
+      description: null,
+      quotes: [],
+    };
+  });
+}
+
+type ExportableBook = Book & { reviews: Review[]; sessions: ReadingSession[] };
+
+const formatDate = (date: Date | null) =>
+  date ? date.toISOString().split('T')[0].replace(/-/g, '/') : '';
+
+/**
+ * Serialize books in StoryGraph's import format
+ */
+export function toStoryGraphCsv(books: ExportableBook[]): string {
+  const records = books.map((book) => {
+    const finished = book.sessions.filter((s) => s.finishedAt);
+    const abandoned = book.status === 'want_to_read' && book.sessions.some((s) => s.abandonedAt);
+    const datesRead = book.sessions
+      .filter((s) => s.finishedAt || s.abandonedAt)
+      .map((s) => {
+        const end = formatDate(s.finishedAt ?? s.abandonedAt);
+        return s.startedAt ? `${formatDate(s.startedAt)}-${end}` : end;
+      });
+    const latestReview = book.reviews
+      .slice()
+      .sort((a, b) => b.dateAdded.getTime() - a.dateAdded.getTime())[0];
+    const ratings = book.reviews.filter((r) => r.rating > 0).map((r) => r.rating);
+    const rating = ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null;
+    const lastRead = finished
+      .map((s) => s.finishedAt!)
+      .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+    return {
+      'Title': book.title,
+      'Authors': book.author.split(' & ').join(', '),
+      'ISBN/UID': book.isbn ?? '',
+      'Read Status': abandoned
+        ? 'did-not-finish'
+        : { read: 'read', reading: 'currently-reading', want_to_read: 'to-read' }[book.status],
+      'Date Added': formatDate(book.dateAdded),
+      'Last Date Read': formatDate(lastRead),
+      'Dates Read': datesRead.join(', '),
+      'Read Count': finished.length,
+      'Star Rating': rating !== null ? (Math.round(rating * 4) / 4).toFixed(2) : '',
+      'Review': latestReview?.content ?? '',
+      'Tags': book.tags.join(', '),
+    };
+  });
+
+  return toCsv(STORYGRAPH_COLUMNS, records);
+}
@@ -0,0 +1,238 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { ShelfRule, shelfRule } from './shelf-rules.js';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export interface TagSummary {
+  name: string;
+  color: string | null;
+  parent: string | null;
+  count: number; // Books tagged with exactly this tag
+}
+
+/**
+ * Every tag the user has: the ones on their books plus any that only exist as
+ * settings (e.g. a parent genre no book is tagged with yet), sorted by name
+ */
+export async function listTags(userId: string): Promise<TagSummary[]> {
+  const [books, rows] = await Promise.all([
+    prisma.book.findMany({ where: { userId }, select: { tags: true } }),
+    prisma.tag.findMany({ where: { userId }, include: { parent: { select: { name: true } } } }),
+  ]);
+
+  const counts = new Map<string, number>();
+  for (const book of books) {
+    for (const tag of book.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  const rowsByName = new Map(rows.map((row) => [row.name, row]));
+
+  return [...new Set([...counts.keys(), ...rowsByName.keys()])]
+    .sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }))
+    .map((name) => {
+      const row = rowsByName.get(name);
+      return {
+        name,
+        color: row?.color ?? null,
+        parent: row?.parent?.name ?? null,
+        count: counts.get(name) ?? 0,
+      };
+    });
+}
+
+/**
+ * Whether any book or tag setting already uses this name
+ */
+export async function tagExists(userId: string, name: string, client: Client = prisma): Promise<boolean> {
+  const [book, row] = await Promise.all([
+    client.book.findFirst({ where: { userId, tags: { has: name } }, select: { id: true } }),
+    client.tag.findUnique({ where: { userId_name: { userId, name } }, select: { id: true } }),
+  ]);
+  return !!book || !!row;
+}
+
+type TagRow = { id: string; name: string; parentId: string | null };
+
+function withDescendants(rows: TagRow[], name: string): string[] {
+  const root = rows.find((row) => row.name === name);
+  if (!root) return [name];
+
+  const names = [name];
+  const seen = new Set([root.id]);
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const row of rows) {
+      if (row.parentId !== parentId || seen.has(row.id)) continue;
+      seen.add(row.id);
+      names.push(row.name);
+      queue.push(row.id);
+    }
+  }
+  return names;
+}
+
+/**
+ * A tag and every tag below it in the hierarchy, so filtering by a genre
+ * also finds books tagged with its sub-genres
+ */
+export async function tagWithDescendants(userId: string, name: string): Promise<string[]> {
+  return (await tagsWithDescendants(userId, [name]))[0];
+}
+
+/**
+ * `tagWithDescendants` for several tags at once, in the same order
+ */
+export async function tagsWithDescendants(userId: string, names: string[]): Promise<string[][]> {
+  const rows = await prisma.tag.findMany({ where: { userId }, select: { id: true, name: true, parentId: true } });
+  return names.map((name) => withDescendants(rows, name));
+}
+
+/**
+ * Replace `sources` with `target` on every book and smart shelf rule.
+ * Returns how many books changed.
+ */
+async function rewriteTags(userId: string, sources: string[], target: string, tx: Prisma.TransactionClient): Promise<number> {
+  const swap = (tags: string[]) => [...new Set(tags.map((tag) => (sources.includes(tag) ? target : tag)))];
+
+  const books = await tx.book.findMany({
+    where: { userId, tags: { hasSome: sources } },
+    select: { id: true, tags: true },
+  });
+  for (const book of books) {
+    await tx.book.update({ where: { id: book.id }, data: { tags: swap(book.tags) } });
+  }
+
+  const shelves = await tx.shelf.findMany({ where: { userId, rule: { not: Prisma.DbNull } } });
+  for (const shelf of shelves) {
+    const rule = shelfRule(shelf);
+    if (!rule?.tags?.some((tag) => sources.includes(tag))) continue;
+    const updated: ShelfRule = { ...rule, tags: swap(rule.tags) };
+    await tx.shelf.update({ where: { id: shelf.id }, data: { rule: updated as Prisma.InputJsonObject } });
+  }
+
+  return books.length;
+}
+
+/**
+ * Rename a tag everywhere it's used. The new name must not be taken; merge instead.
+ */
+async function renameTag(userId: string, from: string, to: string, tx: Prisma.TransactionClient): Promise<number> {
+  const updated = await rewriteTags(userId, [from], to, tx);
+  await tx.tag.updateMany({ where: { userId, name: from }, data: { name: to } });
+  return updated;
+}
+
+/**
+ * Fold several tags into one, atomically. The target keeps its own color and
+ * parent, taking a source's when it has none; sub-genres of the sources move under it.
+ */
+export async function mergeTags(userId: string, sources: string[], target: string): Promise<number> {
+  const merged = sources.filter((name) => name !== target);
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await rewriteTags(userId, merged, target, tx);
+
+    const sourceRows = await tx.tag.findMany({ where: { userId, name: { in: merged } } });
+    if (sourceRows.length > 0) {
+      const existing = await tx.tag.findUnique({ where: { userId_name: { userId, name: target } } });
+      const sourceIds = sourceRows.map((row) => row.id);
+      const color = existing?.color ?? sourceRows.find((row) => row.color)?.color ?? null;
+      const parentId = existing?.parentId
+        ?? sourceRows.find((row) => row.parentId && !sourceIds.includes(row.parentId))?.parentId
+        ?? null;
+
+      const row = await tx.tag.upsert({
+        where: { userId_name: { userId, name: target } },
+        create: { name: target, color, parentId, userId },
+        update: { color, parentId },
+      });
+      await tx.tag.updateMany({ where: { parentId: { in: sourceIds }, id: { not: row.id } }, data: { parentId: row.id } });
+      await tx.tag.deleteMany({ where: { id: { in: sourceIds } } });
+    }
+
+    return updated;
+  }, { timeout: 60000 });
+}
+
+/**
+ * Validate a tag color: a hex value like #7c6fb0, or null to clear it
+ */
+export function parseTagColor(value: unknown): { color: string | null } | { error: string } {
+  if (value === null || value === '') return { color: null };
+  if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+    return { error: 'color must be a hex value like #7c6fb0' };
+  }
+  return { color: value.toLowerCase() };
+}
+
+// Thrown inside the transaction so a rejected parent rolls back everything before it
+class TagLoopError extends Error {}
+
+/**
+ * Set a tag's color and/or parent, creating its settings row (and the parent's) as needed.
+ * Throws a TagLoopError if the parent would make the hierarchy loop back on itself.
+ */
+async function updateTagSettings(
+  userId: string,
+  name: string,
+  changes: { color?: string | null; parent?: string | null },
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const tag = await tx.tag.upsert({
+    where: { userId_name: { userId, name } },
+    create: { name, userId },
+    update: {},
+  });
+
+  const data: Prisma.TagUncheckedUpdateInput = {};
+  if (changes.color !== undefined) data.color = changes.color;
+  if (changes.parent !== undefined) {
+    if (changes.parent === null) {
+      data.parentId = null;
+    } else {
+      const parent = await tx.tag.upsert({
+        where: { userId_name: { userId, name: changes.parent } },
+        create: { name: changes.parent, userId },
+        update: {},
+      });
+
+      // Walk up from the new parent; reaching this tag means a loop
+      for (let id: string | null = parent.id; id; ) {
+        if (id === tag.id) throw new TagLoopError(`"${changes.parent}" is already under "${name}"`);
+        const ancestor: { parentId: string | null } | null = await tx.tag.findUnique({ where: { id }, select: { parentId: true } });
+        id = ancestor?.parentId ?? null;
+      }
+      data.parentId = parent.id;
+    }
+  }
+
+  await tx.tag.update({ where: { id: tag.id }, data });
+}
+
+/**
+ * Rename a tag and/or set its color or parent, all in one transaction: if the
+ * parent would make the hierarchy loop, nothing changes, not even the name.
+ * Returns how many books were renamed.
+ */
+export async function editTag(
+  userId: string,
+  name: string,
+  changes: { name?: string; color?: string | null; parent?: string | null }
+): Promise<{ booksUpdated: number } | { error: string }> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const newName = changes.name ?? name;
+      const booksUpdated = newName !== name ? await renameTag(userId, name, newName, tx) : 0;
+      if (changes.color !== undefined || changes.parent !== undefined) {
+        await updateTagSettings(userId, newName, { color: changes.color, parent: changes.parent }, tx);
+      }
+      return { booksUpdated };
+    }, { timeout: 60000 });
+  } catch (error) {
+    if (error instanceof TagLoopError) return { error: error.message };
+    throw error;
+  }
+}
@@ -142,6 +142,7 @@ router.post('/extract', async (req: Request, res: Response) => {
 router.get('/', async (req: Request, res: Response) => {
   try {
     const articles = await prisma.article.findMany({
+      where: { userId: req.userId },
       orderBy: {
         dateAdded: 'desc',
       },
@@ -172,6 +173,7 @@ router.post('/', async (req: Request, res: Response) => {
         text,
         wordCount,
         pageCount,
+        userId: req.userId,
       },
     });
     
@@ -189,9 +191,12 @@ router.delete('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     
-    await prisma.article.delete({
-      where: { id },
+    const { count } = await prisma.article.deleteMany({
+      where: { id, userId: req.userId },
     });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
     
     res.status(204).send();
   } catch (error) {
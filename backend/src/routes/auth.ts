@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import { hashPassword, verifyPassword, startSession, endSession, requireAuth, claimUnownedLibrary } from '../lib/auth.js';
+import { defaultProfile } from '../lib/profiles.js';
+
+const router = Router();
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const normalizeEmail = (email: unknown) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+/**
+ * POST /api/auth/register
+ * Create an account and sign in. The account whose email is LIBRARY_OWNER_EMAIL
+ * takes over any library data created before accounts existed.
+ */
+router.post('/register', async (req: Request, res: Response) => {
+  try {
+    const email = normalizeEmail(req.body.email);
+    const { password, name } = req.body;
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return res.status(400).json({ error: 'A valid email is required' });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      return res.status(409).json({ error: 'An account with this email already exists' });
+    }
+
+    const passwordHash = await hashPassword(password);
+    const user = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({ data: { email, passwordHash } });
+
+      // Emails are unique, so at most one account can ever match
+      if (email === normalizeEmail(process.env.LIBRARY_OWNER_EMAIL)) {
+        await claimUnownedLibrary(user.id, tx);
+      }
+
+      await tx.profile.upsert({
+        where: { userId: user.id },
+        update: {},
+        create: { userId: user.id, ...defaultProfile(name) },
+      });
+
+      return user;
+    }, { timeout: 60000 });
+
+    await startSession(res, user.id);
+    res.status(201).json({ id: user.id, email: user.email });
+  } catch (error) {
+    console.error('Failed to register:', error);
+    res.status(500).json({ error: 'Failed to register' });
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Sign in with email and password
+ */
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    const email = normalizeEmail(req.body.email);
+    const { password } = req.body;
+
+    if (!email || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ error: 'Incorrect email or password' });
+    }
+
+    await startSession(res, user.id);
+    res.json({ id: user.id, email: user.email });
+  } catch (error) {
+    console.error('Failed to sign in:', error);
+    res.status(500).json({ error: 'Failed to sign in' });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    await endSession(req, res);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to sign out:', error);
+    res.status(500).json({ error: 'Failed to sign out' });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the signed-in user
+ */
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.userId } });
+    if (!user) {
+      return res.status(401).json({ error: 'Please sign in' });
+    }
+
+    res.json({ id: user.id, email: user.email });
+  } catch (error) {
+    console.error('Failed to fetch user:', error);
+    res.status(500).json({ error: 'Failed to fetch user' });
+  }
+});
+
+export { router as authRouter };
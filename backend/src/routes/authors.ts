@@ -0,0 +1,83 @@
+import { Router, Request, Response } from 'express';
+import { ContributorRole } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { bookCoverPath } from '../lib/covers.js';
+
+const router = Router();
+
+/**
+ * GET /api/authors
+ * List the people on the user's books with how many books each is on
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const authors = await prisma.author.findMany({
+      where: { userId: req.userId, contributions: { some: {} } },
+      include: { contributions: { select: { bookId: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(authors.map((author) => ({
+      id: author.id,
+      name: author.name,
+      bookCount: new Set(author.contributions.map((c) => c.bookId)).size,
+    })));
+  } catch (error) {
+    console.error('Failed to fetch authors:', error);
+    res.status(500).json({ error: 'Failed to fetch authors' });
+  }
+});
+
+/**
+ * GET /api/authors/:id
+ * An author's page: every book they worked on, what they did on it, and
+ * the user's ratings
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const author = await prisma.author.findFirst({
+      where: { id: req.params.id, userId: req.userId },
+      include: {
+        contributions: {
+          include: { book: { include: { reviews: { select: { id: true } } } } },
+          orderBy: { book: { dateAdded: 'asc' } },
+        },
+      },
+    });
+    if (!author) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+
+    // Someone can be on a book twice, e.g. as author and illustrator
+    const roles = new Map<string, ContributorRole[]>();
+    for (const { bookId, role } of author.contributions) {
+      roles.set(bookId, [...(roles.get(bookId) ?? []), role]);
+    }
+    const books = [...new Map(author.contributions.map(({ book }) => [book.id, book])).values()];
+
+    const rated = books.filter((book) => book.reviews.length > 0);
+    const averageRating = rated.length > 0
+      ? rated.reduce((sum, book) => sum + book.averageRating, 0) / rated.length
+      : null;
+
+    res.json({
+      id: author.id,
+      name: author.name,
+      averageRating: averageRating !== null ? Math.round(averageRating * 100) / 100 : null,
+      books: books.map((book) => ({
+        id: book.id,
+        title: book.title,
+        author: book.author,
+        coverUrl: bookCoverPath(book),
+        status: book.status,
+        averageRating: book.reviews.length > 0 ? book.averageRating : null,
+        roles: roles.get(book.id) ?? [],
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to fetch author:', error);
+    res.status(500).json({ error: 'Failed to fetch author' });
+  }
+});
+
+export { router as authorsRouter };
@@ -1,143 +1,275 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma.js';
-import { ReadingStatus } from '@prisma/client';
+import { Prisma, ReadingStatus, ReadingSession } from '@prisma/client';
+import { applyStatusChange } from '../lib/reading-sessions.js';
+import { recordProgress, estimatePace, estimateFinishDate, pagesPerDay } from '../lib/progress.js';
+import { parseBookQuery, refreshAverageRating } from '../lib/book-query.js';
+import { libraryStats } from '../lib/library-stats.js';
+import { enqueueEnrichment, needsEnrichment } from '../lib/enrichment.js';
+import { bookCoverPath, coverStore } from '../lib/covers.js';
+import { normalizeIsbn } from '../lib/isbn.js';
+import { parseBulkRequest, runBulkAction } from '../lib/bulk-books.js';
+import { resolveShelfIds, setBookShelves } from '../lib/shelves.js';
+import { findDuplicateClusters, mergeBooks } from '../lib/duplicates.js';
+import {
+  EDITION_FORMATS,
+  parseEditionInput,
+  removeEdition,
+  setActiveEdition,
+  syncActiveEdition,
+  transformEdition,
+} from '../lib/editions.js';
+import {
+  authorLine,
+  parseContributors,
+  setBookContributors,
+  syncAuthorsFromLine,
+  transformContributor,
+} from '../lib/contributors.js';
+import { assignSeries, nextInSeries, parseSeriesInput } from '../lib/series.js';
+import { parseQuoteInput, transformQuote } from '../lib/quotes.js';
+import { sanitizeMarkdown } from '../lib/markdown.js';
 
 const router = Router();
 
+// Relations every book response is built from
+const bookInclude = {
+  reviews: {
+    orderBy: { dateAdded: 'desc' },
+  },
+  sessions: {
+    orderBy: { createdAt: 'asc' },
+  },
+  // Recent history is enough to estimate pace
+  progressEntries: {
+    orderBy: { recordedAt: 'desc' },
+    take: 50,
+  },
+  shelves: {
+    orderBy: { addedAt: 'asc' },
+    select: { shelfId: true },
+  },
+  editions: {
+    orderBy: { createdAt: 'asc' },
+  },
+  contributors: {
+    orderBy: { position: 'asc' },
+    include: { author: { select: { name: true } } },
+  },
+  series: {
+    select: { id: true, name: true },
+  },
+} satisfies Prisma.BookInclude;
+
+type BookWithRelations = Prisma.BookGetPayload<{ include: typeof bookInclude }>;
+
+function toDateString(date: Date | null): string | null {
+  return date ? date.toISOString().split('T')[0] : null;
+}
+
 /**
- * Fetch cover from Google Books API (same as recommendations)
+ * Where a finished book's progress sits: its last page, or last minute for audiobooks
  */
-async function getCoverFromGoogleBooks(title: string, author: string) {
+function finishedProgress(format: unknown, totalPages: unknown, totalDurationMinutes: unknown): number | null {
+  const total = format === 'audiobook' ? totalDurationMinutes : totalPages;
+  return total ? parseInt(String(total)) : null;
+}
+
+/**
+ * Shape a reading session for the API
+ */
+function transformSession(session: ReadingSession) {
+  return {
+    id: session.id,
+    startedAt: toDateString(session.startedAt),
+    finishedAt: toDateString(session.finishedAt),
+    abandonedAt: toDateString(session.abandonedAt),
+    edition: session.edition,
+    editionId: session.editionId,
+  };
+}
+
+/**
+ * Shape a book and its relations for the API
+ */
+function transformBook(book: BookWithRelations) {
+  // Most recent finish across all reads, used for goals and yearly stats
+  const lastFinished = book.sessions
+    .map((s) => s.finishedAt)
+    .filter((d): d is Date => d !== null)
+    .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+  // Audiobook progress, pace and length are all in minutes
+  const listened = book.format === 'audiobook';
+  const pace = book.status === 'reading' ? estimatePace(book.progressEntries, listened) : null;
+  const activeEdition = book.editions.find((edition) => edition.id === book.activeEditionId);
+
+  return {
+    id: book.id,
+    title: book.title,
+    author: book.author,
+    contributors: book.contributors.map(transformContributor),
+    series: book.series
+      ? { id: book.series.id, name: book.series.name, position: book.seriesPosition }
+      : null,
+    reviews: book.reviews.map((r) => ({
+      id: r.id,
+      content: r.content,
+      rating: r.rating,
+      isPublic: r.isPublic,
+      dateAdded: r.dateAdded.toISOString().split('T')[0],
+    })),
+    tags: book.tags,
+    coverUrl: bookCoverPath(book),
+    dateAdded: book.dateAdded.toISOString().split('T')[0],
+    status: book.status,
+    progress: book.progress,
+    totalPages: book.totalPages,
+    format: book.format,
+    totalDurationMinutes: book.totalDurationMinutes,
+    shelves: book.shelves.map((s) => s.shelfId),
+    isbn: book.isbn,
+    description: book.description,
+    isPublic: book.isPublic,
+    editions: book.editions.map(transformEdition),
+    activeEdition: activeEdition ? transformEdition(activeEdition) : null,
+    sessions: book.sessions.map(transformSession),
+    dateFinished: toDateString(lastFinished),
+    pagesPerDay: pace !== null && !listened ? Math.round(pace * 10) / 10 : null,
+    minutesPerDay: pace !== null && listened ? Math.round(pace) : null,
+    estimatedFinish: toDateString(
+      estimateFinishDate(book.progress, listened ? book.totalDurationMinutes : book.totalPages, pace)
+    ),
+  };
+}
+
+/**
+ * GET /api/books
+ * A page of books, with their reviews, matching q, status, shelf, tag and
+ * ratingMin, sorted by sort/direction and continuing after `cursor`
+ */
+router.get('/', async (req: Request, res: Response) => {
   try {
-    const query = encodeURIComponent(`${title} ${author}`);
-    const response = await fetch(`https://www.googleapis.com/books/v1/volumes?q=${query}&maxResults=1`);
-    const data = await response.json();
-    
-    if (data.items && data.items.length > 0) {
-      const book = data.items[0].volumeInfo;
-      const isbn = book.industryIdentifiers?.find((id: any) => id.type === 'ISBN_13' || id.type === 'ISBN_10')?.identifier;
-      const coverUrl = book.imageLinks?.large || book.imageLinks?.medium || book.imageLinks?.thumbnail;
-      
-      return {
-        coverUrl: coverUrl?.replace('http://', 'https://'),
-        isbn,
-        pages: book.pageCount,
-      };
-    }
+    const { where, orderBy, cursor, limit } = await parseBookQuery(req.userId, req.query);
+
+    const [books, total] = await Promise.all([
+      prisma.book.findMany({
+        where,
+        include: bookInclude,
+        orderBy,
+        take: limit + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      }),
+      prisma.book.count({ where }),
+    ]);
+
+    // One extra row tells us whether there's another page
+    const page = books.slice(0, limit).map(transformBook);
+    const nextCursor = books.length > limit ? page[page.length - 1].id : null;
+
+    res.json({ books: page, nextCursor, total });
   } catch (error) {
-    console.warn(`Google Books failed for ${title}:`, error);
+    console.error('Failed to fetch books:', error);
+    res.status(500).json({ error: 'Failed to fetch books' });
   }
-  return {};
-}
+});
 
 /**
- * Fetch cover from Open Library API (same as recommendations)
+ * GET /api/books/stats
+ * Counts by status, ratings, pages, this year's finished reads by month and top genres
  */
-async function getCoverFromOpenLibrary(title: string, author: string) {
+router.get('/stats', async (req: Request, res: Response) => {
   try {
-    const response = await fetch(
-      `https://openlibrary.org/search.json?title=${encodeURIComponent(title)}&author=${encodeURIComponent(author)}&limit=1`
-    );
-    const data = await response.json();
-    
-    if (data.docs?.[0]) {
-      const book = data.docs[0];
-      return {
-        coverUrl: book.cover_i ? `https://covers.openlibrary.org/b/id/${book.cover_i}-L.jpg` : undefined,
-        isbn: book.isbn?.[0],
-        pages: book.number_of_pages_median,
-      };
-    }
+    res.json(await libraryStats(req.userId, new Date().getFullYear()));
   } catch (error) {
-    console.warn(`Open Library failed for ${title}:`, error);
+    console.error('Failed to fetch library stats:', error);
+    res.status(500).json({ error: 'Failed to fetch library stats' });
   }
-  return {};
-}
+});
 
 /**
- * Automatically fetch cover for a book if missing - same logic as recommendations
+ * GET /api/books/progress/daily
+ * Pages read per day across the user's books (default last 30 days)
  */
-async function ensureBookHasCover(book: any): Promise<string> {
-  // If book already has a valid cover URL, return it
-  if (book.coverUrl && book.coverUrl.startsWith('http')) {
-    return book.coverUrl;
+router.get('/progress/daily', async (req: Request, res: Response) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    res.json(await pagesPerDay(req.userId, days));
+  } catch (error) {
+    console.error('Failed to fetch daily progress:', error);
+    res.status(500).json({ error: 'Failed to fetch daily progress' });
   }
+});
 
-  console.log(`📷 Fetching cover for "${book.title}" by ${book.author}...`);
-  
-  //Try both sources in parallel
-  const [googleResult, openLibResult] = await Promise.all([
-    getCoverFromGoogleBooks(book.title, book.author),
-    getCoverFromOpenLibrary(book.title, book.author),
-  ]);
-
-  const coverUrl = googleResult.coverUrl || openLibResult.coverUrl;
-  
-  // If we found a cover, update the database
-  if (coverUrl) {
-    const updateData: any = { coverUrl };
-    if (googleResult.isbn && !book.isbn) updateData.isbn = googleResult.isbn;
-    if (googleResult.pages && !book.totalPages) updateData.totalPages = googleResult.pages;
+/**
+ * POST /api/books/bulk
+ * Apply one action (add_to_shelf, remove_from_shelf, set_status, add_tags, remove_tags, delete)
+ * to many books in one transaction, reporting the outcome for each book
+ */
+router.post('/bulk', async (req: Request, res: Response) => {
+  try {
+    const parsed = await parseBulkRequest(req.userId, req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
 
-    await prisma.book.update({
-      where: { id: book.id },
-      data: updateData
-    });
-    console.log(`✅ Updated cover for "${book.title}"`);
-    return coverUrl;
+    const report = await runBulkAction(req.userId, parsed.bookIds, parsed.action);
+    res.json(report);
+  } catch (error) {
+    console.error('Failed to update books:', error);
+    res.status(500).json({ error: 'Failed to update books' });
   }
-
-  // Return placeholder if no cover found
-  return book.coverUrl || `https://placehold.co/150x220/635C7B/white?text=${encodeURIComponent(book.title.substring(0, 12))}`;
-}
+});
 
 /**
- * GET /api/books
- * List all books with their reviews
+ * GET /api/books/duplicates
+ * Groups of books that look like the same work, each with the books and why they matched
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/duplicates', async (req: Request, res: Response) => {
   try {
+    const clusters = await findDuplicateClusters(req.userId);
     const books = await prisma.book.findMany({
-      include: {
-        reviews: {
-          orderBy: { dateAdded: 'desc' },
-        },
-        shelf: true,
-      },
-      orderBy: { dateAdded: 'desc' },
+      where: { id: { in: clusters.flatMap((cluster) => cluster.bookIds) }, userId: req.userId },
+      include: bookInclude,
     });
+    const byId = new Map(books.map((book) => [book.id, transformBook(book)]));
 
-    // Ensure all books have covers (fetch if missing)
-    const booksWithCovers = await Promise.all(
-      books.map(async (book) => {
-        const coverUrl = await ensureBookHasCover(book);
-        return {
-          id: book.id,
-          title: book.title,
-          author: book.author,
-          reviews: book.reviews.map((r) => ({
-            id: r.id,
-            content: r.content,
-            rating: r.rating,
-            dateAdded: r.dateAdded.toISOString().split('T')[0],
-          })),
-          tags: book.tags,
-          coverUrl,
-          dateAdded: book.dateAdded.toISOString().split('T')[0],
-          status: book.status,
-          progress: book.progress,
-          totalPages: book.totalPages,
-          shelf: book.shelfId,
-          isbn: book.isbn,
-          description: book.description,
-        };
-      })
-    );
-
-    res.json(booksWithCovers);
+    res.json(clusters.map((cluster) => ({
+      reasons: cluster.reasons,
+      books: cluster.bookIds.map((id) => byId.get(id)).filter(Boolean),
+    })));
   } catch (error) {
-    console.error('Failed to fetch books:', error);
-    res.status(500).json({ error: 'Failed to fetch books' });
+    console.error('Failed to find duplicate books:', error);
+    res.status(500).json({ error: 'Failed to find duplicate books' });
+  }
+});
+
+/**
+ * POST /api/books/merge
+ * Fold duplicates into one book: { survivorId, bookIds }. Reviews, sessions,
+ * progress, tags and shelves move to the survivor and the duplicates are deleted.
+ */
+router.post('/merge', async (req: Request, res: Response) => {
+  try {
+    const { survivorId, bookIds } = req.body;
+
+    if (typeof survivorId !== 'string' || !survivorId) {
+      return res.status(400).json({ error: 'survivorId is required' });
+    }
+    if (!Array.isArray(bookIds) || bookIds.length === 0 || !bookIds.every((id) => typeof id === 'string')) {
+      return res.status(400).json({ error: 'bookIds must be a non-empty array of book ids' });
+    }
+
+    const merged = await mergeBooks(req.userId, survivorId, bookIds);
+    if (!merged) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const book = await prisma.book.findUniqueOrThrow({ where: { id: survivorId }, include: bookInclude });
+    res.json(transformBook(book));
+  } catch (error) {
+    console.error('Failed to merge books:', error);
+    res.status(500).json({ error: 'Failed to merge books' });
   }
 });
 
@@ -149,40 +281,16 @@ router.get('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    const book = await prisma.book.findUnique({
-      where: { id },
-      include: {
-        reviews: {
-          orderBy: { dateAdded: 'desc' },
-        },
-        shelf: true,
-      },
+    const book = await prisma.book.findFirst({
+      where: { id, userId: req.userId },
+      include: bookInclude,
     });
 
     if (!book) {
       return res.status(404).json({ error: 'Book not found' });
     }
 
-    const transformed = {
-      id: book.id,
-      title: book.title,
-      author: book.author,
-      reviews: book.reviews.map((r) => ({
-        id: r.id,
-        content: r.content,
-        rating: r.rating,
-        dateAdded: r.dateAdded.toISOString().split('T')[0],
-      })),
-      tags: book.tags,
-      coverUrl: book.coverUrl || '',
-      dateAdded: book.dateAdded.toISOString().split('T')[0],
-      status: book.status,
-      progress: book.progress,
-      totalPages: book.totalPages,
-      shelf: book.shelfId,
-      isbn: book.isbn,
-      description: book.description,
-    };
+    const transformed = transformBook(book);
 
     res.json(transformed);
   } catch (error) {
@@ -199,74 +307,97 @@ router.post('/', async (req: Request, res: Response) => {
   try {
     const {
       title,
-      author,
       tags = [],
       coverUrl,
       status = 'want_to_read',
       totalPages,
-      shelf,
+      totalDurationMinutes,
+      format,
+      shelves,
       isbn,
       description,
       review,
       rating,
     } = req.body;
 
-    // Validate title and author - must be non-empty strings
+    // Validate title and author - must be non-empty strings. A list of
+    // contributors (co-authors, translators...) can stand in for the author line.
     if (!title || typeof title !== 'string' || title.trim().length === 0) {
       return res.status(400).json({ error: 'Title is required and cannot be empty' });
     }
+    const contributors = req.body.contributors !== undefined ? parseContributors(req.body.contributors) : null;
+    if (contributors && 'error' in contributors) {
+      return res.status(400).json({ error: contributors.error });
+    }
+    const author = contributors ? authorLine(contributors.data) : req.body.author;
     if (!author || typeof author !== 'string' || author.trim().length === 0) {
       return res.status(400).json({ error: 'Author is required and cannot be empty' });
     }
+    if (format && !EDITION_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of ${EDITION_FORMATS.join(', ')}` });
+    }
+    const series = req.body.series !== undefined ? parseSeriesInput(req.body.series) : null;
+    if (series && 'error' in series) {
+      return res.status(400).json({ error: series.error });
+    }
+    const reviewContent = review ? sanitizeMarkdown(review) : '';
+
+    const shelfIds = await resolveShelfIds(req.userId, shelves);
 
     // Create book with optional initial review
-    const book = await prisma.book.create({
-      data: {
-        title: title.trim(),
-        author: author.trim(),
-        tags: Array.isArray(tags) ? tags : tags.split(',').map((t: string) => t.trim()).filter(Boolean),
-        coverUrl: coverUrl || `https://placehold.co/150x220/635C7B/white?text=${encodeURIComponent(title.substring(0, 12))}`,
-        status: status as ReadingStatus,
-        totalPages: totalPages ? parseInt(totalPages) : null,
-        shelfId: shelf || null,
-        isbn,
-        description,
-        progress: status === 'read' && totalPages ? parseInt(totalPages) : null,
-        reviews: review
-          ? {
-              create: {
-                content: review,
-                rating: rating || 0,
-              },
-            }
-          : undefined,
-      },
-      include: {
-        reviews: true,
-        shelf: true,
-      },
+    const book = await prisma.$transaction(async (tx) => {
+      const created = await tx.book.create({
+        data: {
+          title: title.trim(),
+          author: author.trim(),
+          tags: Array.isArray(tags) ? tags : tags.split(',').map((t: string) => t.trim()).filter(Boolean),
+          coverUrl: coverUrl || null,
+          status: status as ReadingStatus,
+          totalPages: totalPages ? parseInt(totalPages) : null,
+          totalDurationMinutes: totalDurationMinutes ? parseInt(totalDurationMinutes) : null,
+          format: format || null,
+          isbn: normalizeIsbn(isbn),
+          description,
+          progress: status === 'read' ? finishedProgress(format, totalPages, totalDurationMinutes) : null,
+          userId: req.userId,
+          averageRating: reviewContent ? rating || 0 : 0,
+          reviews: reviewContent
+            ? {
+                create: {
+                  content: reviewContent,
+                  rating: rating || 0,
+                },
+              }
+            : undefined,
+          // Books added as reading/read start their first reading session now
+          sessions: status === 'reading'
+            ? { create: { startedAt: new Date() } }
+            : status === 'read'
+              ? { create: { finishedAt: new Date() } }
+              : undefined,
+        },
+        select: { id: true },
+      });
+      await setBookShelves(created.id, shelfIds, tx);
+      if (contributors) {
+        await setBookContributors(req.userId, created.id, contributors.data, tx);
+      } else {
+        await syncAuthorsFromLine(req.userId, created.id, tx);
+      }
+      if (series?.data) {
+        await assignSeries(req.userId, created.id, series.data.name, series.data.position, tx);
+      }
+      // The ISBN, format and length describe the first edition
+      await syncActiveEdition(created.id, tx);
+      return tx.book.findUniqueOrThrow({ where: { id: created.id }, include: bookInclude });
     });
 
-    const transformed = {
-      id: book.id,
-      title: book.title,
-      author: book.author,
-      reviews: book.reviews.map((r) => ({
-        id: r.id,
-        content: r.content,
-        rating: r.rating,
-        dateAdded: r.dateAdded.toISOString().split('T')[0],
-      })),
-      tags: book.tags,
-      coverUrl: book.coverUrl || '',
-      dateAdded: book.dateAdded.toISOString().split('T')[0],
-      status: book.status,
-      progress: book.progress,
-      totalPages: book.totalPages,
-      shelf: book.shelfId,
-      isbn: book.isbn,
-      description: book.description,
-    };
+    // Covers, ISBNs and page counts are looked up in the background
+    if (needsEnrichment(book)) {
+      await enqueueEnrichment(book.id);
+    }
+
+    const transformed = transformBook(book);
 
     res.status(201).json(transformed);
   } catch (error) {
@@ -285,7 +416,7 @@ router.put('/:id', async (req: Request, res: Response) => {
     const updates = req.body;
 
     // Check if book exists
-    const existing = await prisma.book.findUnique({ where: { id } });
+    const existing = await prisma.book.findFirst({ where: { id, userId: req.userId } });
     if (!existing) {
       return res.status(404).json({ error: 'Book not found' });
     }
@@ -301,6 +432,17 @@ router.put('/:id', async (req: Request, res: Response) => {
         return res.status(400).json({ error: 'Author cannot be empty' });
       }
     }
+    const contributors = updates.contributors !== undefined ? parseContributors(updates.contributors) : null;
+    if (contributors && 'error' in contributors) {
+      return res.status(400).json({ error: contributors.error });
+    }
+    if (updates.format && !EDITION_FORMATS.includes(updates.format)) {
+      return res.status(400).json({ error: `format must be one of ${EDITION_FORMATS.join(', ')}` });
+    }
+    const series = updates.series !== undefined ? parseSeriesInput(updates.series) : null;
+    if (series && 'error' in series) {
+      return res.status(400).json({ error: series.error });
+    }
 
     // Build update data
     const updateData: any = {};
@@ -312,45 +454,53 @@ router.put('/:id', async (req: Request, res: Response) => {
         ? updates.tags 
         : updates.tags.split(',').map((t: string) => t.trim()).filter(Boolean);
     }
-    if (updates.coverUrl !== undefined) updateData.coverUrl = updates.coverUrl;
+    // A new cover source replaces the stored copy once enrichment downloads it
+    if (updates.coverUrl !== undefined && updates.coverUrl !== existing.coverUrl) {
+      updateData.coverUrl = updates.coverUrl || null;
+      updateData.coverStoredAt = null;
+    }
     if (updates.status !== undefined) updateData.status = updates.status as ReadingStatus;
     if (updates.progress !== undefined) updateData.progress = updates.progress;
     if (updates.totalPages !== undefined) updateData.totalPages = updates.totalPages;
-    if (updates.shelf !== undefined) updateData.shelfId = updates.shelf || null;
-    if (updates.isbn !== undefined) updateData.isbn = updates.isbn;
+    if (updates.totalDurationMinutes !== undefined) updateData.totalDurationMinutes = updates.totalDurationMinutes;
+    if (updates.format !== undefined) updateData.format = updates.format || null;
+    if (updates.isbn !== undefined) updateData.isbn = normalizeIsbn(updates.isbn);
     if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.isPublic !== undefined) updateData.isPublic = Boolean(updates.isPublic);
+    const shelfIds = updates.shelves !== undefined ? await resolveShelfIds(req.userId, updates.shelves) : null;
 
-    const book = await prisma.book.update({
-      where: { id },
-      data: updateData,
-      include: {
-        reviews: {
-          orderBy: { dateAdded: 'desc' },
-        },
-        shelf: true,
-      },
+    const book = await prisma.$transaction(async (tx) => {
+      await tx.book.update({ where: { id }, data: updateData });
+      if (typeof updateData.progress === 'number' && updateData.progress !== existing.progress) {
+        const format = updateData.format !== undefined ? updateData.format : existing.format;
+        await recordProgress(id, existing.progress, updateData.progress, format === 'audiobook', tx);
+      }
+      if (updateData.status !== undefined) {
+        await applyStatusChange(id, existing.status, updateData.status, tx);
+      }
+      if (shelfIds) {
+        await setBookShelves(id, shelfIds, tx);
+      }
+      if (contributors) {
+        await setBookContributors(req.userId, id, contributors.data, tx);
+      } else if (updateData.author !== undefined && updateData.author !== existing.author) {
+        await syncAuthorsFromLine(req.userId, id, tx);
+      }
+      if (series) {
+        await assignSeries(req.userId, id, series.data?.name ?? null, series.data?.position ?? null, tx);
+      }
+      const editionFields = ['totalPages', 'totalDurationMinutes', 'format', 'isbn'];
+      if (editionFields.some((field) => updateData[field] !== undefined)) {
+        await syncActiveEdition(id, tx);
+      }
+      return tx.book.findUniqueOrThrow({ where: { id }, include: bookInclude });
     });
 
-    const transformed = {
-      id: book.id,
-      title: book.title,
-      author: book.author,
-      reviews: book.reviews.map((r) => ({
-        id: r.id,
-        content: r.content,
-        rating: r.rating,
-        dateAdded: r.dateAdded.toISOString().split('T')[0],
-      })),
-      tags: book.tags,
-      coverUrl: book.coverUrl || '',
-      dateAdded: book.dateAdded.toISOString().split('T')[0],
-      status: book.status,
-      progress: book.progress,
-      totalPages: book.totalPages,
-      shelf: book.shelfId,
-      isbn: book.isbn,
-      description: book.description,
-    };
+    if (needsEnrichment(book) && (updateData.coverStoredAt === null || updateData.title || updateData.author || contributors)) {
+      await enqueueEnrichment(book.id);
+    }
+
+    const transformed = transformBook(book);
 
     res.json(transformed);
   } catch (error) {
@@ -368,12 +518,13 @@ router.delete('/:id', async (req: Request, res: Response) => {
     const { id } = req.params;
 
     // Check if book exists
-    const existing = await prisma.book.findUnique({ where: { id } });
+    const existing = await prisma.book.findFirst({ where: { id, userId: req.userId } });
     if (!existing) {
       return res.status(404).json({ error: 'Book not found' });
     }
 
     await prisma.book.delete({ where: { id } });
+    await coverStore.remove(id);
     res.status(204).send();
   } catch (error) {
     console.error('Failed to delete book:', error);
@@ -388,14 +539,15 @@ router.delete('/:id', async (req: Request, res: Response) => {
 router.post('/:id/reviews', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { content, rating } = req.body;
+    const { rating, isPublic } = req.body;
+    const content = sanitizeMarkdown(req.body.content);
 
     if (!content) {
       return res.status(400).json({ error: 'Review content is required' });
     }
 
     // Check if book exists
-    const book = await prisma.book.findUnique({ where: { id } });
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
     if (!book) {
       return res.status(404).json({ error: 'Book not found' });
     }
@@ -404,14 +556,17 @@ router.post('/:id/reviews', async (req: Request, res: Response) => {
       data: {
         content,
         rating: rating || 0,
+        isPublic: Boolean(isPublic),
         bookId: id,
       },
     });
+    await refreshAverageRating({ bookId: id });
 
     res.status(201).json({
       id: review.id,
       content: review.content,
       rating: review.rating,
+      isPublic: review.isPublic,
       dateAdded: review.dateAdded.toISOString().split('T')[0],
     });
   } catch (error) {
@@ -427,11 +582,15 @@ router.post('/:id/reviews', async (req: Request, res: Response) => {
 router.put('/:bookId/reviews/:reviewId', async (req: Request, res: Response) => {
   try {
     const { bookId, reviewId } = req.params;
-    const { content, rating } = req.body;
+    const { rating, isPublic } = req.body;
+    const content = req.body.content !== undefined ? sanitizeMarkdown(req.body.content) : undefined;
+    if (content === '') {
+      return res.status(400).json({ error: 'Review content cannot be empty' });
+    }
 
     // Check if review exists and belongs to book
     const existing = await prisma.review.findFirst({
-      where: { id: reviewId, bookId },
+      where: { id: reviewId, bookId, book: { userId: req.userId } },
     });
     if (!existing) {
       return res.status(404).json({ error: 'Review not found' });
@@ -442,13 +601,18 @@ router.put('/:bookId/reviews/:reviewId', async (req: Request, res: Response) =>
       data: {
         ...(content !== undefined && { content }),
         ...(rating !== undefined && { rating }),
+        ...(isPublic !== undefined && { isPublic: Boolean(isPublic) }),
       },
     });
+    if (rating !== undefined) {
+      await refreshAverageRating({ bookId });
+    }
 
     res.json({
       id: review.id,
       content: review.content,
       rating: review.rating,
+      isPublic: review.isPublic,
       dateAdded: review.dateAdded.toISOString().split('T')[0],
     });
   } catch (error) {
@@ -467,13 +631,14 @@ router.delete('/:bookId/reviews/:reviewId', async (req: Request, res: Response)
 
     // Check if review exists and belongs to book
     const existing = await prisma.review.findFirst({
-      where: { id: reviewId, bookId },
+      where: { id: reviewId, bookId, book: { userId: req.userId } },
     });
     if (!existing) {
       return res.status(404).json({ error: 'Review not found' });
     }
 
     await prisma.review.delete({ where: { id: reviewId } });
+    await refreshAverageRating({ bookId });
     res.status(204).send();
   } catch (error) {
     console.error('Failed to delete review:', error);
@@ -481,4 +646,471 @@ router.delete('/:bookId/reviews/:reviewId', async (req: Request, res: Response)
   }
 });
 
+interface SessionInput {
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  abandonedAt?: Date | null;
+  edition?: string | null;
+  editionId?: string | null;
+}
+
+/**
+ * Parse the optional date/edition fields of a reading session body.
+ * Returns an error message instead of data when the input is invalid.
+ */
+function parseSessionInput(body: any): { data: SessionInput } | { error: string } {
+  const data: SessionInput = {};
+
+  for (const field of ['startedAt', 'finishedAt', 'abandonedAt'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] === null || body[field] === '') {
+      data[field] = null;
+      continue;
+    }
+    const date = new Date(body[field]);
+    if (isNaN(date.getTime())) {
+      return { error: `${field} must be a valid date` };
+    }
+    data[field] = date;
+  }
+
+  if (body.edition !== undefined) {
+    data.edition = typeof body.edition === 'string' && body.edition.trim() ? body.edition.trim() : null;
+  }
+  if (body.editionId !== undefined) {
+    data.editionId = typeof body.editionId === 'string' && body.editionId ? body.editionId : null;
+  }
+
+  return { data };
+}
+
+/**
+ * Sessions can only point at an edition of their own book
+ */
+async function isBookEdition(bookId: string, editionId: string | null | undefined): Promise<boolean> {
+  if (!editionId) return true;
+  return !!(await prisma.edition.findFirst({ where: { id: editionId, bookId }, select: { id: true } }));
+}
+
+/**
+ * Check the merged session dates are coherent
+ */
+function validateSessionDates(session: SessionInput): string | null {
+  if (session.finishedAt && session.abandonedAt) {
+    return 'A session cannot be both finished and abandoned';
+  }
+  const end = session.finishedAt || session.abandonedAt;
+  if (session.startedAt && end && end < session.startedAt) {
+    return 'A session cannot end before it starts';
+  }
+  return null;
+}
+
+/**
+ * GET /api/books/:id/progress
+ * Progress history for a book, oldest first
+ */
+router.get('/:id/progress', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const entries = await prisma.progressEntry.findMany({
+      where: { bookId: id },
+      orderBy: { recordedAt: 'asc' },
+    });
+
+    res.json(entries.map((e) => ({
+      id: e.id,
+      page: e.page,
+      pagesRead: e.pagesRead,
+      recordedAt: e.recordedAt.toISOString(),
+    })));
+  } catch (error) {
+    console.error('Failed to fetch progress history:', error);
+    res.status(500).json({ error: 'Failed to fetch progress history' });
+  }
+});
+
+/**
+ * GET /api/books/:id/next-in-series
+ * The next unread book in this book's series, or null if there isn't one
+ */
+router.get('/:id/next-in-series', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const next = await nextInSeries(id);
+    const nextBook = next
+      ? await prisma.book.findUniqueOrThrow({ where: { id: next.id }, include: bookInclude })
+      : null;
+
+    res.json(nextBook ? transformBook(nextBook) : null);
+  } catch (error) {
+    console.error('Failed to fetch next in series:', error);
+    res.status(500).json({ error: 'Failed to fetch next in series' });
+  }
+});
+
+/**
+ * GET /api/books/:id/sessions
+ * List reading sessions for a book, oldest first
+ */
+router.get('/:id/sessions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const sessions = await prisma.readingSession.findMany({
+      where: { bookId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(sessions.map(transformSession));
+  } catch (error) {
+    console.error('Failed to fetch reading sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch reading sessions' });
+  }
+});
+
+/**
+ * POST /api/books/:id/sessions
+ * Record a reading session (a re-read is simply another session)
+ */
+router.post('/:id/sessions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const parsed = parseSessionInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const invalid = validateSessionDates(parsed.data);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (!(await isBookEdition(id, parsed.data.editionId))) {
+      return res.status(400).json({ error: 'Edition not found for this book' });
+    }
+
+    const session = await prisma.readingSession.create({
+      data: { ...parsed.data, bookId: id },
+    });
+
+    res.status(201).json(transformSession(session));
+  } catch (error) {
+    console.error('Failed to create reading session:', error);
+    res.status(500).json({ error: 'Failed to create reading session' });
+  }
+});
+
+/**
+ * PUT /api/books/:bookId/sessions/:sessionId
+ * Update a reading session
+ */
+router.put('/:bookId/sessions/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const { bookId, sessionId } = req.params;
+
+    // Check if session exists and belongs to book
+    const existing = await prisma.readingSession.findFirst({
+      where: { id: sessionId, bookId, book: { userId: req.userId } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Reading session not found' });
+    }
+
+    const parsed = parseSessionInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const invalid = validateSessionDates({ ...existing, ...parsed.data });
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (!(await isBookEdition(bookId, parsed.data.editionId))) {
+      return res.status(400).json({ error: 'Edition not found for this book' });
+    }
+
+    const session = await prisma.readingSession.update({
+      where: { id: sessionId },
+      data: parsed.data,
+    });
+
+    res.json(transformSession(session));
+  } catch (error) {
+    console.error('Failed to update reading session:', error);
+    res.status(500).json({ error: 'Failed to update reading session' });
+  }
+});
+
+/**
+ * DELETE /api/books/:bookId/sessions/:sessionId
+ * Delete a reading session
+ */
+router.delete('/:bookId/sessions/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const { bookId, sessionId } = req.params;
+
+    // Check if session exists and belongs to book
+    const existing = await prisma.readingSession.findFirst({
+      where: { id: sessionId, bookId, book: { userId: req.userId } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Reading session not found' });
+    }
+
+    await prisma.readingSession.delete({ where: { id: sessionId } });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete reading session:', error);
+    res.status(500).json({ error: 'Failed to delete reading session' });
+  }
+});
+
+/**
+ * GET /api/books/:id/editions
+ * List a book's editions, oldest first
+ */
+router.get('/:id/editions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const editions = await prisma.edition.findMany({
+      where: { bookId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(editions.map(transformEdition));
+  } catch (error) {
+    console.error('Failed to fetch editions:', error);
+    res.status(500).json({ error: 'Failed to fetch editions' });
+  }
+});
+
+/**
+ * POST /api/books/:id/editions
+ * Add an edition (another copy, or the format of a re-read). `active: true`
+ * makes it the edition the book shows and tracks progress against.
+ */
+router.post('/:id/editions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const parsed = parseEditionInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const edition = await prisma.$transaction(async (tx) => {
+      const created = await tx.edition.create({ data: { ...parsed.data, bookId: id } });
+      if (req.body.active || !book.activeEditionId) {
+        await setActiveEdition(id, created.id, tx);
+      }
+      return created;
+    });
+
+    res.status(201).json(transformEdition(edition));
+  } catch (error) {
+    console.error('Failed to create edition:', error);
+    res.status(500).json({ error: 'Failed to create edition' });
+  }
+});
+
+/**
+ * PUT /api/books/:bookId/editions/:editionId
+ * Update an edition; `active: true` switches the book to it
+ */
+router.put('/:bookId/editions/:editionId', async (req: Request, res: Response) => {
+  try {
+    const { bookId, editionId } = req.params;
+
+    // Check if edition exists and belongs to book
+    const existing = await prisma.edition.findFirst({
+      where: { id: editionId, bookId, book: { userId: req.userId } },
+      include: { activeFor: { select: { id: true } } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Edition not found' });
+    }
+
+    const parsed = parseEditionInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const edition = await prisma.$transaction(async (tx) => {
+      const updated = await tx.edition.update({ where: { id: editionId }, data: parsed.data });
+      if (req.body.active || existing.activeFor) {
+        await setActiveEdition(bookId, editionId, tx);
+      }
+      return updated;
+    });
+
+    res.json(transformEdition(edition));
+  } catch (error) {
+    console.error('Failed to update edition:', error);
+    res.status(500).json({ error: 'Failed to update edition' });
+  }
+});
+
+/**
+ * DELETE /api/books/:bookId/editions/:editionId
+ * Delete an edition; sessions read in it keep their dates
+ */
+router.delete('/:bookId/editions/:editionId', async (req: Request, res: Response) => {
+  try {
+    const { bookId, editionId } = req.params;
+
+    // Check if edition exists and belongs to book
+    const existing = await prisma.edition.findFirst({
+      where: { id: editionId, bookId, book: { userId: req.userId } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Edition not found' });
+    }
+
+    await prisma.$transaction((tx) => removeEdition(bookId, editionId, tx));
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete edition:', error);
+    res.status(500).json({ error: 'Failed to delete edition' });
+  }
+});
+
+/**
+ * GET /api/books/:id/quotes
+ * List a book's quotes in page order; quotes without a page come last
+ */
+router.get('/:id/quotes', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const quotes = await prisma.quote.findMany({
+      where: { bookId: id },
+      orderBy: [{ page: { sort: 'asc', nulls: 'last' } }, { location: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+    });
+
+    res.json(quotes.map(transformQuote));
+  } catch (error) {
+    console.error('Failed to fetch quotes:', error);
+    res.status(500).json({ error: 'Failed to fetch quotes' });
+  }
+});
+
+/**
+ * POST /api/books/:id/quotes
+ * Save a quote from a book
+ */
+router.post('/:id/quotes', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findFirst({ where: { id, userId: req.userId } });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const parsed = parseQuoteInput(req.body, true);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const quote = await prisma.quote.create({
+      data: { ...parsed.data, text: parsed.data.text ?? '', bookId: id },
+    });
+
+    res.status(201).json(transformQuote(quote));
+  } catch (error) {
+    console.error('Failed to create quote:', error);
+    res.status(500).json({ error: 'Failed to create quote' });
+  }
+});
+
+/**
+ * PUT /api/books/:bookId/quotes/:quoteId
+ * Update a quote
+ */
+router.put('/:bookId/quotes/:quoteId', async (req: Request, res: Response) => {
+  try {
+    const { bookId, quoteId } = req.params;
+
+    // Check if quote exists and belongs to book
+    const existing = await prisma.quote.findFirst({
+      where: { id: quoteId, bookId, book: { userId: req.userId } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Quote not found' });
+    }
+
+    const parsed = parseQuoteInput(req.body, false);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const quote = await prisma.quote.update({ where: { id: quoteId }, data: parsed.data });
+    res.json(transformQuote(quote));
+  } catch (error) {
+    console.error('Failed to update quote:', error);
+    res.status(500).json({ error: 'Failed to update quote' });
+  }
+});
+
+/**
+ * DELETE /api/books/:bookId/quotes/:quoteId
+ * Delete a quote
+ */
+router.delete('/:bookId/quotes/:quoteId', async (req: Request, res: Response) => {
+  try {
+    const { bookId, quoteId } = req.params;
+
+    // Check if quote exists and belongs to book
+    const existing = await prisma.quote.findFirst({
+      where: { id: quoteId, bookId, book: { userId: req.userId } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Quote not found' });
+    }
+
+    await prisma.quote.delete({ where: { id: quoteId } });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete quote:', error);
+    res.status(500).json({ error: 'Failed to delete quote' });
+  }
+});
+
 export { router as booksRouter };
@@ -0,0 +1,87 @@
+import express, { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import { requireAuth } from '../lib/auth.js';
+import {
+  COVER_SIZES,
+  CoverSize,
+  InvalidCoverError,
+  MAX_COVER_BYTES,
+  coverStore,
+  detectImageType,
+  placeholderCoverSvg,
+  storeUploadedCover,
+} from '../lib/covers.js';
+
+const router = Router();
+
+/**
+ * GET /api/covers/placeholder?title=
+ * A generated cover with the book's title, for books without a real one
+ */
+router.get('/placeholder', (req: Request, res: Response) => {
+  const title = typeof req.query.title === 'string' ? req.query.title.substring(0, 60) : '';
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.type('image/svg+xml').send(placeholderCoverSvg(title));
+});
+
+/**
+ * GET /api/covers/:bookId/:size
+ * A stored cover image (small, medium or large). Covers stored before sizes
+ * were generated only have `large`, which is served for all three. Public so
+ * shared pages can show covers.
+ */
+router.get('/:bookId/:size', async (req: Request, res: Response) => {
+  try {
+    const { bookId, size } = req.params;
+    if (!COVER_SIZES.includes(size as CoverSize)) {
+      return res.status(400).json({ error: `Size must be one of ${COVER_SIZES.join(', ')}` });
+    }
+
+    const data = (await coverStore.get(bookId, size as CoverSize)) ?? (await coverStore.get(bookId, 'large'));
+    if (!data) {
+      return res.status(404).json({ error: 'Cover not found' });
+    }
+
+    // URLs carry a version, so a stored cover never changes in place
+    res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    res.type(detectImageType(data) ?? 'application/octet-stream').send(data);
+  } catch (error) {
+    console.error('Failed to fetch cover:', error);
+    res.status(500).json({ error: 'Failed to fetch cover' });
+  }
+});
+
+/**
+ * POST /api/covers/:bookId
+ * Upload a cover image for one of the user's books (raw image body)
+ */
+router.post(
+  '/:bookId',
+  requireAuth,
+  express.raw({ type: 'image/*', limit: MAX_COVER_BYTES }),
+  async (req: Request, res: Response) => {
+    try {
+      const { bookId } = req.params;
+
+      const book = await prisma.book.findFirst({ where: { id: bookId, userId: req.userId } });
+      if (!book) {
+        return res.status(404).json({ error: 'Book not found' });
+      }
+
+      if (!Buffer.isBuffer(req.body) || !detectImageType(req.body)) {
+        return res.status(400).json({ error: 'Cover must be a JPEG, PNG, GIF or WebP image' });
+      }
+
+      await storeUploadedCover(bookId, req.body);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof InvalidCoverError) {
+        return res.status(400).json({ error: 'Cover image could not be read' });
+      }
+      console.error('Failed to upload cover:', error);
+      res.status(500).json({ error: 'Failed to upload cover' });
+    }
+  }
+);
+
+export { router as coversRouter };
@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import { toStoryGraphCsv } from '../lib/storygraph.js';
+import { createBackup, backupToCsv } from '../lib/backup.js';
+
+const router = Router();
+
+/**
+ * GET /api/export?format=json|csv
+ * Download a full, versioned backup of the library (defaults to JSON)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const format = (req.query.format as string) || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ error: 'Format must be json or csv' });
+    }
+
+    const backup = await createBackup(req.userId);
+    const fileName = `library-backup-${backup.exportedAt.split('T')[0]}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      return res.send(backupToCsv(backup));
+    }
+    res.json(backup);
+  } catch (error) {
+    console.error('Failed to export library:', error);
+    res.status(500).json({ error: 'Failed to export library' });
+  }
+});
+
+/**
+ * GET /api/export/storygraph
+ * Download the library as a CSV StoryGraph can import
+ */
+router.get('/storygraph', async (req: Request, res: Response) => {
+  try {
+    const books = await prisma.book.findMany({
+      where: { userId: req.userId },
+      include: {
+        reviews: true,
+        sessions: { orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { dateAdded: 'asc' },
+    });
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="storygraph_export.csv"');
+    res.send(toStoryGraphCsv(books));
+  } catch (error) {
+    console.error('Failed to export StoryGraph CSV:', error);
+    res.status(500).json({ error: 'Failed to export StoryGraph CSV' });
+  }
+});
+
+export { router as exportRouter };
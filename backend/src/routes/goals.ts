@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../db.js';
+import { countFinishedInYear } from '../lib/reading-sessions.js';
 
 const router = Router();
 
@@ -12,27 +13,17 @@ router.get('/', async (req: Request, res: Response) => {
     const currentYear = new Date().getFullYear();
 
     let goal = await prisma.readingGoal.findUnique({
-      where: { year: currentYear },
+      where: { userId_year: { userId: req.userId, year: currentYear } },
     });
 
     // If no goal exists for current year, create a default one
     if (!goal) {
-      // Count books read this year
-      const startOfYear = new Date(currentYear, 0, 1);
-      const endOfYear = new Date(currentYear + 1, 0, 1);
-
-      const booksReadThisYear = await prisma.book.count({
-        where: {
-          status: 'read',
-          dateAdded: {
-            gte: startOfYear,
-            lt: endOfYear,
-          },
-        },
-      });
+      // Count books finished this year
+      const booksReadThisYear = await countFinishedInYear(req.userId, currentYear);
 
       goal = await prisma.readingGoal.create({
         data: {
+          userId: req.userId,
           year: currentYear,
           target: 24, // Default target
           current: booksReadThisYear,
@@ -65,9 +56,10 @@ router.put('/', async (req: Request, res: Response) => {
     }
 
     const goal = await prisma.readingGoal.upsert({
-      where: { year: goalYear },
+      where: { userId_year: { userId: req.userId, year: goalYear } },
       update: { target },
       create: {
+        userId: req.userId,
         year: goalYear,
         target,
         current: 0,
@@ -92,24 +84,15 @@ router.put('/', async (req: Request, res: Response) => {
 router.post('/sync', async (req: Request, res: Response) => {
   try {
     const currentYear = new Date().getFullYear();
-    const startOfYear = new Date(currentYear, 0, 1);
-    const endOfYear = new Date(currentYear + 1, 0, 1);
-
-    // Count books marked as read this year
-    const booksReadThisYear = await prisma.book.count({
-      where: {
-        status: 'read',
-        dateAdded: {
-          gte: startOfYear,
-          lt: endOfYear,
-        },
-      },
-    });
+
+    // Count books finished this year
+    const booksReadThisYear = await countFinishedInYear(req.userId, currentYear);
 
     const goal = await prisma.readingGoal.upsert({
-      where: { year: currentYear },
+      where: { userId_year: { userId: req.userId, year: currentYear } },
       update: { current: booksReadThisYear },
       create: {
+        userId: req.userId,
         year: currentYear,
         target: 24,
         current: booksReadThisYear,
@@ -0,0 +1,109 @@
+import express, { Router, Request, Response } from 'express';
+import { ReadingStatus } from '@prisma/client';
+import { parseGoodreadsCsv } from '../lib/goodreads.js';
+import { parseStoryGraphCsv } from '../lib/storygraph.js';
+import { parseKindleClippings } from '../lib/kindle.js';
+import { planImport, commitImport, describePlan } from '../lib/importer.js';
+import { ImportCandidate } from '../lib/import-candidates.js';
+import { parseBackup, backupFromCsv, restoreBackup } from '../lib/backup.js';
+
+const router = Router();
+
+// Library exports, clippings and backups are sent as raw text and can be several MB
+router.use(express.text({ type: ['text/csv', 'text/plain'], limit: '25mb' }));
+
+/**
+ * Accept the file either as a raw text body or as { csv } JSON
+ */
+function readFileBody(req: Request): string | null {
+  if (typeof req.body === 'string') return req.body;
+  if (req.body && typeof req.body.csv === 'string') return req.body.csv;
+  return null;
+}
+
+/**
+ * Build an import handler: parse, plan against the library (duplicates are
+ * matched by ISBN or normalized title + author), and only write when ?commit=true
+ */
+function importHandler(source: string, parse: (text: string, req: Request) => ImportCandidate[]) {
+  return async (req: Request, res: Response) => {
+    try {
+      const text = readFileBody(req);
+      if (!text || !text.trim()) {
+        return res.status(400).json({ error: 'File content is required' });
+      }
+
+      let candidates;
+      try {
+        candidates = parse(text, req);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid file' });
+      }
+
+      const plan = await planImport(req.userId, candidates);
+      const commit = req.query.commit === 'true';
+      if (commit) {
+        await commitImport(plan);
+      }
+
+      res.status(commit ? 201 : 200).json({ dryRun: !commit, ...describePlan(plan) });
+    } catch (error) {
+      console.error(`Failed to import ${source} library:`, error);
+      res.status(500).json({ error: `Failed to import ${source} library` });
+    }
+  };
+}
+
+/**
+ * POST /api/import/goodreads
+ * Import a Goodreads library export. Returns a dry-run diff unless ?commit=true.
+ */
+router.post('/goodreads', importHandler('Goodreads', parseGoodreadsCsv));
+
+/**
+ * POST /api/import/storygraph
+ * Import a StoryGraph library export. Returns a dry-run diff unless ?commit=true.
+ */
+router.post('/storygraph', importHandler('StoryGraph', parseStoryGraphCsv));
+
+// Clippings don't say whether a book was finished, so the reader picks
+const KINDLE_STATUSES: ReadingStatus[] = ['read', 'want_to_read'];
+
+/**
+ * POST /api/import/kindle-clippings?status=read|want_to_read
+ * Import highlights and notes from a Kindle "My Clippings.txt" as quotes.
+ * Clippings are matched to books by title + author; unknown books are added
+ * with `status` (default read). Quotes already saved are not added again.
+ * Returns a dry-run diff unless ?commit=true.
+ */
+router.post('/kindle-clippings', importHandler('Kindle', (text, req) => {
+  const status = (req.query.status as ReadingStatus | undefined) ?? 'read';
+  if (!KINDLE_STATUSES.includes(status)) {
+    throw new Error(`status must be one of: ${KINDLE_STATUSES.join(', ')}`);
+  }
+  return parseKindleClippings(text, status);
+}));
+
+/**
+ * POST /api/import/backup
+ * Restore a backup from GET /api/export (JSON body or CSV). Records are
+ * upserted by id, so restoring the same backup twice is safe.
+ */
+router.post('/backup', async (req: Request, res: Response) => {
+  try {
+    let backup;
+    try {
+      backup = parseBackup(typeof req.body === 'string' ? backupFromCsv(req.body) : req.body);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid backup' });
+    }
+
+    const restored = await restoreBackup(req.userId, backup);
+    res.status(201).json({ version: backup.version, restored });
+  } catch (error) {
+    console.error('Failed to restore backup:', error);
+    res.status(500).json({ error: 'Failed to restore backup' });
+  }
+});
+
+export { router as importRouter };
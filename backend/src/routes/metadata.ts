@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { searchMetadata, findMetadataByIsbn } from '../lib/metadata/index.js';
+import { normalizeIsbn } from '../lib/isbn.js';
+
+const router = Router();
+
+/**
+ * GET /api/metadata/search?q=
+ * Search the configured metadata providers by title, author or ISBN
+ */
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 40);
+    res.json(await searchMetadata(q, limit));
+  } catch (error) {
+    console.error('Failed to search book metadata:', error);
+    res.status(500).json({ error: 'Failed to search book metadata' });
+  }
+});
+
+/**
+ * GET /api/metadata/isbn/:isbn
+ * Look up a single book by ISBN
+ */
+router.get('/isbn/:isbn', async (req: Request, res: Response) => {
+  try {
+    const isbn = normalizeIsbn(req.params.isbn);
+    if (!isbn) {
+      return res.status(400).json({ error: 'A valid ISBN is required' });
+    }
+
+    const book = await findMetadataByIsbn(isbn);
+    if (!book) {
+      return res.status(404).json({ error: 'No book found for that ISBN' });
+    }
+
+    res.json(book);
+  } catch (error) {
+    console.error('Failed to look up ISBN:', error);
+    res.status(500).json({ error: 'Failed to look up ISBN' });
+  }
+});
+
+export { router as metadataRouter };
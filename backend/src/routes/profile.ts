@@ -1,8 +1,12 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma.js';
+import { defaultProfile } from '../lib/profiles.js';
 
 const router = Router();
 
+// Lowercase letters, digits and dashes, e.g. "ipshita-reads"
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$/;
+
 /**
  * GET /api/profile
  * Get the profile data
@@ -10,19 +14,13 @@ const router = Router();
 router.get('/', async (req: Request, res: Response) => {
   try {
     let profile = await prisma.profile.findUnique({
-      where: { id: 'default' },
+      where: { userId: req.userId },
     });
 
     // Create default profile if it doesn't exist
     if (!profile) {
       profile = await prisma.profile.create({
-        data: {
-          id: 'default',
-          name: 'Ipshita',
-          libraryName: "Ipshita's Library",
-          bio: "I measure my life in terms of the impact I create. I care deeply about freedom of speech – a freedom core to the pursuit of truth. Barack Obama and Alexei Navalny are my idols.",
-          avatar: '📚',
-        },
+        data: { userId: req.userId, ...defaultProfile() },
       });
     }
 
@@ -31,6 +29,7 @@ router.get('/', async (req: Request, res: Response) => {
       libraryName: profile.libraryName,
       bio: profile.bio,
       avatar: profile.avatar,
+      publicSlug: profile.publicSlug,
     });
   } catch (error) {
     console.error('Failed to fetch profile:', error);
@@ -46,20 +45,38 @@ router.put('/', async (req: Request, res: Response) => {
   try {
     const { name, libraryName, bio, avatar } = req.body;
 
+    // An empty slug turns the public page off
+    let publicSlug: string | null | undefined;
+    if (req.body.publicSlug !== undefined) {
+      publicSlug = typeof req.body.publicSlug === 'string' ? req.body.publicSlug.trim().toLowerCase() || null : null;
+      if (publicSlug && !SLUG_PATTERN.test(publicSlug)) {
+        return res.status(400).json({ error: 'Public link must be 3-40 lowercase letters, numbers or dashes' });
+      }
+      const taken = publicSlug && await prisma.profile.findFirst({
+        where: { publicSlug, NOT: { userId: req.userId } },
+      });
+      if (taken) {
+        return res.status(409).json({ error: 'That public link is already taken' });
+      }
+    }
+
     const profile = await prisma.profile.upsert({
-      where: { id: 'default' },
+      where: { userId: req.userId },
       update: {
         ...(name !== undefined && { name }),
         ...(libraryName !== undefined && { libraryName }),
         ...(bio !== undefined && { bio }),
         ...(avatar !== undefined && { avatar }),
+        ...(publicSlug !== undefined && { publicSlug }),
       },
       create: {
-        id: 'default',
-        name: name || 'Ipshita',
-        libraryName: libraryName || "Ipshita's Library",
+        userId: req.userId,
+        ...defaultProfile(),
+        ...(name && { name }),
+        ...(libraryName && { libraryName }),
         bio: bio || '',
-        avatar: avatar || '📚',
+        ...(avatar && { avatar }),
+        publicSlug,
       },
     });
 
@@ -68,6 +85,7 @@ router.put('/', async (req: Request, res: Response) => {
       libraryName: profile.libraryName,
       bio: profile.bio,
       avatar: profile.avatar,
+      publicSlug: profile.publicSlug,
     });
   } catch (error) {
     console.error('Failed to update profile:', error);
@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { bookCoverPath } from '../lib/covers.js';
+
+const router = Router();
+
+// Public pages only ever see public reviews and finish dates, never progress or notes
+const publicBookInclude = {
+  reviews: {
+    where: { isPublic: true },
+    orderBy: { dateAdded: 'desc' },
+  },
+  sessions: {
+    where: { finishedAt: { not: null } },
+    select: { finishedAt: true },
+  },
+  shelves: {
+    orderBy: { addedAt: 'asc' },
+    select: { shelfId: true },
+  },
+} satisfies Prisma.BookInclude;
+
+type PublicBook = Prisma.BookGetPayload<{ include: typeof publicBookInclude }>;
+
+/**
+ * Shape a public book for the API
+ */
+function transformPublicBook(book: PublicBook) {
+  const lastFinished = book.sessions
+    .map((s) => s.finishedAt)
+    .filter((d): d is Date => d !== null)
+    .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+  return {
+    id: book.id,
+    title: book.title,
+    author: book.author,
+    reviews: book.reviews.map((r) => ({
+      id: r.id,
+      content: r.content,
+      rating: r.rating,
+      dateAdded: r.dateAdded.toISOString().split('T')[0],
+    })),
+    tags: book.tags,
+    coverUrl: bookCoverPath(book),
+    dateAdded: book.dateAdded.toISOString().split('T')[0],
+    status: book.status,
+    totalPages: book.totalPages,
+    shelves: book.shelves.map((s) => s.shelfId),
+    description: book.description,
+    dateFinished: lastFinished ? lastFinished.toISOString().split('T')[0] : null,
+  };
+}
+
+/**
+ * Find the owner of a public page, or null if the slug isn't shared
+ */
+async function findPublicOwner(slug: string) {
+  const profile = await prisma.profile.findUnique({
+    where: { publicSlug: slug.toLowerCase() },
+  });
+  return profile?.userId ? { ...profile, userId: profile.userId } : null;
+}
+
+/**
+ * GET /api/public/:slug
+ * Public profile, reading goal and the shelves that hold public books
+ */
+router.get('/:slug', async (req: Request, res: Response) => {
+  try {
+    const owner = await findPublicOwner(req.params.slug);
+    if (!owner) {
+      return res.status(404).json({ error: 'Library not found' });
+    }
+
+    const currentYear = new Date().getFullYear();
+    const [goal, shelves] = await Promise.all([
+      prisma.readingGoal.findUnique({
+        where: { userId_year: { userId: owner.userId, year: currentYear } },
+      }),
+      prisma.shelf.findMany({
+        where: { userId: owner.userId, books: { some: { book: { isPublic: true } } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    res.json({
+      profile: {
+        name: owner.name,
+        libraryName: owner.libraryName,
+        bio: owner.bio,
+        avatar: owner.avatar,
+      },
+      readingGoal: goal ? { year: goal.year, target: goal.target, current: goal.current } : null,
+      shelves: shelves.map((shelf) => ({
+        id: shelf.id,
+        name: shelf.name,
+        createdAt: shelf.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to fetch public library:', error);
+    res.status(500).json({ error: 'Failed to fetch public library' });
+  }
+});
+
+/**
+ * GET /api/public/:slug/books
+ * Books the owner has made public, with their public reviews
+ */
+router.get('/:slug/books', async (req: Request, res: Response) => {
+  try {
+    const owner = await findPublicOwner(req.params.slug);
+    if (!owner) {
+      return res.status(404).json({ error: 'Library not found' });
+    }
+
+    const books = await prisma.book.findMany({
+      where: { userId: owner.userId, isPublic: true },
+      include: publicBookInclude,
+      orderBy: { dateAdded: 'desc' },
+    });
+
+    res.json(books.map(transformPublicBook));
+  } catch (error) {
+    console.error('Failed to fetch public books:', error);
+    res.status(500).json({ error: 'Failed to fetch public books' });
+  }
+});
+
+/**
+ * GET /api/public/:slug/books/:bookId
+ * A single public book
+ */
+router.get('/:slug/books/:bookId', async (req: Request, res: Response) => {
+  try {
+    const owner = await findPublicOwner(req.params.slug);
+    if (!owner) {
+      return res.status(404).json({ error: 'Library not found' });
+    }
+
+    const book = await prisma.book.findFirst({
+      where: { id: req.params.bookId, userId: owner.userId, isPublic: true },
+      include: publicBookInclude,
+    });
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    res.json(transformPublicBook(book));
+  } catch (error) {
+    console.error('Failed to fetch public book:', error);
+    res.status(500).json({ error: 'Failed to fetch public book' });
+  }
+});
+
+export { router as publicRouter };
@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { quoteOfTheDay, searchQuoteIds, transformQuote } from '../lib/quotes.js';
+
+const router = Router();
+
+const MAX_QUOTES = 200;
+
+const withBook = { book: { select: { id: true, title: true, author: true } } } satisfies Prisma.QuoteInclude;
+
+type QuoteWithBook = Prisma.QuoteGetPayload<{ include: typeof withBook }>;
+
+function transformQuoteWithBook(quote: QuoteWithBook) {
+  return { ...transformQuote(quote), book: quote.book };
+}
+
+/**
+ * GET /api/quotes?q=&tag=&limit=&offset=
+ * The commonplace book: quotes from every book, newest first, or best
+ * matches first when searching with `q`. `tag` narrows to one quote tag.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const tag = typeof req.query.tag === 'string' ? req.query.tag.trim() : '';
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_QUOTES);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const matchingIds = q ? await searchQuoteIds(req.userId, q) : null;
+    const where: Prisma.QuoteWhereInput = {
+      book: { userId: req.userId },
+      ...(tag && { tags: { has: tag } }),
+      ...(matchingIds && { id: { in: matchingIds } }),
+    };
+
+    const [quotes, total] = await Promise.all([
+      prisma.quote.findMany({
+        where,
+        include: withBook,
+        // Search results are ranked in memory below, so fetch them all
+        ...(matchingIds
+          ? {}
+          : { orderBy: { createdAt: 'desc' }, skip: offset, take: limit }),
+      }),
+      prisma.quote.count({ where }),
+    ]);
+
+    const page = matchingIds
+      ? quotes
+          .sort((a, b) => matchingIds.indexOf(a.id) - matchingIds.indexOf(b.id))
+          .slice(offset, offset + limit)
+      : quotes;
+
+    res.json({ quotes: page.map(transformQuoteWithBook), total });
+  } catch (error) {
+    console.error('Failed to fetch quotes:', error);
+    res.status(500).json({ error: 'Failed to fetch quotes' });
+  }
+});
+
+/**
+ * GET /api/quotes/daily
+ * Today's quote, or null before any quotes are saved
+ */
+router.get('/daily', async (req: Request, res: Response) => {
+  try {
+    const quote = await quoteOfTheDay(req.userId, new Date());
+    res.json(quote ? transformQuoteWithBook(quote) : null);
+  } catch (error) {
+    console.error('Failed to fetch quote of the day:', error);
+    res.status(500).json({ error: 'Failed to fetch quote of the day' });
+  }
+});
+
+export { router as quotesRouter };
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma.js';
+import { countFinishedInYear } from '../lib/reading-sessions.js';
 
 const router = Router();
 
@@ -12,24 +13,17 @@ router.get('/', async (req: Request, res: Response) => {
     const currentYear = new Date().getFullYear();
 
     let goal = await prisma.readingGoal.findUnique({
-      where: { year: currentYear },
+      where: { userId_year: { userId: req.userId, year: currentYear } },
     });
 
     // If no goal exists for current year, create a default one
     if (!goal) {
-      // Count books read this year
-      const booksReadThisYear = await prisma.book.count({
-        where: {
-          status: 'read',
-          dateAdded: {
-            gte: new Date(`${currentYear}-01-01`),
-            lt: new Date(`${currentYear + 1}-01-01`),
-          },
-        },
-      });
+      // Count books finished this year
+      const booksReadThisYear = await countFinishedInYear(req.userId, currentYear);
 
       goal = await prisma.readingGoal.create({
         data: {
+          userId: req.userId,
           year: currentYear,
           target: 24, // Default target
           current: booksReadThisYear,
@@ -61,21 +55,13 @@ router.put('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Valid target number is required' });
     }
 
-    // Get current count of books read this year
-    const booksReadThisYear = await prisma.book.count({
-      where: {
-        status: 'read',
-        dateAdded: {
-          gte: new Date(`${currentYear}-01-01`),
-          lt: new Date(`${currentYear + 1}-01-01`),
-        },
-      },
-    });
+    // Get current count of books finished this year
+    const booksReadThisYear = await countFinishedInYear(req.userId, currentYear);
 
     const goal = await prisma.readingGoal.upsert({
-      where: { year: currentYear },
+      where: { userId_year: { userId: req.userId, year: currentYear } },
       update: { target, current: booksReadThisYear },
-      create: { year: currentYear, target, current: booksReadThisYear },
+      create: { userId: req.userId, year: currentYear, target, current: booksReadThisYear },
     });
 
     res.json({
@@ -91,21 +77,19 @@ router.put('/', async (req: Request, res: Response) => {
 
 /**
  * POST /api/reading-goal/sync
- * Sync the reading goal count with actual books read
+ * Sync the reading goal count with books finished this year
  */
 router.post('/sync', async (req: Request, res: Response) => {
   try {
     const currentYear = new Date().getFullYear();
 
-    // Count all books marked as read
-    const totalBooksRead = await prisma.book.count({
-      where: { status: 'read' },
-    });
+    // Count books finished this year
+    const booksReadThisYear = await countFinishedInYear(req.userId, currentYear);
 
     const goal = await prisma.readingGoal.upsert({
-      where: { year: currentYear },
-      update: { current: totalBooksRead },
-      create: { year: currentYear, target: 24, current: totalBooksRead },
+      where: { userId_year: { userId: req.userId, year: currentYear } },
+      update: { current: booksReadThisYear },
+      create: { userId: req.userId, year: currentYear, target: 24, current: booksReadThisYear },
     });
 
     res.json({
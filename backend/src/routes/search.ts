@@ -0,0 +1,28 @@
+import { Router, Request, Response } from 'express';
+import { searchLibrary } from '../lib/search.js';
+
+const router = Router();
+
+const MAX_RESULTS_PER_TYPE = 20;
+
+/**
+ * GET /api/search?q=
+ * Full-text search across book descriptions, reviews and article text.
+ * Returns ranked hits grouped by type, with highlighted snippets.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 8, 1), MAX_RESULTS_PER_TYPE);
+    res.json(await searchLibrary(req.userId, q, limit));
+  } catch (error) {
+    console.error('Failed to search library:', error);
+    res.status(500).json({ error: 'Failed to search library' });
+  }
+});
+
+export { router as searchRouter };
@@ -0,0 +1,137 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import { bookCoverPath } from '../lib/covers.js';
+import { detectSeriesFromTitles } from '../lib/series.js';
+
+const router = Router();
+
+/**
+ * GET /api/series
+ * List the user's series with how many of their books have been read
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const series = await prisma.series.findMany({
+      where: { userId: req.userId, books: { some: {} } },
+      include: { books: { select: { status: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(series.map((s) => ({
+      id: s.id,
+      name: s.name,
+      bookCount: s.books.length,
+      readCount: s.books.filter((book) => book.status === 'read').length,
+    })));
+  } catch (error) {
+    console.error('Failed to fetch series:', error);
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
+
+/**
+ * POST /api/series/detect
+ * Move books whose titles carry a series marker, like "(The Expanse, #1)",
+ * into that series
+ */
+router.post('/detect', async (req: Request, res: Response) => {
+  try {
+    const moved = await detectSeriesFromTitles(req.userId);
+    res.json({ moved });
+  } catch (error) {
+    console.error('Failed to detect series:', error);
+    res.status(500).json({ error: 'Failed to detect series' });
+  }
+});
+
+/**
+ * GET /api/series/:id
+ * A series' books in reading order; books without a position come last
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const series = await prisma.series.findFirst({
+      where: { id: req.params.id, userId: req.userId },
+      include: {
+        books: {
+          orderBy: [{ seriesPosition: { sort: 'asc', nulls: 'last' } }, { dateAdded: 'asc' }],
+        },
+      },
+    });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    res.json({
+      id: series.id,
+      name: series.name,
+      books: series.books.map((book) => ({
+        id: book.id,
+        title: book.title,
+        author: book.author,
+        coverUrl: bookCoverPath(book),
+        status: book.status,
+        position: book.seriesPosition,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to fetch series:', error);
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
+
+/**
+ * PUT /api/series/:id
+ * Rename a series
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'Series name cannot be empty' });
+    }
+
+    const existing = await prisma.series.findFirst({ where: { id: req.params.id, userId: req.userId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    // Check if another series has the same name
+    const duplicate = await prisma.series.findFirst({
+      where: { userId: req.userId, name, NOT: { id: existing.id } },
+    });
+    if (duplicate) {
+      return res.status(409).json({ error: 'A series with this name already exists' });
+    }
+
+    const series = await prisma.series.update({ where: { id: existing.id }, data: { name } });
+    res.json({ id: series.id, name: series.name });
+  } catch (error) {
+    console.error('Failed to rename series:', error);
+    res.status(500).json({ error: 'Failed to rename series' });
+  }
+});
+
+/**
+ * DELETE /api/series/:id
+ * Delete a series; its books stay in the library
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.series.findFirst({ where: { id: req.params.id, userId: req.userId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    await prisma.$transaction([
+      prisma.book.updateMany({ where: { seriesId: existing.id }, data: { seriesPosition: null } }),
+      prisma.series.delete({ where: { id: existing.id } }),
+    ]);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete series:', error);
+    res.status(500).json({ error: 'Failed to delete series' });
+  }
+});
+
+export { router as seriesRouter };
@@ -1,29 +1,36 @@
 import { Router, Request, Response } from 'express';
+import { Prisma, Shelf } from '@prisma/client';
 import prisma from '../lib/prisma.js';
+import { countShelfBooks } from '../lib/smart-shelves.js';
+import { parseShelfRule, shelfRule } from '../lib/shelf-rules.js';
 
 const router = Router();
 
+/**
+ * Shape a shelf for the API, with a live book count
+ */
+async function transformShelf(userId: string, shelf: Shelf) {
+  return {
+    id: shelf.id,
+    name: shelf.name,
+    rule: shelfRule(shelf),
+    createdAt: shelf.createdAt.toISOString(),
+    bookCount: await countShelfBooks(userId, shelf),
+  };
+}
+
 /**
  * GET /api/shelves
- * List all custom shelves
+ * List the user's custom and smart shelves; smart shelf counts are evaluated now
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
     const shelves = await prisma.shelf.findMany({
+      where: { userId: req.userId },
       orderBy: { createdAt: 'asc' },
-      include: {
-        _count: {
-          select: { books: true },
-        },
-      },
     });
 
-    const transformed = shelves.map((shelf) => ({
-      id: shelf.id,
-      name: shelf.name,
-      createdAt: shelf.createdAt.toISOString(),
-      bookCount: shelf._count.books,
-    }));
+    const transformed = await Promise.all(shelves.map((shelf) => transformShelf(req.userId, shelf)));
 
     res.json(transformed);
   } catch (error) {
@@ -34,7 +41,7 @@ router.get('/', async (req: Request, res: Response) => {
 
 /**
  * POST /api/shelves
- * Create a new shelf
+ * Create a new shelf; passing a `rule` makes it a smart shelf
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
@@ -44,24 +51,28 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Shelf name is required' });
     }
 
+    const parsedRule = req.body.rule != null ? parseShelfRule(req.body.rule) : null;
+    if (parsedRule && 'error' in parsedRule) {
+      return res.status(400).json({ error: parsedRule.error });
+    }
+
     // Check if shelf with same name exists
     const existing = await prisma.shelf.findUnique({
-      where: { name: name.trim() },
+      where: { userId_name: { userId: req.userId, name: name.trim() } },
     });
     if (existing) {
       return res.status(409).json({ error: 'A shelf with this name already exists' });
     }
 
     const shelf = await prisma.shelf.create({
-      data: { name: name.trim() },
+      data: {
+        name: name.trim(),
+        rule: parsedRule ? (parsedRule.rule as Prisma.InputJsonObject) : Prisma.DbNull,
+        userId: req.userId,
+      },
     });
 
-    res.status(201).json({
-      id: shelf.id,
-      name: shelf.name,
-      createdAt: shelf.createdAt.toISOString(),
-      bookCount: 0,
-    });
+    res.status(201).json(await transformShelf(req.userId, shelf));
   } catch (error) {
     console.error('Failed to create shelf:', error);
     res.status(500).json({ error: 'Failed to create shelf' });
@@ -70,7 +81,7 @@ router.post('/', async (req: Request, res: Response) => {
 
 /**
  * PUT /api/shelves/:id
- * Update a shelf
+ * Rename a shelf, or change a smart shelf's rule
  */
 router.put('/:id', async (req: Request, res: Response) => {
   try {
@@ -82,14 +93,27 @@ router.put('/:id', async (req: Request, res: Response) => {
     }
 
     // Check if shelf exists
-    const existing = await prisma.shelf.findUnique({ where: { id } });
+    const existing = await prisma.shelf.findFirst({ where: { id, userId: req.userId } });
     if (!existing) {
       return res.status(404).json({ error: 'Shelf not found' });
     }
 
+    // A regular shelf's books were put there by hand, so it can't turn into a smart one
+    let rule: Prisma.InputJsonObject | undefined;
+    if (req.body.rule !== undefined) {
+      if (!shelfRule(existing)) {
+        return res.status(400).json({ error: 'Only smart shelves have rules' });
+      }
+      const parsedRule = parseShelfRule(req.body.rule);
+      if ('error' in parsedRule) {
+        return res.status(400).json({ error: parsedRule.error });
+      }
+      rule = parsedRule.rule as Prisma.InputJsonObject;
+    }
+
     // Check if another shelf has the same name
     const duplicate = await prisma.shelf.findFirst({
-      where: { name: name.trim(), NOT: { id } },
+      where: { userId: req.userId, name: name.trim(), NOT: { id } },
     });
     if (duplicate) {
       return res.status(409).json({ error: 'A shelf with this name already exists' });
@@ -97,20 +121,10 @@ router.put('/:id', async (req: Request, res: Response) => {
 
     const shelf = await prisma.shelf.update({
       where: { id },
-      data: { name: name.trim() },
-      include: {
-        _count: {
-          select: { books: true },
-        },
-      },
+      data: { name: name.trim(), ...(rule && { rule }) },
     });
 
-    res.json({
-      id: shelf.id,
-      name: shelf.name,
-      createdAt: shelf.createdAt.toISOString(),
-      bookCount: shelf._count.books,
-    });
+    res.json(await transformShelf(req.userId, shelf));
   } catch (error) {
     console.error('Failed to update shelf:', error);
     res.status(500).json({ error: 'Failed to update shelf' });
@@ -126,12 +140,12 @@ router.delete('/:id', async (req: Request, res: Response) => {
     const { id } = req.params;
 
     // Check if shelf exists
-    const existing = await prisma.shelf.findUnique({ where: { id } });
+    const existing = await prisma.shelf.findFirst({ where: { id, userId: req.userId } });
     if (!existing) {
       return res.status(404).json({ error: 'Shelf not found' });
     }
 
-    // Delete shelf (books will have shelfId set to null due to onDelete: SetNull)
+    // Delete shelf (its BookShelf rows cascade; the books stay)
     await prisma.shelf.delete({ where: { id } });
     res.status(204).send();
   } catch (error) {
@@ -140,4 +154,52 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/shelves/:id/order
+ * Reorder a shelf. `bookIds` lists the shelf's books in their new order;
+ * books on the shelf but not listed keep their relative order after them.
+ */
+router.put('/:id/order', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { bookIds } = req.body;
+
+    if (!Array.isArray(bookIds) || !bookIds.every((bookId) => typeof bookId === 'string')) {
+      return res.status(400).json({ error: 'bookIds must be an array of book ids' });
+    }
+
+    const existing = await prisma.shelf.findFirst({ where: { id, userId: req.userId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Shelf not found' });
+    }
+    if (shelfRule(existing)) {
+      return res.status(400).json({ error: 'Smart shelves are ordered by the book list' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const entries = await tx.bookShelf.findMany({
+        where: { shelfId: id },
+        orderBy: [{ position: 'asc' }, { addedAt: 'asc' }],
+        select: { bookId: true },
+      });
+      const onShelf = new Set(entries.map((entry) => entry.bookId));
+      const listed = [...new Set(bookIds as string[])].filter((bookId) => onShelf.has(bookId));
+      const rest = entries.map((entry) => entry.bookId).filter((bookId) => !listed.includes(bookId));
+
+      const order = [...listed, ...rest];
+      for (let position = 0; position < order.length; position++) {
+        await tx.bookShelf.update({
+          where: { bookId_shelfId: { bookId: order[position], shelfId: id } },
+          data: { position },
+        });
+      }
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to reorder shelf:', error);
+    res.status(500).json({ error: 'Failed to reorder shelf' });
+  }
+});
+
 export { router as shelvesRouter };
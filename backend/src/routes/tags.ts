@@ -0,0 +1,99 @@
+import { Router, Request, Response } from 'express';
+import { editTag, listTags, mergeTags, parseTagColor, tagExists } from '../lib/tags.js';
+
+const router = Router();
+
+/**
+ * GET /api/tags
+ * List the user's tags with book counts, colors and parents
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json(await listTags(req.userId));
+  } catch (error) {
+    console.error('Failed to fetch tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+/**
+ * PUT /api/tags/:name
+ * Rename a tag across every book, and/or set its color or parent.
+ * Body: { name?, color?: "#rrggbb" | null, parent?: string | null }
+ */
+router.put('/:name', async (req: Request, res: Response) => {
+  try {
+    const current = req.params.name;
+    const { name, parent } = req.body;
+
+    if (!(await tagExists(req.userId, current))) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    const newName = typeof name === 'string' ? name.trim() : undefined;
+    if (name !== undefined && !newName) {
+      return res.status(400).json({ error: 'Tag name is required' });
+    }
+    if (parent !== undefined && parent !== null && (typeof parent !== 'string' || !parent.trim())) {
+      return res.status(400).json({ error: 'parent must be a tag name or null' });
+    }
+    const parsedColor = req.body.color !== undefined ? parseTagColor(req.body.color) : undefined;
+    if (parsedColor && 'error' in parsedColor) {
+      return res.status(400).json({ error: parsedColor.error });
+    }
+
+    const tagName = newName ?? current;
+    if (tagName !== current && await tagExists(req.userId, tagName)) {
+      return res.status(409).json({ error: `A tag named "${tagName}" already exists; merge them instead` });
+    }
+    const parentName = typeof parent === 'string' ? parent.trim() : null;
+    if (parent !== undefined && parentName === tagName) {
+      return res.status(400).json({ error: 'A tag can\'t be its own parent' });
+    }
+
+    const edited = await editTag(req.userId, current, {
+      name: tagName,
+      color: parsedColor?.color,
+      parent: parent === undefined ? undefined : parentName,
+    });
+    if ('error' in edited) {
+      return res.status(400).json({ error: edited.error });
+    }
+    const { booksUpdated } = edited;
+
+    const tags = await listTags(req.userId);
+    res.json({ tag: tags.find((tag) => tag.name === tagName), booksUpdated });
+  } catch (error) {
+    console.error('Failed to update tag:', error);
+    res.status(500).json({ error: 'Failed to update tag' });
+  }
+});
+
+/**
+ * POST /api/tags/merge
+ * Fold tags into one, rewriting every book in a single transaction.
+ * Body: { tags: string[], into: string }
+ */
+router.post('/merge', async (req: Request, res: Response) => {
+  try {
+    const { tags, into } = req.body;
+
+    if (!Array.isArray(tags) || tags.length === 0 || !tags.every((tag) => typeof tag === 'string')) {
+      return res.status(400).json({ error: 'tags must be a non-empty list of tag names' });
+    }
+    const target = typeof into === 'string' ? into.trim() : '';
+    if (!target) {
+      return res.status(400).json({ error: 'A tag to merge into is required' });
+    }
+
+    const booksUpdated = await mergeTags(req.userId, [...new Set(tags as string[])], target);
+
+    const allTags = await listTags(req.userId);
+    res.json({ tag: allTags.find((tag) => tag.name === target), booksUpdated });
+  } catch (error) {
+    console.error('Failed to merge tags:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+});
+
+export { router as tagsRouter };
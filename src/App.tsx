@@ -1,4 +1,5 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { CheckSquare } from 'lucide-react';
 import { Layout, AppMode } from './components/Layout';
 import { Profile } from './components/Profile';
 import { BookGrid } from './components/BookGrid';
@@ -8,7 +9,15 @@ import { SearchFilterBar } from './components/SearchFilterBar';
 import { ReadingStats } from './components/ReadingStats';
 import { RecommendationsPanel } from './components/RecommendationsPanel';
 import { ArticleReader } from './components/ArticleReader';
-import { Book, BookFormData, ReviewFormData, ReadingStatus, Shelf, ReadingGoal, getAverageRating } from './types/book';
+import { ImportLibraryModal } from './components/ImportLibraryModal';
+import { BulkActionBar } from './components/BulkActionBar';
+import { TagManager } from './components/TagManager';
+import { DuplicatesModal } from './components/DuplicatesModal';
+import { AuthorModal } from './components/AuthorModal';
+import { SeriesModal } from './components/SeriesModal';
+import { CommonplaceModal } from './components/CommonplaceModal';
+import { AuthScreen } from './components/AuthScreen';
+import { Book, BookFormData, ReviewFormData, ReadingStatus, Shelf, ShelfRule, TagInfo, ReadingGoal, LibraryStats, getBookLength } from './types/book';
 import { defaultShelves } from './data/initialBooks';
 import * as api from './services/api';
 
@@ -20,9 +29,16 @@ export type SortDirection = 'asc' | 'desc';
  * A cozy personal book tracking application
  */
 function App() {
+  // Auth state
+  const [user, setUser] = useState<api.AuthUser | null>(null);
+  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+
   // Data state
-  const [books, setBooks] = useState<Book[]>([]);
+  const [libraryStats, setLibraryStats] = useState<LibraryStats | null>(null);
+  // Bumped whenever books change, so the counts worked out on the server are fetched again
+  const [libraryVersion, setLibraryVersion] = useState(0);
   const [customShelves, setCustomShelves] = useState<Shelf[]>([]);
+  const [tags, setTags] = useState<TagInfo[]>([]);
   const [readingGoal, setReadingGoal] = useState<ReadingGoal>({
     year: new Date().getFullYear(),
     target: 24,
@@ -37,7 +53,18 @@ function App() {
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isAddFormOpen, setIsAddFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [openAuthorId, setOpenAuthorId] = useState<string | null>(null);
+  const [seriesView, setSeriesView] = useState<{ seriesId: string | null } | null>(null);
+  const [isQuotesOpen, setIsQuotesOpen] = useState(false);
   const [appMode, setAppMode] = useState<AppMode>('books');
+  const [openArticleId, setOpenArticleId] = useState<string | null>(null);
+
+  // Multi-select for bulk actions
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedBookIds, setSelectedBookIds] = useState<Set<string>>(new Set());
   
   // Filter/Sort state
   const [searchQuery, setSearchQuery] = useState('');
@@ -46,25 +73,50 @@ function App() {
   const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<SortOption>('dateAdded');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [ratingMin, setRatingMin] = useState(0);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  // Server-side page of books for the grid
+  const [pagedBooks, setPagedBooks] = useState<Book[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [matchingCount, setMatchingCount] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [queryVersion, setQueryVersion] = useState(0);
+  const latestQuery = useRef(0);
+
+  // Pick up an existing session
+  useEffect(() => {
+    api.fetchCurrentUser()
+      .then(setUser)
+      .catch(err => {
+        console.error('Failed to check session:', err);
+        setError(err instanceof Error ? err.message : 'Failed to check session');
+      })
+      .finally(() => setIsCheckingAuth(false));
+  }, []);
 
-  // Load initial data from API
+  // Load the signed-in user's data from API
   useEffect(() => {
+    if (!user) return;
+
     async function loadData() {
       try {
         setIsLoading(true);
         setError(null);
 
-        const [booksData, shelvesData, goalData] = await Promise.all([
-          api.fetchBooks(),
+        const [statsData, shelvesData, goalData] = await Promise.all([
+          api.fetchLibraryStats(),
           api.fetchShelves(),
           api.fetchReadingGoal(),
         ]);
 
-        setBooks(booksData);
+        setLibraryStats(statsData);
         setCustomShelves(shelvesData.map(s => ({
           id: s.id,
           name: s.name,
           createdAt: s.createdAt,
+          rule: s.rule,
+          bookCount: s.bookCount,
         })));
         setReadingGoal(goalData);
       } catch (err) {
@@ -76,97 +128,190 @@ function App() {
     }
 
     loadData();
-  }, []);
+  }, [user]);
+
+  // Every tag name, for suggestions
+  const allTags = useMemo(() => tags.map(tag => tag.name), [tags]);
 
-  // All unique tags from books
-  const allTags = useMemo(() => {
-    const tags = new Set<string>();
-    books.forEach(book => book.tags.forEach(tag => tags.add(tag)));
-    return Array.from(tags).sort();
-  }, [books]);
+  // Tag settings and counts live on the server; counts move whenever books do
+  useEffect(() => {
+    if (!user) return;
+    api.fetchTags()
+      .then(setTags)
+      .catch(err => console.error('Failed to load tags:', err));
+  }, [user, libraryVersion]);
+
+  // Stats and shelf counts too; the first load already has them
+  useEffect(() => {
+    if (libraryVersion === 0) return;
+    Promise.all([api.fetchLibraryStats(), api.fetchShelves()])
+      .then(([statsData, shelvesData]) => {
+        setLibraryStats(statsData);
+        const counts = new Map(shelvesData.map(s => [s.id, s.bookCount]));
+        setCustomShelves(prev => prev.map(s => ({ ...s, bookCount: counts.get(s.id) ?? s.bookCount })));
+      })
+      .catch(err => console.error('Failed to refresh library stats:', err));
+  }, [libraryVersion]);
 
   // All shelves (default + custom)
   const allShelves = useMemo(() => {
     return [...defaultShelves, ...customShelves];
   }, [customShelves]);
 
-  // Filtered and sorted books
-  const filteredBooks = useMemo(() => {
-    let result = [...books];
-
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(book =>
-        book.title.toLowerCase().includes(query) ||
-        book.author.toLowerCase().includes(query) ||
-        book.tags.some(tag => tag.toLowerCase().includes(query))
-      );
+  // Wait for typing to settle before querying the server
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const bookQuery = useMemo<api.BookQuery>(() => ({
+    q: debouncedSearch || undefined,
+    status: statusFilter !== 'all' ? statusFilter : undefined,
+    shelf: shelfFilter !== 'all' ? shelfFilter : undefined,
+    tag: tagFilter || undefined,
+    ratingMin: ratingMin || undefined,
+    sort: sortBy,
+    direction: sortDirection,
+  }), [debouncedSearch, statusFilter, shelfFilter, tagFilter, ratingMin, sortBy, sortDirection]);
+
+  // Load the first page whenever the query changes
+  useEffect(() => {
+    if (!user) return;
+
+    const queryId = ++latestQuery.current;
+    api.searchBooks(bookQuery)
+      .then(page => {
+        // A newer query may have finished first
+        if (queryId !== latestQuery.current) return;
+        setPagedBooks(page.books);
+        setNextCursor(page.nextCursor);
+        setMatchingCount(page.total);
+      })
+      .catch(err => console.error('Failed to search books:', err));
+  }, [user, bookQuery, queryVersion]);
+
+  // Append the next page for infinite scroll
+  const handleLoadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const queryId = latestQuery.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await api.searchBooks({ ...bookQuery, cursor: nextCursor });
+      if (queryId !== latestQuery.current) return;
+      setPagedBooks(prev => [...prev, ...page.books.filter(book => !prev.some(b => b.id === book.id))]);
+      setNextCursor(page.nextCursor);
+      setMatchingCount(page.total);
+    } catch (err) {
+      console.error('Failed to load more books:', err);
+    } finally {
+      setIsLoadingMore(false);
     }
+  }, [bookQuery, nextCursor, isLoadingMore]);
 
-    // Status filter
-    if (statusFilter !== 'all') {
-      result = result.filter(book => book.status === statusFilter);
-    }
+  // Apply a change to the loaded page, and refresh the library's counts
+  const updateBookLists = useCallback((update: (books: Book[]) => Book[]) => {
+    setPagedBooks(update);
+    setLibraryVersion(v => v + 1);
+  }, []);
 
-    // Shelf filter (for custom shelves)
-    if (shelfFilter !== 'all' && !['want_to_read', 'reading', 'read'].includes(shelfFilter)) {
-      result = result.filter(book => book.shelf === shelfFilter);
-    } else if (['want_to_read', 'reading', 'read'].includes(shelfFilter)) {
-      result = result.filter(book => book.status === shelfFilter);
+  // Stats
+  const stats = useMemo(() => ({
+    read: libraryStats?.byStatus.read ?? 0,
+    reading: libraryStats?.byStatus.reading ?? 0,
+    wantToRead: libraryStats?.byStatus.want_to_read ?? 0,
+    avgRating: libraryStats?.avgRating ?? 0,
+    totalPages: libraryStats?.totalPages ?? 0,
+    readThisYear: readingGoal.current,
+  }), [libraryStats, readingGoal]);
+
+  const statusCounts = useMemo(() => ({
+    all: libraryStats?.total ?? 0,
+    want_to_read: libraryStats?.byStatus.want_to_read ?? 0,
+    reading: libraryStats?.byStatus.reading ?? 0,
+    read: libraryStats?.byStatus.read ?? 0,
+  }), [libraryStats]);
+
+  // Handle clicking on a book card to view the review, or to (de)select it
+  const handleBookClick = (book: Book) => {
+    if (isSelecting) {
+      setSelectedBookIds(prev => {
+        const next = new Set(prev);
+        if (!next.delete(book.id)) next.add(book.id);
+        return next;
+      });
+      return;
     }
+    setSelectedBook(book);
+    setIsModalOpen(true);
+  };
 
-    // Tag filter
-    if (tagFilter) {
-      result = result.filter(book => book.tags.includes(tagFilter));
+  const handleStopSelecting = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedBookIds(new Set());
+  }, []);
+
+  // Run a bulk action, then reload what it may have touched (sessions, shelves, goal)
+  const handleBulkAction = useCallback(async (action: api.BulkAction) => {
+    const report = await api.bulkUpdateBooks([...selectedBookIds], action);
+    if (action.action === 'delete') {
+      setSelectedBookIds(new Set());
     }
+    setLibraryVersion(v => v + 1);
+    setQueryVersion(v => v + 1);
+    try {
+      setReadingGoal(await api.syncReadingGoal());
+    } catch (err) {
+      console.error('Failed to sync reading goal after bulk update:', err);
+    }
+    return report;
+  }, [selectedBookIds]);
+
+  // Reload after a tag change; renames and merges rewrite books, so the filter follows them.
+  // Re-parenting moves counts between top-level genres, so the stats are reloaded either way.
+  const handleTagsChanged = useCallback((moved: { from: string[]; to: string } | null) => {
+    if (moved) {
+      setTagFilter(prev => prev && moved.from.includes(prev) ? moved.to : prev);
+      setQueryVersion(v => v + 1);
+    }
+    setLibraryVersion(v => v + 1);
+  }, []);
 
-    // Sorting
-    result.sort((a, b) => {
-      let comparison = 0;
-      switch (sortBy) {
-        case 'dateAdded':
-          comparison = new Date(a.dateAdded).getTime() - new Date(b.dateAdded).getTime();
-          break;
-        case 'rating':
-          comparison = getAverageRating(a) - getAverageRating(b);
-          break;
-        case 'title':
-          comparison = a.title.localeCompare(b.title);
-          break;
-        case 'author':
-          comparison = a.author.localeCompare(b.author);
-          break;
-      }
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
+  // Merging moves reviews and sessions between books, so reload them, the counts and the goal
+  const handleBooksMerged = useCallback(async () => {
+    setLibraryVersion(v => v + 1);
+    setQueryVersion(v => v + 1);
+    try {
+      setReadingGoal(await api.syncReadingGoal());
+    } catch (err) {
+      console.error('Failed to sync reading goal after merge:', err);
+    }
+  }, []);
 
-    return result;
-  }, [books, searchQuery, statusFilter, shelfFilter, tagFilter, sortBy, sortDirection]);
+  // Finding series in titles retitles books, and renames show on every card
+  const handleSeriesChanged = useCallback(() => {
+    setQueryVersion(v => v + 1);
+  }, []);
 
-  // Stats
-  const stats = useMemo(() => {
-    const read = books.filter(b => b.status === 'read').length;
-    const reading = books.filter(b => b.status === 'reading').length;
-    const wantToRead = books.filter(b => b.status === 'want_to_read').length;
-    
-    const readBooks = books.filter(b => b.status === 'read' && b.reviews && b.reviews.length > 0);
-    const avgRating = readBooks.length > 0
-      ? readBooks.reduce((sum, b) => sum + getAverageRating(b), 0) / readBooks.length
-      : 0;
-    
-    const totalPages = books
-      .filter(b => b.status === 'read' && b.totalPages)
-      .reduce((sum, b) => sum + (b.totalPages || 0), 0);
+  // Open a book picked from global search, even if it isn't in the loaded page
+  const handleOpenBook = useCallback(async (bookId: string) => {
+    try {
+      const book = await api.fetchBook(bookId);
+      setAppMode('books');
+      setSelectedBook(book);
+      setIsModalOpen(true);
+    } catch (err) {
+      console.error('Failed to open book:', err);
+    }
+  }, []);
 
-    return { read, reading, wantToRead, avgRating, totalPages };
-  }, [books]);
+  // Open an article picked from global search
+  const handleOpenArticle = useCallback((articleId: string) => {
+    setAppMode('articles');
+    setOpenArticleId(articleId);
+  }, []);
 
-  // Handle clicking on a book card to view the review
-  const handleBookClick = (book: Book) => {
-    setSelectedBook(book);
-    setIsModalOpen(true);
-  };
+  const handleArticleOpened = useCallback(() => setOpenArticleId(null), []);
 
   // Handle closing the review modal
   const handleCloseModal = () => {
@@ -177,8 +322,10 @@ function App() {
   // Handle adding a new book from the form
   const handleAddBook = useCallback(async (formData: BookFormData) => {
     try {
-      const newBook = await api.createBook(formData);
-      setBooks(prev => [newBook, ...prev]);
+      await api.createBook(formData);
+      // Let the server decide where it lands in the grid
+      setLibraryVersion(v => v + 1);
+      setQueryVersion(v => v + 1);
       
       // Sync reading goal if the book is marked as read
       if (formData.status === 'read') {
@@ -195,7 +342,7 @@ function App() {
   const handleEditBook = useCallback(async (bookId: string, updates: Partial<Book>) => {
     try {
       const updatedBook = await api.updateBook(bookId, updates);
-      setBooks(prev => prev.map(book => 
+      updateBookLists(prev => prev.map(book => 
         book.id === bookId ? updatedBook : book
       ));
       // Update selected book if it's the one being edited
@@ -212,13 +359,14 @@ function App() {
       console.error('Failed to update book:', err);
       throw err;
     }
-  }, [selectedBook?.id]);
+  }, [selectedBook?.id, updateBookLists]);
 
   // Handle deleting a book
   const handleDeleteBook = useCallback(async (bookId: string) => {
     try {
       await api.deleteBook(bookId);
-      setBooks(prev => prev.filter(book => book.id !== bookId));
+      updateBookLists(prev => prev.filter(book => book.id !== bookId));
+      setMatchingCount(count => Math.max(0, count - 1));
       handleCloseModal();
       
       // Sync reading goal
@@ -228,14 +376,14 @@ function App() {
       console.error('Failed to delete book:', err);
       throw err;
     }
-  }, []);
+  }, [updateBookLists]);
 
   // Handle adding a review to a book
   const handleAddReview = useCallback(async (bookId: string, reviewData: ReviewFormData) => {
     try {
       const newReview = await api.addReview(bookId, reviewData);
       
-      setBooks(prev => prev.map(book => 
+      updateBookLists(prev => prev.map(book => 
         book.id === bookId 
           ? { ...book, reviews: [...book.reviews, newReview] }
           : book
@@ -252,14 +400,14 @@ function App() {
       console.error('Failed to add review:', err);
       throw err;
     }
-  }, [selectedBook?.id]);
+  }, [selectedBook?.id, updateBookLists]);
 
   // Handle editing a review
   const handleEditReview = useCallback(async (bookId: string, reviewId: string, updates: Partial<ReviewFormData>) => {
     try {
       const updatedReview = await api.updateReview(bookId, reviewId, updates);
       
-      setBooks(prev => prev.map(book => {
+      updateBookLists(prev => prev.map(book => {
         if (book.id !== bookId) return book;
         return {
           ...book,
@@ -285,14 +433,14 @@ function App() {
       console.error('Failed to update review:', err);
       throw err;
     }
-  }, [selectedBook?.id]);
+  }, [selectedBook?.id, updateBookLists]);
 
   // Handle deleting a review
   const handleDeleteReview = useCallback(async (bookId: string, reviewId: string) => {
     try {
       await api.deleteReview(bookId, reviewId);
       
-      setBooks(prev => prev.map(book => {
+      updateBookLists(prev => prev.map(book => {
         if (book.id !== bookId) return book;
         return {
           ...book,
@@ -314,7 +462,7 @@ function App() {
       console.error('Failed to delete review:', err);
       throw err;
     }
-  }, [selectedBook?.id]);
+  }, [selectedBook?.id, updateBookLists]);
 
   // Handle updating reading progress
   const handleUpdateProgress = useCallback(async (bookId: string, progress: number) => {
@@ -323,12 +471,13 @@ function App() {
 
   // Handle changing reading status
   const handleChangeStatus = useCallback(async (bookId: string, status: ReadingStatus) => {
-    const book = books.find(b => b.id === bookId);
+    const book = selectedBook?.id === bookId ? selectedBook : pagedBooks.find(b => b.id === bookId);
     const updates: Partial<Book> = { status };
     
-    // If marking as read, set progress to total pages
-    if (status === 'read' && book?.totalPages) {
-      updates.progress = book.totalPages;
+    // If marking as read, set progress to the last page (or minute)
+    const length = book && getBookLength(book);
+    if (status === 'read' && length) {
+      updates.progress = length;
     }
     // If marking as want to read, clear progress
     if (status === 'want_to_read') {
@@ -336,16 +485,119 @@ function App() {
     }
     
     await handleEditBook(bookId, updates);
-  }, [books, handleEditBook]);
+  }, [selectedBook, pagedBooks, handleEditBook]);
+
+  // Reload a single book after one of its sub-resources changed
+  const refreshBook = useCallback(async (bookId: string) => {
+    const updatedBook = await api.fetchBook(bookId);
+    updateBookLists(prev => prev.map(book => 
+      book.id === bookId ? updatedBook : book
+    ));
+    setSelectedBook(prev => prev?.id === bookId ? updatedBook : prev);
+  }, [updateBookLists]);
+
+  // Handle uploading a custom cover
+  const handleUploadCover = useCallback(async (bookId: string, file: File) => {
+    try {
+      await api.uploadCover(bookId, file);
+      await refreshBook(bookId);
+    } catch (err) {
+      console.error('Failed to upload cover:', err);
+      throw err;
+    }
+  }, [refreshBook]);
 
-  // Handle creating a custom shelf
-  const handleCreateShelf = useCallback(async (name: string) => {
+  // Handle logging a reading session (past read or re-read)
+  const handleAddSession = useCallback(async (bookId: string, session: api.ReadingSessionInput) => {
     try {
-      const newShelf = await api.createShelf(name);
+      await api.createSession(bookId, session);
+      await refreshBook(bookId);
+      const updatedGoal = await api.syncReadingGoal();
+      setReadingGoal(updatedGoal);
+    } catch (err) {
+      console.error('Failed to add reading session:', err);
+      throw err;
+    }
+  }, [refreshBook]);
+
+  // Handle deleting a reading session
+  const handleDeleteSession = useCallback(async (bookId: string, sessionId: string) => {
+    try {
+      await api.deleteSession(bookId, sessionId);
+      await refreshBook(bookId);
+      const updatedGoal = await api.syncReadingGoal();
+      setReadingGoal(updatedGoal);
+    } catch (err) {
+      console.error('Failed to delete reading session:', err);
+      throw err;
+    }
+  }, [refreshBook]);
+
+  // Handle adding an edition; the active one changes the book's ISBN and page count
+  const handleAddEdition = useCallback(async (bookId: string, edition: api.EditionInput, active: boolean) => {
+    try {
+      await api.createEdition(bookId, { ...edition, active });
+      await refreshBook(bookId);
+    } catch (err) {
+      console.error('Failed to add edition:', err);
+      throw err;
+    }
+  }, [refreshBook]);
+
+  // Handle switching which edition the book tracks progress against
+  const handleSetActiveEdition = useCallback(async (bookId: string, editionId: string) => {
+    try {
+      await api.updateEdition(bookId, editionId, { active: true });
+      await refreshBook(bookId);
+    } catch (err) {
+      console.error('Failed to switch edition:', err);
+      throw err;
+    }
+  }, [refreshBook]);
+
+  // Handle deleting an edition
+  const handleDeleteEdition = useCallback(async (bookId: string, editionId: string) => {
+    try {
+      await api.deleteEdition(bookId, editionId);
+      await refreshBook(bookId);
+    } catch (err) {
+      console.error('Failed to delete edition:', err);
+      throw err;
+    }
+  }, [refreshBook]);
+
+  // Reload everything an import may have touched
+  const handleImported = useCallback(async () => {
+    try {
+      const [shelvesData, goalData] = await Promise.all([
+        api.fetchShelves(),
+        api.syncReadingGoal(),
+      ]);
+      setCustomShelves(shelvesData.map(s => ({
+        id: s.id,
+        name: s.name,
+        createdAt: s.createdAt,
+        rule: s.rule,
+        bookCount: s.bookCount,
+      })));
+      setReadingGoal(goalData);
+      setLibraryVersion(v => v + 1);
+      setQueryVersion(v => v + 1);
+    } catch (err) {
+      console.error('Failed to reload library after import:', err);
+    }
+  }, []);
+
+  // Handle creating a custom shelf, or a smart shelf when a rule is given
+  const handleCreateShelf = useCallback(async (name: string, rule?: ShelfRule) => {
+    try {
+      const newShelf = await api.createShelf(name, rule);
       setCustomShelves(prev => [...prev, {
         id: newShelf.id,
         name: newShelf.name,
         createdAt: newShelf.createdAt,
+        rule: newShelf.rule,
+        bookCount: newShelf.bookCount,
       }]);
     } catch (err) {
       console.error('Failed to create shelf:', err);
@@ -358,15 +610,16 @@ function App() {
     try {
       await api.deleteShelf(shelfId);
       setCustomShelves(prev => prev.filter(s => s.id !== shelfId));
-      // Update books that were on this shelf
-      setBooks(prev => prev.map(book => 
-        book.shelf === shelfId ? { ...book, shelf: undefined } : book
+      // Take the shelf off every book that was on it
+      updateBookLists(prev => prev.map(book => 
+        book.shelves?.includes(shelfId) ? { ...book, shelves: book.shelves.filter(id => id !== shelfId) } : book
       ));
+      setShelfFilter(prev => prev === shelfId ? 'all' : prev);
     } catch (err) {
       console.error('Failed to delete shelf:', err);
       throw err;
     }
-  }, []);
+  }, [updateBookLists]);
 
   // Handle updating reading goal
   const handleUpdateGoal = useCallback(async (target: number) => {
@@ -379,8 +632,29 @@ function App() {
     }
   }, []);
 
+  // Handle signing out
+  const handleSignOut = useCallback(async () => {
+    try {
+      await api.logout();
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+    }
+    setUser(null);
+    setLibraryStats(null);
+    setPagedBooks([]);
+    setCustomShelves([]);
+    setTags([]);
+    setSelectedBook(null);
+    setIsModalOpen(false);
+  }, []);
+
+  // Show sign in screen
+  if (!isCheckingAuth && !user && !error) {
+    return <AuthScreen onSignedIn={setUser} />;
+  }
+
   // Show loading state
-  if (isLoading) {
+  if (isCheckingAuth || isLoading) {
     return (
       <div className="min-h-screen bg-background-cream flex items-center justify-center">
         <div className="text-center">
@@ -414,7 +688,7 @@ function App() {
     <Layout
       customShelves={customShelves}
       allShelves={allShelves}
-      books={books}
+      statusCounts={statusCounts}
       shelfFilter={shelfFilter}
       onShelfSelect={setShelfFilter}
       onCreateShelf={handleCreateShelf}
@@ -423,23 +697,33 @@ function App() {
       onUpdateGoal={handleUpdateGoal}
       mode={appMode}
       onModeChange={setAppMode}
+      userEmail={user?.email}
+      onSignOut={handleSignOut}
+      onOpenBook={handleOpenBook}
+      onOpenArticle={handleOpenArticle}
+      onFindDuplicates={() => setIsDuplicatesOpen(true)}
+      onOpenSeries={() => setSeriesView({ seriesId: null })}
+      onOpenQuotes={() => setIsQuotesOpen(true)}
     >
       {appMode === 'articles' ? (
-        <ArticleReader />
+        <ArticleReader openArticleId={openArticleId} onArticleOpened={handleArticleOpened} />
       ) : (
         <>
           {/* Profile section */}
           <Profile 
-            bookCount={books.length} 
+            bookCount={statusCounts.all} 
             stats={stats}
             readingGoal={readingGoal}
+            onRestored={handleImported}
+            onOpenBook={handleOpenBook}
+            onOpenQuotes={() => setIsQuotesOpen(true)}
           />
 
           {/* AI Recommendations Panel */}
-          <RecommendationsPanel books={books} onAddBook={handleAddBook} />
+          <RecommendationsPanel bookCount={statusCounts.all} readCount={stats.read} onAddBook={handleAddBook} />
 
           {/* Reading Statistics */}
-          <ReadingStats books={books} />
+          {libraryStats && <ReadingStats libraryStats={libraryStats} tags={tags} />}
 
           {/* Search, Filter, Sort Bar */}
           <SearchFilterBar
@@ -455,31 +739,61 @@ function App() {
             onSortByChange={setSortBy}
             sortDirection={sortDirection}
             onSortDirectionChange={setSortDirection}
-            allTags={allTags}
+            ratingMin={ratingMin}
+            onRatingMinChange={setRatingMin}
+            tags={tags}
             allShelves={allShelves}
+            onManageTags={() => setIsTagManagerOpen(true)}
           />
 
           {/* Section header */}
-          <div className="mb-6">
-            <h2 className="font-serif text-2xl font-semibold text-primary-900 mb-1">
-              {shelfFilter === 'all' ? 'My Reading Journey' : 
-               shelfFilter === 'want_to_read' ? 'Want to Read' :
-               shelfFilter === 'reading' ? 'Currently Reading' :
-               shelfFilter === 'read' ? 'Books I\'ve Read' :
-               allShelves.find(s => s.id === shelfFilter)?.name || 'My Books'}
-            </h2>
-            <p className="text-primary-500 text-sm">
-              {filteredBooks.length} book{filteredBooks.length !== 1 ? 's' : ''} 
-              {searchQuery && ` matching "${searchQuery}"`}
-              {tagFilter && ` tagged with "${tagFilter}"`}
-            </p>
+          <div className="mb-6 flex items-end justify-between gap-4">
+            <div>
+              <h2 className="font-serif text-2xl font-semibold text-primary-900 mb-1">
+                {shelfFilter === 'all' ? 'My Reading Journey' : 
+                 shelfFilter === 'want_to_read' ? 'Want to Read' :
+                 shelfFilter === 'reading' ? 'Currently Reading' :
+                 shelfFilter === 'read' ? 'Books I\'ve Read' :
+                 allShelves.find(s => s.id === shelfFilter)?.name || 'My Books'}
+              </h2>
+              <p className="text-primary-500 text-sm">
+                {matchingCount} book{matchingCount !== 1 ? 's' : ''} 
+                {debouncedSearch && ` matching "${debouncedSearch}"`}
+                {tagFilter && ` tagged with "${tagFilter}"`}
+              </p>
+            </div>
+            <button
+              onClick={() => isSelecting ? handleStopSelecting() : setIsSelecting(true)}
+              className={`flex items-center gap-1.5 px-3 py-2 text-sm rounded-cozy transition-colors ${
+                isSelecting ? 'bg-primary text-white' : 'bg-lavender text-primary-700 hover:bg-lavender-dark'
+              }`}
+            >
+              <CheckSquare className="w-4 h-4" />
+              {isSelecting ? 'Done' : 'Select'}
+            </button>
           </div>
 
           {/* Book grid */}
           <BookGrid 
-            books={filteredBooks} 
+            books={pagedBooks} 
             onBookClick={handleBookClick}
-            isFiltered={!!(searchQuery || statusFilter !== 'all' || shelfFilter !== 'all' || tagFilter)}
+            isFiltered={!!(debouncedSearch || statusFilter !== 'all' || shelfFilter !== 'all' || tagFilter || ratingMin)}
+            hasMore={nextCursor !== null}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={handleLoadMore}
+            animationKey={JSON.stringify(bookQuery)}
+            selectedIds={isSelecting ? selectedBookIds : undefined}
+          />
+
+          {/* Actions for the selected books */}
+          <BulkActionBar
+            isOpen={isSelecting}
+            selectedCount={selectedBookIds.size}
+            allShelves={allShelves}
+            allTags={allTags}
+            onAction={handleBulkAction}
+            onSelectAll={() => setSelectedBookIds(new Set(pagedBooks.map(book => book.id)))}
+            onClose={handleStopSelecting}
           />
 
           {/* Review modal */}
@@ -494,8 +808,17 @@ function App() {
             onDeleteReview={handleDeleteReview}
             onUpdateProgress={handleUpdateProgress}
             onChangeStatus={handleChangeStatus}
+            onAddSession={handleAddSession}
+            onDeleteSession={handleDeleteSession}
+            onAddEdition={handleAddEdition}
+            onSetActiveEdition={handleSetActiveEdition}
+            onDeleteEdition={handleDeleteEdition}
             allShelves={allShelves}
             onAddBook={handleAddBook}
+            onUploadCover={handleUploadCover}
+            onOpenAuthor={setOpenAuthorId}
+            onOpenSeries={(seriesId) => setSeriesView({ seriesId })}
+            onOpenBook={handleOpenBook}
           />
 
           {/* Add book floating button and form */}
@@ -504,6 +827,52 @@ function App() {
             isOpen={isAddFormOpen}
             onOpenChange={setIsAddFormOpen}
             allShelves={allShelves}
+            onOpenImport={() => setIsImportOpen(true)}
+          />
+
+          {/* Import from Goodreads and other services */}
+          <ImportLibraryModal
+            isOpen={isImportOpen}
+            onClose={() => setIsImportOpen(false)}
+            onImported={handleImported}
+          />
+
+          {/* Rename, merge, nest and color tags */}
+          <TagManager
+            isOpen={isTagManagerOpen}
+            onClose={() => setIsTagManagerOpen(false)}
+            tags={tags}
+            onChanged={handleTagsChanged}
+          />
+
+          {/* Review and merge duplicate books */}
+          <DuplicatesModal
+            isOpen={isDuplicatesOpen}
+            onClose={() => setIsDuplicatesOpen(false)}
+            onMerged={handleBooksMerged}
+          />
+
+          {/* Everything in the library by one author, translator... */}
+          <AuthorModal
+            authorId={openAuthorId}
+            onClose={() => setOpenAuthorId(null)}
+            onOpenBook={(bookId) => { setOpenAuthorId(null); handleOpenBook(bookId); }}
+          />
+
+          {/* Series and their reading order */}
+          <SeriesModal
+            isOpen={seriesView !== null}
+            seriesId={seriesView?.seriesId ?? null}
+            onClose={() => setSeriesView(null)}
+            onOpenBook={(bookId) => { setSeriesView(null); handleOpenBook(bookId); }}
+            onChanged={handleSeriesChanged}
+          />
+
+          {/* Every saved quote, searchable */}
+          <CommonplaceModal
+            isOpen={isQuotesOpen}
+            onClose={() => setIsQuotesOpen(false)}
+            onOpenBook={(bookId) => { setIsQuotesOpen(false); handleOpenBook(bookId); }}
           />
         </>
       )}
@@ -1,61 +1,84 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, X, BookPlus, Search, Loader2 } from 'lucide-react';
-import { BookFormData, Shelf } from '../types/book';
+import { Plus, X, BookPlus, Search, Loader2, ScanBarcode } from 'lucide-react';
+import { BookFormData, Contributor, ContributorRole, EditionFormat, Shelf, contributorRoleLabels, editionFormatLabels } from '../types/book';
 import { StarRating } from './StarRating';
-import { searchBooks, OpenLibraryBook } from '../services/bookApi';
+import { BarcodeScanner } from './BarcodeScanner';
+import { ShelfPicker } from './ShelfPicker';
+import { normalizeIsbn } from '../types/isbn';
+import * as api from '../services/api';
 
 interface AddBookFormProps {
   onAddBook: (book: BookFormData) => void;
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   allShelves: Shelf[];
+  onOpenImport?: () => void;
 }
 
 /**
  * Floating action button and modal form for adding new books
  * Includes book search autocomplete and manual entry
  */
-export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: AddBookFormProps) {
+export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves, onOpenImport }: AddBookFormProps) {
   const [formData, setFormData] = useState<BookFormData>({
     title: '',
     author: '',
+    contributors: [{ name: '', role: 'author' }],
     rating: 0,
     review: '',
     tags: '',
     status: 'want_to_read',
     totalPages: undefined,
-    shelf: undefined,
+    shelves: [],
     isbn: undefined,
     coverUrl: undefined,
   });
 
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<OpenLibraryBook[]>([]);
+  const [searchResults, setSearchResults] = useState<api.BookMetadata[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
 
-  const customShelves = allShelves.filter(s => !['all', 'want_to_read', 'reading', 'read'].includes(s.id));
+  // Barcode scan state
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanMessage, setScanMessage] = useState<string | null>(null);
+
+  // Smart shelves fill themselves, so books can only be put on regular ones
+  const customShelves = allShelves.filter(s => !['all', 'want_to_read', 'reading', 'read'].includes(s.id) && !s.rule);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (formData.title && formData.author) {
-      onAddBook(formData);
+      onAddBook({
+        ...formData,
+        contributors: formData.contributors
+          ?.filter(c => c.name.trim())
+          .map(c => ({ ...c, name: c.name.trim() })),
+        series: formData.series?.name.trim()
+          ? { ...formData.series, name: formData.series.name.trim() }
+          : undefined,
+      });
       setFormData({ 
         title: '', 
         author: '', 
+        contributors: [{ name: '', role: 'author' }],
         rating: 0, 
         review: '', 
         tags: '',
         status: 'want_to_read',
         totalPages: undefined,
-        shelf: undefined,
+        totalDurationMinutes: undefined,
+        format: undefined,
+        series: undefined,
+        shelves: [],
         isbn: undefined,
         coverUrl: undefined,
       });
       setSearchQuery('');
       setSearchResults([]);
+      setScanMessage(null);
       onOpenChange(false);
     }
   };
@@ -67,6 +90,22 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  // The author line is built from the contributors, so co-authors and translators stay separate
+  const setContributors = (contributors: Contributor[]) => {
+    setFormData(prev => ({
+      ...prev,
+      contributors,
+      author: contributors
+        .filter(c => c.role === 'author' && c.name.trim())
+        .map(c => c.name.trim())
+        .join(' & '),
+    }));
+  };
+
+  const updateContributor = (index: number, changes: Partial<Contributor>) => {
+    setContributors((formData.contributors ?? []).map((c, i) => i === index ? { ...c, ...changes } : c));
+  };
+
   const handleSearch = async (query: string) => {
     setSearchQuery(query);
     
@@ -80,8 +119,15 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
     setShowResults(true);
     
     try {
-      const results = await searchBooks(query);
-      setSearchResults(results.slice(0, 8));
+      // A pasted ISBN gets an exact lookup, anything else a search
+      const isbn = query.replace(/[-\s]/g, '');
+      if (/^(\d{9}[\dX]|\d{13})$/i.test(isbn)) {
+        const book = await api.lookupIsbn(isbn);
+        setSearchResults(book ? [book] : []);
+      } else {
+        const results = await api.searchMetadata(query);
+        setSearchResults(results.slice(0, 8));
+      }
     } catch (error) {
       console.error('Search failed:', error);
       setSearchResults([]);
@@ -90,26 +136,51 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
     }
   };
 
-  const handleSelectBook = (book: OpenLibraryBook) => {
+  const handleSelectBook = (book: api.BookMetadata) => {
+    // Open Library and Google Books list every author, not just the first
+    const authors = book.authors?.length ? book.authors : [book.author];
     setFormData(prev => ({
       ...prev,
       title: book.title,
-      author: book.author,
-      isbn: book.isbn,
+      author: authors.join(' & '),
+      contributors: authors.map(name => ({ name, role: 'author' as const })),
+      isbn: normalizeIsbn(book.isbn) ?? undefined,
       coverUrl: book.coverUrl,
       totalPages: book.pageCount,
       description: book.description,
+      series: book.series ? { name: book.series, position: book.seriesPosition ?? null } : undefined,
     }));
     setSearchQuery(book.title);
     setShowResults(false);
     setSearchResults([]);
   };
 
+  // Prefill from the scanned ISBN, keeping it even when no provider knows the book
+  const handleBarcode = async (isbn: string) => {
+    setIsScanning(false);
+    setSearchQuery(isbn);
+    setScanMessage(null);
+    setIsSearching(true);
+    try {
+      const book = await api.lookupIsbn(isbn);
+      if (book) {
+        handleSelectBook({ ...book, isbn });
+      } else {
+        setFormData(prev => ({ ...prev, isbn }));
+        setScanMessage(`Scanned ISBN ${isbn}, but couldn't find the book - fill in the details below`);
+      }
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
   const handleClose = () => {
     onOpenChange(false);
     setSearchQuery('');
     setSearchResults([]);
     setShowResults(false);
+    setIsScanning(false);
+    setScanMessage(null);
   };
 
   return (
@@ -186,13 +257,33 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
                         value={searchQuery}
                         onChange={(e) => handleSearch(e.target.value)}
                         onFocus={() => searchResults.length > 0 && setShowResults(true)}
-                        placeholder="Search by title or author..."
-                        className="w-full pl-10 pr-10 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
+                        placeholder="Search by title, author or ISBN..."
+                        className="w-full pl-10 pr-20 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
                       />
                       {isSearching && (
-                        <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary-400 animate-spin" />
+                        <Loader2 className="absolute right-12 top-1/2 -translate-y-1/2 w-4 h-4 text-primary-400 animate-spin" />
                       )}
+                      <button
+                        type="button"
+                        onClick={() => { setIsScanning(!isScanning); setShowResults(false); }}
+                        className={`absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full transition-all ${
+                          isScanning ? 'bg-lavender text-primary' : 'text-primary-400 hover:text-primary-600 hover:bg-lavender'
+                        }`}
+                        aria-label="Scan barcode"
+                        title="Scan the ISBN barcode"
+                      >
+                        <ScanBarcode className="w-4 h-4" />
+                      </button>
                     </div>
+
+                    {isScanning && (
+                      <div className="mt-2">
+                        <BarcodeScanner onDetected={handleBarcode} onCancel={() => setIsScanning(false)} />
+                      </div>
+                    )}
+                    {scanMessage && (
+                      <p className="text-primary-600 text-xs mt-1">{scanMessage}</p>
+                    )}
                     
                     {/* Search Results Dropdown */}
                     {showResults && searchResults.length > 0 && (
@@ -205,16 +296,16 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
                             className="w-full px-4 py-3 flex items-center gap-3 hover:bg-lavender-light transition-colors text-left border-b border-lavender last:border-b-0"
                           >
                             <img
-                              src={book.coverUrl || `https://placehold.co/40x60/635C7B/white?text=📖`}
+                              src={book.coverUrl || api.placeholderCoverSrc(book.title)}
                               alt=""
                               className="w-10 h-14 object-cover rounded"
                               onError={(e) => {
-                                (e.target as HTMLImageElement).src = `https://placehold.co/40x60/635C7B/white?text=📖`;
+                                (e.target as HTMLImageElement).src = api.placeholderCoverSrc(book.title);
                               }}
                             />
                             <div className="flex-1 min-w-0">
                               <p className="font-medium text-primary-800 truncate">{book.title}</p>
-                              <p className="text-sm text-primary-500 truncate">{book.author}</p>
+                              <p className="text-sm text-primary-500 truncate">{(book.authors?.length ? book.authors : [book.author]).join(', ')}</p>
                               {book.publishYear && (
                                 <p className="text-xs text-primary-400">{book.publishYear}</p>
                               )}
@@ -226,6 +317,18 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
                     
                     <p className="text-primary-400 text-xs mt-1">
                       Search to auto-fill, or enter manually below
+                      {onOpenImport && (
+                        <>
+                          {' · '}
+                          <button
+                            type="button"
+                            onClick={() => { handleClose(); onOpenImport(); }}
+                            className="underline hover:text-primary-600"
+                          >
+                            Import a library export
+                          </button>
+                        </>
+                      )}
                     </p>
                   </div>
 
@@ -249,24 +352,56 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
                     />
                   </div>
 
-                  {/* Author */}
+                  {/* Authors, translators and other contributors */}
                   <div>
                     <label
-                      htmlFor="author"
+                      htmlFor="contributor-0"
                       className="block text-sm font-medium text-primary-700 mb-1.5"
                     >
                       Author *
                     </label>
-                    <input
-                      type="text"
-                      id="author"
-                      name="author"
-                      value={formData.author}
-                      onChange={handleChange}
-                      required
-                      placeholder="e.g., Fyodor Dostoevsky"
-                      className="w-full px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
-                    />
+                    <div className="space-y-2">
+                      {(formData.contributors ?? []).map((contributor, index) => (
+                        <div key={index} className="flex gap-2">
+                          <input
+                            type="text"
+                            id={`contributor-${index}`}
+                            value={contributor.name}
+                            onChange={(e) => updateContributor(index, { name: e.target.value })}
+                            required={index === 0}
+                            placeholder={index === 0 ? 'e.g., Fyodor Dostoevsky' : 'e.g., Richard Pevear'}
+                            className="flex-1 min-w-0 px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
+                          />
+                          <select
+                            value={contributor.role}
+                            onChange={(e) => updateContributor(index, { role: e.target.value as ContributorRole })}
+                            className="px-3 py-3 bg-white border border-lavender-dark rounded-cozy text-sm text-primary-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all cursor-pointer"
+                            aria-label="Role"
+                          >
+                            {Object.entries(contributorRoleLabels).map(([role, label]) => (
+                              <option key={role} value={role}>{label}</option>
+                            ))}
+                          </select>
+                          {index > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => setContributors((formData.contributors ?? []).filter((_, i) => i !== index))}
+                              className="p-2 text-primary-400 hover:text-red-500 transition-colors"
+                              aria-label="Remove contributor"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setContributors([...(formData.contributors ?? []), { name: '', role: 'translator' }])}
+                      className="mt-2 flex items-center gap-1 text-sm text-primary-600 hover:text-primary transition-colors"
+                    >
+                      <Plus className="w-3.5 h-3.5" /> Add co-author, translator…
+                    </button>
                   </div>
 
                   {/* Reading Status */}
@@ -290,26 +425,111 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
                     </select>
                   </div>
 
-                  {/* Total Pages */}
+                  {/* Format of the copy being added */}
                   <div>
                     <label
-                      htmlFor="totalPages"
+                      htmlFor="format"
                       className="block text-sm font-medium text-primary-700 mb-1.5"
                     >
-                      Total Pages
+                      Format
                     </label>
-                    <input
-                      type="number"
-                      id="totalPages"
-                      name="totalPages"
-                      value={formData.totalPages || ''}
-                      onChange={(e) => setFormData(prev => ({ 
-                        ...prev, 
-                        totalPages: e.target.value ? parseInt(e.target.value) : undefined 
+                    <select
+                      id="format"
+                      name="format"
+                      value={formData.format ?? ''}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        format: (e.target.value || undefined) as EditionFormat | undefined
                       }))}
-                      placeholder="e.g., 400"
-                      className="w-full px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
-                    />
+                      className="w-full px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all cursor-pointer"
+                    >
+                      <option value="">Not sure</option>
+                      {Object.entries(editionFormatLabels).map(([format, label]) => (
+                        <option key={format} value={format}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Total Pages, or listening length for audiobooks */}
+                  {formData.format === 'audiobook' ? (
+                    <div>
+                      <label
+                        htmlFor="totalDurationMinutes"
+                        className="block text-sm font-medium text-primary-700 mb-1.5"
+                      >
+                        Length (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        id="totalDurationMinutes"
+                        name="totalDurationMinutes"
+                        value={formData.totalDurationMinutes || ''}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          totalDurationMinutes: e.target.value ? parseInt(e.target.value) : undefined
+                        }))}
+                        placeholder="e.g., 720"
+                        className="w-full px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
+                      />
+                    </div>
+                  ) : (
+                    <div>
+                      <label
+                        htmlFor="totalPages"
+                        className="block text-sm font-medium text-primary-700 mb-1.5"
+                      >
+                        Total Pages
+                      </label>
+                      <input
+                        type="number"
+                        id="totalPages"
+                        name="totalPages"
+                        value={formData.totalPages || ''}
+                        onChange={(e) => setFormData(prev => ({ 
+                          ...prev, 
+                          totalPages: e.target.value ? parseInt(e.target.value) : undefined 
+                        }))}
+                        placeholder="e.g., 400"
+                        className="w-full px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
+                      />
+                    </div>
+                  )}
+
+                  {/* Series and place in it */}
+                  <div>
+                    <label
+                      htmlFor="series"
+                      className="block text-sm font-medium text-primary-700 mb-1.5"
+                    >
+                      Series
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        id="series"
+                        name="series"
+                        value={formData.series?.name ?? ''}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          series: { name: e.target.value, position: prev.series?.position ?? null }
+                        }))}
+                        placeholder="e.g., The Expanse"
+                        className="flex-1 min-w-0 px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={formData.series?.position ?? ''}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          series: { name: prev.series?.name ?? '', position: e.target.value ? parseFloat(e.target.value) : null }
+                        }))}
+                        placeholder="#"
+                        aria-label="Position in series"
+                        className="w-20 px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all"
+                      />
+                    </div>
                   </div>
 
                   {/* Rating (optional for want_to_read) */}
@@ -379,27 +599,17 @@ export function AddBookForm({ onAddBook, isOpen, onOpenChange, allShelves }: Add
                     </p>
                   </div>
 
-                  {/* Custom Shelf */}
+                  {/* Custom Shelves */}
                   {customShelves.length > 0 && (
                     <div>
-                      <label
-                        htmlFor="shelf"
-                        className="block text-sm font-medium text-primary-700 mb-1.5"
-                      >
-                        Add to Shelf
+                      <label className="block text-sm font-medium text-primary-700 mb-1.5">
+                        Add to Shelves
                       </label>
-                      <select
-                        id="shelf"
-                        name="shelf"
-                        value={formData.shelf || ''}
-                        onChange={handleChange}
-                        className="w-full px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all cursor-pointer"
-                      >
-                        <option value="">No custom shelf</option>
-                        {customShelves.map(shelf => (
-                          <option key={shelf.id} value={shelf.id}>{shelf.name}</option>
-                        ))}
-                      </select>
+                      <ShelfPicker
+                        shelves={customShelves}
+                        selected={formData.shelves || []}
+                        onChange={(shelves) => setFormData(prev => ({ ...prev, shelves }))}
+                      />
                     </div>
                   )}
 
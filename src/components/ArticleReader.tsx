@@ -15,10 +15,15 @@ interface ArticleEntry {
 
 const WORDS_PER_PAGE_DEFAULT = 250;
 
+interface ArticleReaderProps {
+  openArticleId?: string | null; // Preview this article once it's loaded, e.g. from search
+  onArticleOpened?: () => void;
+}
+
 /**
  * Article Reader - paste article links and track word/page counts
  */
-export function ArticleReader() {
+export function ArticleReader({ openArticleId, onArticleOpened }: ArticleReaderProps) {
   const [articles, setArticles] = useState<ArticleEntry[]>([]);
   const [articleUrl, setArticleUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -40,7 +45,7 @@ export function ArticleReader() {
     async function loadArticles() {
       try {
         setIsLoadingArticles(true);
-        const response = await fetch(`${API_BASE}/api/articles`);
+        const response = await fetch(`${API_BASE}/api/articles`, { credentials: 'include' });
         if (!response.ok) {
           throw new Error('Failed to load articles');
         }
@@ -59,6 +64,16 @@ export function ArticleReader() {
     loadArticles();
   }, []);
 
+  // Jump straight to an article picked elsewhere
+  useEffect(() => {
+    if (!openArticleId) return;
+    const article = articles.find(a => a.id === openArticleId);
+    if (article) {
+      setPreviewArticle(article);
+      onArticleOpened?.();
+    }
+  }, [openArticleId, articles, onArticleOpened]);
+
   // Total stats
   const totalStats = useMemo(() => {
     const totalWords = articles.reduce((sum, a) => sum + a.wordCount, 0);
@@ -84,6 +99,7 @@ export function ArticleReader() {
     try {
       const response = await fetch(`${API_BASE}/api/articles/extract`, {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -132,6 +148,7 @@ export function ArticleReader() {
       setIsLoading(true);
       const response = await fetch(`${API_BASE}/api/articles`, {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -166,6 +183,7 @@ export function ArticleReader() {
     try {
       const response = await fetch(`${API_BASE}/api/articles/${id}`, {
         method: 'DELETE',
+        credentials: 'include',
       });
 
       if (!response.ok) {
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { BookMarked, Loader2 } from 'lucide-react';
+import * as api from '../services/api';
+
+interface AuthScreenProps {
+  onSignedIn: (user: api.AuthUser) => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all';
+
+/**
+ * Sign in / create account screen shown before the library loads
+ */
+export function AuthScreen({ onSignedIn }: AuthScreenProps) {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = mode === 'login'
+        ? await api.login(email, password)
+        : await api.register(email, password, name || undefined);
+      onSignedIn(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-cream flex items-center justify-center p-4">
+      <div className="bg-white rounded-cozy-lg shadow-cozy p-8 w-full max-w-sm">
+        <div className="flex flex-col items-center mb-6">
+          <div className="w-14 h-14 bg-lavender rounded-full flex items-center justify-center mb-3">
+            <BookMarked className="w-7 h-7 text-primary" />
+          </div>
+          <h1 className="font-serif text-2xl font-semibold text-primary-900">
+            {mode === 'login' ? 'Welcome back' : 'Start your library'}
+          </h1>
+          <p className="text-primary-400 text-sm">A Cozy Reading Nook</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name (optional)"
+              autoComplete="name"
+              className={inputClassName}
+            />
+          )}
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={mode === 'register' ? 'Password (8+ characters)' : 'Password'}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+            className={inputClassName}
+          />
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full py-3 bg-primary text-white rounded-cozy font-semibold hover:bg-primary-dark transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <p className="text-center text-sm text-primary-500 mt-5">
+          {mode === 'login' ? "Don't have an account? " : 'Already have an account? '}
+          <button
+            type="button"
+            onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+            className="text-primary font-medium hover:text-primary-dark transition-colors"
+          >
+            {mode === 'login' ? 'Create one' : 'Sign in'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
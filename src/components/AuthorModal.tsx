@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, UserRound, Loader2 } from 'lucide-react';
+import { ReadingStatus, contributorRoleLabels } from '../types/book';
+import { StarRating } from './StarRating';
+import * as api from '../services/api';
+
+interface AuthorModalProps {
+  authorId: string | null;
+  onClose: () => void;
+  onOpenBook: (bookId: string) => void;
+}
+
+const statusLabels: Record<ReadingStatus, string> = {
+  want_to_read: 'Want to Read',
+  reading: 'Reading',
+  read: 'Read',
+};
+
+/**
+ * An author's page: every book of theirs in the library, what they did on
+ * it (author, translator...) and how it was rated
+ */
+export function AuthorModal({ authorId, onClose, onOpenBook }: AuthorModalProps) {
+  const [author, setAuthor] = useState<api.AuthorDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authorId) return;
+    setIsLoading(true);
+    setError(null);
+    setAuthor(null);
+    api.fetchAuthor(authorId)
+      .then(setAuthor)
+      .catch(err => {
+        console.error('Failed to load author:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load author');
+      })
+      .finally(() => setIsLoading(false));
+  }, [authorId]);
+
+  return (
+    <AnimatePresence>
+      {authorId && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-cream rounded-cozy-lg shadow-cozy-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-lavender">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-lavender rounded-full flex items-center justify-center">
+                    <UserRound className="w-5 h-5 text-primary" />
+                  </div>
+                  <div>
+                    <h2 className="font-serif text-xl font-semibold text-primary-900">
+                      {author?.name ?? 'Author'}
+                    </h2>
+                    {author && (
+                      <p className="text-sm text-primary-500">
+                        {author.books.length} book{author.books.length !== 1 ? 's' : ''} in your library
+                        {author.averageRating !== null && ` · averaging ${author.averageRating.toFixed(1)}/5`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="p-2 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+                  aria-label="Close author"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-3">
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {isLoading && (
+                  <div className="flex items-center gap-2 text-primary-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Loading books…
+                  </div>
+                )}
+
+                {author && (
+                  <ul className="space-y-2">
+                    {author.books.map(book => (
+                      <li key={book.id}>
+                        <button
+                          onClick={() => onOpenBook(book.id)}
+                          className="w-full flex items-center gap-3 p-2 text-left bg-white rounded-cozy shadow-cozy hover:bg-lavender-light transition-colors"
+                        >
+                          <img src={api.coverSrc(book.coverUrl, 'small')} alt="" className="w-10 h-14 object-cover rounded" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-primary-900 truncate">{book.title}</p>
+                            <p className="text-xs text-primary-500">
+                              {book.roles.map(role => contributorRoleLabels[role]).join(', ')} · {statusLabels[book.status]}
+                            </p>
+                          </div>
+                          {book.averageRating !== null ? (
+                            <StarRating rating={book.averageRating} size="sm" />
+                          ) : (
+                            <span className="text-xs text-primary-300 italic">Not rated</span>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
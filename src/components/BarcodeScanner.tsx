@@ -0,0 +1,178 @@
+import { useState, useEffect, useRef } from 'react';
+import { Camera, ImageUp, X } from 'lucide-react';
+import { isIsbnBarcode } from '../types/isbn';
+
+// The Shape Detection API isn't in TypeScript's DOM library yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const BarcodeDetectorApi = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 300;
+
+interface BarcodeScannerProps {
+  onDetected: (isbn: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Read a book's EAN-13 barcode from the camera or an uploaded photo
+ * Only barcodes that are valid ISBN-13s are reported
+ */
+export function BarcodeScanner({ onDetected, onCancel }: BarcodeScannerProps) {
+  const [mode, setMode] = useState<'camera' | 'photo'>('camera');
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const detectorRef = useRef<BarcodeDetectorInstance | null>(null);
+
+  if (BarcodeDetectorApi && !detectorRef.current) {
+    detectorRef.current = new BarcodeDetectorApi({ formats: ['ean_13'] });
+  }
+
+  // Returns the first ISBN in the source, noting any non-book barcode it saw
+  const findIsbn = async (source: ImageBitmapSource): Promise<string | null> => {
+    const barcodes = await detectorRef.current!.detect(source);
+    const isbn = barcodes.find(barcode => isIsbnBarcode(barcode.rawValue));
+    if (!isbn && barcodes.length > 0) {
+      setError("That barcode isn't an ISBN - look for the one starting 978 or 979");
+    }
+    return isbn ? isbn.rawValue.trim() : null;
+  };
+
+  // Keep scanning camera frames until an ISBN turns up
+  useEffect(() => {
+    if (mode !== 'camera' || !detectorRef.current) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    async function startCamera() {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        let isDetecting = false;
+        timer = setInterval(async () => {
+          const video = videoRef.current;
+          if (isDetecting || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+          isDetecting = true;
+          try {
+            const isbn = await findIsbn(video);
+            if (isbn && !stopped) {
+              stopped = true;
+              onDetected(isbn);
+            }
+          } catch (err) {
+            console.error('Barcode detection failed:', err);
+          } finally {
+            isDetecting = false;
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (err) {
+        console.error('Failed to start camera:', err);
+        setError('Could not open the camera - try uploading a photo instead');
+        setMode('photo');
+      }
+    }
+
+    startCamera();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [mode]);
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const image = await createImageBitmap(file);
+      const isbn = await findIsbn(image);
+      image.close();
+      if (isbn) {
+        onDetected(isbn);
+      } else {
+        setError((current) => current ?? 'No barcode found - try a closer, sharper photo');
+      }
+    } catch (err) {
+      console.error('Failed to read barcode from photo:', err);
+      setError('Could not read that image');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white border border-lavender-dark rounded-cozy space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => { setError(null); setMode('camera'); }}
+            disabled={!detectorRef.current}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-full transition-colors ${
+              mode === 'camera' ? 'bg-primary text-white' : 'bg-lavender text-primary-700 hover:bg-lavender-dark'
+            } disabled:opacity-50`}
+          >
+            <Camera className="w-4 h-4" />
+            Camera
+          </button>
+          <button
+            type="button"
+            onClick={() => { setError(null); setMode('photo'); }}
+            disabled={!detectorRef.current}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-full transition-colors ${
+              mode === 'photo' ? 'bg-primary text-white' : 'bg-lavender text-primary-700 hover:bg-lavender-dark'
+            } disabled:opacity-50`}
+          >
+            <ImageUp className="w-4 h-4" />
+            Photo
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-1.5 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+          aria-label="Stop scanning"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!detectorRef.current ? (
+        <p className="text-sm text-primary-600">
+          This browser can't read barcodes. Type the ISBN printed above the barcode into the search box instead.
+        </p>
+      ) : mode === 'camera' ? (
+        <div className="relative rounded-cozy overflow-hidden bg-primary-900">
+          <video ref={videoRef} className="w-full aspect-video object-cover" muted playsInline />
+          <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-16 border-2 border-white/80 rounded-cozy pointer-events-none" />
+        </div>
+      ) : (
+        <label className="flex flex-col items-center gap-2 py-6 border-2 border-dashed border-lavender-dark rounded-cozy cursor-pointer hover:bg-lavender-light transition-colors">
+          <ImageUp className="w-6 h-6 text-primary-400" />
+          <span className="text-sm text-primary-600">Choose a photo of the barcode</span>
+          <input type="file" accept="image/*" capture="environment" onChange={handlePhoto} className="hidden" />
+        </label>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {detectorRef.current && mode === 'camera' && !error && (
+        <p className="text-xs text-primary-400">Hold the barcode on the back cover inside the frame</p>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,22 @@
 import { motion } from 'framer-motion';
-import { BookOpen, Bookmark, BookCheck } from 'lucide-react';
-import { Book, getAverageRating, getLatestReview } from '../types/book';
+import { BookOpen, Bookmark, BookCheck, Check } from 'lucide-react';
+import { Book, formatDuration, getAverageRating, getBookLength, getLatestReview, isAudiobook, reviewPreviewText } from '../types/book';
 import { StarRating } from './StarRating';
+import { coverSrc, placeholderCoverSrc } from '../services/api';
 
 interface BookCardProps {
   book: Book;
   onClick: (book: Book) => void;
+  isSelectable?: boolean;
+  isSelected?: boolean;
 }
 
 /**
  * Individual book card component with cover, title, author, rating, and tags
  * Features a "spine effect" on the cover and cozy hover animations
+ * In selection mode a click toggles the card instead of opening it
  */
-export function BookCard({ book, onClick }: BookCardProps) {
+export function BookCard({ book, onClick, isSelectable = false, isSelected = false }: BookCardProps) {
   const avgRating = getAverageRating(book);
   const latestReview = getLatestReview(book);
 
@@ -34,15 +38,19 @@ export function BookCard({ book, onClick }: BookCardProps) {
     read: 'bg-green-100 text-green-700',
   };
 
-  // Calculate reading progress percentage
-  const progressPercent = book.status === 'reading' && book.totalPages && book.progress
-    ? Math.round((book.progress / book.totalPages) * 100)
+  // Calculate reading progress percentage (pages, or minutes for audiobooks)
+  const length = getBookLength(book);
+  const progressPercent = book.status === 'reading' && length && book.progress
+    ? Math.round((book.progress / length) * 100)
     : null;
 
   return (
     <motion.article
-      className="bg-white rounded-cozy-lg shadow-cozy overflow-hidden cursor-pointer group mb-6 break-inside-avoid"
+      className={`bg-white rounded-cozy-lg shadow-cozy overflow-hidden cursor-pointer group mb-6 break-inside-avoid ${
+        isSelected ? 'ring-4 ring-primary' : ''
+      }`}
       onClick={() => onClick(book)}
+      aria-selected={isSelectable ? isSelected : undefined}
       whileHover={{ 
         y: -4,
         boxShadow: '0 12px 40px -4px rgba(99, 92, 123, 0.2), 0 6px 16px -2px rgba(99, 92, 123, 0.12)'
@@ -54,16 +62,25 @@ export function BookCard({ book, onClick }: BookCardProps) {
       <div className="relative overflow-hidden">
         <div className="book-spine">
           <img
-            src={book.coverUrl}
+            src={coverSrc(book.coverUrl, 'medium')}
             alt={`Cover of ${book.title}`}
             className="w-full h-52 object-cover transition-transform duration-300 group-hover:scale-105"
             onError={(e) => {
               // Fallback to placeholder if cover fails to load
-              (e.target as HTMLImageElement).src = `https://placehold.co/150x220/635C7B/white?text=${encodeURIComponent(book.title.substring(0, 12))}`;
+              (e.target as HTMLImageElement).src = placeholderCoverSrc(book.title);
             }}
           />
         </div>
         
+        {/* Selection checkbox */}
+        {isSelectable && (
+          <div className={`absolute top-2 left-2 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-colors ${
+            isSelected ? 'bg-primary border-primary text-white' : 'bg-white/80 border-primary-300'
+          }`}>
+            {isSelected && <Check className="w-4 h-4" />}
+          </div>
+        )}
+
         {/* Status badge */}
         <div className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1 ${statusColor[book.status]}`}>
           {statusIcon[book.status]}
@@ -81,11 +98,13 @@ export function BookCard({ book, onClick }: BookCardProps) {
         )}
         
         {/* Hover overlay */}
-        <div className="absolute inset-0 bg-gradient-to-t from-primary/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end justify-center pb-4">
-          <span className="text-white text-sm font-medium px-4 py-1.5 bg-primary/80 rounded-full">
-            {book.reviews?.length > 0 ? 'Read Review' : 'View Details'}
-          </span>
-        </div>
+        {!isSelectable && (
+          <div className="absolute inset-0 bg-gradient-to-t from-primary/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end justify-center pb-4">
+            <span className="text-white text-sm font-medium px-4 py-1.5 bg-primary/80 rounded-full">
+              {book.reviews?.length > 0 ? 'Read Review' : 'View Details'}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Card content */}
@@ -96,9 +115,11 @@ export function BookCard({ book, onClick }: BookCardProps) {
         </h3>
 
         {/* Author */}
-        <p className="text-primary-500 text-sm mb-3">
-          by {book.author}
-        </p>
+        {book.author && (
+          <p className="text-primary-500 text-sm mb-3">
+            by {book.author}
+          </p>
+        )}
 
         {/* Rating - only show if there are reviews */}
         {book.reviews && book.reviews.length > 0 && (
@@ -116,19 +137,29 @@ export function BookCard({ book, onClick }: BookCardProps) {
         )}
 
         {/* Progress for reading books */}
-        {book.status === 'reading' && book.totalPages && (
+        {book.status === 'reading' && length && (
           <div className="mb-3">
             <div className="flex justify-between text-xs text-primary-500 mb-1">
-              <span>{book.progress || 0} of {book.totalPages} pages</span>
+              {isAudiobook(book) ? (
+                <span>{formatDuration(Math.max(0, length - (book.progress || 0)))} left</span>
+              ) : (
+                <span>{book.progress || 0} of {length} pages</span>
+              )}
               {progressPercent !== null && <span>{progressPercent}%</span>}
             </div>
+            {book.estimatedFinish && (
+              <p className="text-xs text-primary-400">
+                ~{isAudiobook(book) ? `${book.minutesPerDay} min` : `${book.pagesPerDay} pages`}/day · done by{' '}
+                {new Date(book.estimatedFinish).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </p>
+            )}
           </div>
         )}
 
         {/* Review snippet - show latest review */}
         {latestReview && (
           <p className="text-primary-600 text-sm leading-relaxed line-clamp-2 mb-3">
-            {latestReview.content}
+            {reviewPreviewText(latestReview.content)}
           </p>
         )}
 
@@ -1,5 +1,6 @@
+import { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { BookOpen, Search, Filter } from 'lucide-react';
+import { BookOpen, Search, Filter, Loader2 } from 'lucide-react';
 import { Book } from '../types/book';
 import { BookCard } from './BookCard';
 
@@ -9,11 +10,17 @@ interface BookGridProps {
   emptyMessage?: string;
   emptySubtext?: string;
   isFiltered?: boolean;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  animationKey?: string;
+  selectedIds?: Set<string>;
 }
 
 /**
  * Masonry-style grid layout for displaying book cards
  * Uses CSS columns for a Pinterest-like staggered layout
+ * Passing selectedIds switches the cards into multi-select mode
  */
 export function BookGrid({ 
   books, 
@@ -21,7 +28,29 @@ export function BookGrid({
   emptyMessage,
   emptySubtext,
   isFiltered = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  animationKey,
+  selectedIds,
 }: BookGridProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Ask for the next page when the bottom of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) onLoadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
   const containerVariants = {
     hidden: { opacity: 0 },
     visible: {
@@ -81,18 +110,31 @@ export function BookGrid({
   }
 
   return (
-    <motion.div
-      className="columns-1 md:columns-2 lg:columns-3 gap-6"
-      variants={containerVariants}
-      initial="hidden"
-      animate="visible"
-      key={books.map(b => b.id).join('-')} // Re-animate on filter change
-    >
-      {books.map((book) => (
-        <motion.div key={book.id} variants={itemVariants} layout>
-          <BookCard book={book} onClick={onBookClick} />
-        </motion.div>
-      ))}
-    </motion.div>
+    <>
+      <motion.div
+        className="columns-1 md:columns-2 lg:columns-3 gap-6"
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+        key={animationKey ?? books.map(b => b.id).join('-')} // Re-animate on filter change
+      >
+        {books.map((book) => (
+          <motion.div key={book.id} variants={itemVariants} layout>
+            <BookCard
+              book={book}
+              onClick={onBookClick}
+              isSelectable={!!selectedIds}
+              isSelected={selectedIds?.has(book.id)}
+            />
+          </motion.div>
+        ))}
+      </motion.div>
+
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-8 text-primary-400">
+          {isLoadingMore && <Loader2 className="w-6 h-6 animate-spin" />}
+        </div>
+      )}
+    </>
   );
 }
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Trash2, Tag, Loader2, CheckSquare } from 'lucide-react';
+import { Shelf, ReadingStatus } from '../types/book';
+import * as api from '../services/api';
+
+interface BulkActionBarProps {
+  isOpen: boolean;
+  selectedCount: number;
+  allShelves: Shelf[];
+  allTags: string[];
+  onAction: (action: api.BulkAction) => Promise<api.BulkReport>;
+  onSelectAll: () => void;
+  onClose: () => void;
+}
+
+const statusOptions: { value: ReadingStatus; label: string }[] = [
+  { value: 'want_to_read', label: 'Want to Read' },
+  { value: 'reading', label: 'Reading' },
+  { value: 'read', label: 'Read' },
+];
+
+/**
+ * Summarize a bulk report, e.g. "3 updated · 1 unchanged"
+ */
+function describeReport(report: api.BulkReport): string {
+  const parts = [
+    report.summary.updated && `${report.summary.updated} updated`,
+    report.summary.deleted && `${report.summary.deleted} deleted`,
+    report.summary.unchanged && `${report.summary.unchanged} unchanged`,
+    report.summary.not_found && `${report.summary.not_found} not found`,
+  ].filter(Boolean);
+  return parts.join(' · ') || 'Nothing changed';
+}
+
+/**
+ * Floating toolbar for acting on the books selected in the grid:
+ * add to/remove from a shelf, change status, add/remove tags, or delete
+ */
+export function BulkActionBar({
+  isOpen,
+  selectedCount,
+  allShelves,
+  allTags,
+  onAction,
+  onSelectAll,
+  onClose,
+}: BulkActionBarProps) {
+  const [tagInput, setTagInput] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  // Smart shelves fill themselves, so books can only be put on regular ones
+  const customShelves = allShelves.filter(s => !['all', 'want_to_read', 'reading', 'read'].includes(s.id) && !s.rule);
+  const disabled = isWorking || selectedCount === 0;
+
+  const run = async (action: api.BulkAction) => {
+    setIsWorking(true);
+    setMessage(null);
+    setShowDeleteConfirm(false);
+    try {
+      const report = await onAction(action);
+      setMessage(describeReport(report));
+      if (action.action === 'add_tags' || action.action === 'remove_tags') setTagInput('');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to update books');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const tags = tagInput.split(',').map(t => t.trim()).filter(Boolean);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed bottom-6 inset-x-4 z-30 flex justify-center pointer-events-none"
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+        >
+          <div className="pointer-events-auto bg-cream border border-lavender-dark rounded-cozy-lg shadow-cozy-lg p-4 max-w-4xl w-full space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="font-medium text-primary-900">
+                {selectedCount} selected
+              </span>
+              <button
+                onClick={onSelectAll}
+                className="flex items-center gap-1 text-sm text-primary-500 hover:text-primary-700"
+              >
+                <CheckSquare className="w-4 h-4" />
+                Select all shown
+              </button>
+              {isWorking && <Loader2 className="w-4 h-4 text-primary-400 animate-spin" />}
+              {message && !isWorking && <span className="text-sm text-primary-500">{message}</span>}
+              <button
+                onClick={onClose}
+                className="ml-auto p-1.5 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+                aria-label="Stop selecting"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {customShelves.length > 0 && (
+                <>
+                  <select
+                    value=""
+                    disabled={disabled}
+                    onChange={(e) => run({ action: 'add_to_shelf', shelf: e.target.value })}
+                    className="px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-sm text-primary-700 focus:outline-none focus:ring-2 focus:ring-primary/30 disabled:opacity-50"
+                  >
+                    <option value="" disabled>Add to shelf…</option>
+                    {customShelves.map(shelf => (
+                      <option key={shelf.id} value={shelf.id}>{shelf.name}</option>
+                    ))}
+                  </select>
+
+                  <select
+                    value=""
+                    disabled={disabled}
+                    onChange={(e) => run({ action: 'remove_from_shelf', shelf: e.target.value })}
+                    className="px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-sm text-primary-700 focus:outline-none focus:ring-2 focus:ring-primary/30 disabled:opacity-50"
+                  >
+                    <option value="" disabled>Remove from shelf…</option>
+                    {customShelves.map(shelf => (
+                      <option key={shelf.id} value={shelf.id}>{shelf.name}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+
+              <select
+                value=""
+                disabled={disabled}
+                onChange={(e) => run({ action: 'set_status', status: e.target.value as ReadingStatus })}
+                className="px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-sm text-primary-700 focus:outline-none focus:ring-2 focus:ring-primary/30 disabled:opacity-50"
+              >
+                <option value="" disabled>Set status…</option>
+                {statusOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+
+              <div className="flex items-center gap-1">
+                <div className="relative">
+                  <Tag className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-primary-400" />
+                  <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    list="bulk-tag-options"
+                    placeholder="tags, comma separated"
+                    className="w-48 pl-8 pr-3 py-2 bg-white border border-lavender-dark rounded-cozy text-sm text-primary-700 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30"
+                  />
+                  <datalist id="bulk-tag-options">
+                    {allTags.map(tag => <option key={tag} value={tag} />)}
+                  </datalist>
+                </div>
+                <button
+                  onClick={() => run({ action: 'add_tags', tags })}
+                  disabled={disabled || tags.length === 0}
+                  className="px-3 py-2 bg-lavender text-primary-700 text-sm rounded-cozy hover:bg-lavender-dark transition-colors disabled:opacity-50"
+                >
+                  Add
+                </button>
+                <button
+                  onClick={() => run({ action: 'remove_tags', tags })}
+                  disabled={disabled || tags.length === 0}
+                  className="px-3 py-2 bg-lavender text-primary-700 text-sm rounded-cozy hover:bg-lavender-dark transition-colors disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+
+              {showDeleteConfirm ? (
+                <div className="flex items-center gap-2 ml-auto">
+                  <span className="text-sm text-primary-700">
+                    Delete {selectedCount} book{selectedCount !== 1 ? 's' : ''}? This cannot be undone.
+                  </span>
+                  <button
+                    onClick={() => run({ action: 'delete' })}
+                    disabled={disabled}
+                    className="px-3 py-2 bg-red-500 text-white text-sm rounded-cozy font-medium hover:bg-red-600 transition-colors disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setShowDeleteConfirm(false)}
+                    className="px-3 py-2 bg-lavender text-primary-600 text-sm rounded-cozy font-medium hover:bg-lavender-dark transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={disabled}
+                  className="ml-auto flex items-center gap-1.5 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-cozy transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, ScrollText, Search, Loader2, MessageSquareQuote } from 'lucide-react';
+import { describeQuoteLocation } from '../types/book';
+import * as api from '../services/api';
+
+interface CommonplaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenBook: (bookId: string) => void;
+}
+
+/**
+ * The commonplace book: every saved quote across the library, searchable
+ * and narrowed by tag
+ */
+export function CommonplaceModal({ isOpen, onClose, onOpenBook }: CommonplaceModalProps) {
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [quotes, setQuotes] = useState<api.QuoteWithBook[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setTag(null);
+    }
+  }, [isOpen]);
+
+  // Reload once typing settles, or straight away when the tag changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const data = await api.fetchCommonplaceBook({ q: query.trim(), tag: tag ?? undefined });
+        if (!cancelled) {
+          setQuotes(data.quotes);
+          setTotal(data.total);
+        }
+      } catch (err) {
+        console.error('Failed to load quotes:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load quotes');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, tag]);
+
+  const handleLoadMore = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await api.fetchCommonplaceBook({ q: query.trim(), tag: tag ?? undefined, offset: quotes.length });
+      setQuotes(prev => [...prev, ...data.quotes]);
+      setTotal(data.total);
+    } catch (err) {
+      console.error('Failed to load quotes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load quotes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Tags on the quotes shown so far; the selected one stays even if nothing loaded carries it
+  const tags = [...new Set([...(tag ? [tag] : []), ...quotes.flatMap(quote => quote.tags)])].sort();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-cream rounded-cozy-lg shadow-cozy-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-lavender">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-lavender rounded-full flex items-center justify-center">
+                    <ScrollText className="w-5 h-5 text-primary" />
+                  </div>
+                  <div>
+                    <h2 className="font-serif text-xl font-semibold text-primary-900">Commonplace Book</h2>
+                    <p className="text-sm text-primary-500">
+                      {total > 0 ? `${total} quote${total !== 1 ? 's' : ''}` : 'Passages saved from your books'}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="p-2 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+                  aria-label="Close commonplace book"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary-400" />
+                  <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search quotes and notes..."
+                    className="w-full pl-9 pr-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30"
+                    autoFocus
+                  />
+                </div>
+
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {tags.map(name => (
+                      <button
+                        key={name}
+                        onClick={() => setTag(tag === name ? null : name)}
+                        className={`px-3 py-1 text-xs rounded-full transition-colors ${
+                          tag === name ? 'bg-primary text-white' : 'bg-lavender text-primary-600 hover:bg-lavender-dark'
+                        }`}
+                      >
+                        #{name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {quotes.length === 0 && !isLoading ? (
+                  <p className="text-sm text-primary-500">
+                    {query.trim() || tag
+                      ? 'No quotes match.'
+                      : 'No quotes yet. Save passages from the Quotes tab of any book.'}
+                  </p>
+                ) : (
+                  <ul className="space-y-3">
+                    {quotes.map(quote => (
+                      <li key={quote.id} className="p-4 bg-white rounded-cozy shadow-cozy">
+                        <blockquote className="font-serif text-primary-800 leading-relaxed border-l-2 border-primary-300 pl-3">
+                          {quote.text}
+                        </blockquote>
+                        {quote.note && (
+                          <p className="mt-2 text-sm text-primary-600 flex gap-1.5">
+                            <MessageSquareQuote className="w-4 h-4 shrink-0 mt-0.5 text-primary-400" />
+                            {quote.note}
+                          </p>
+                        )}
+                        <div className="mt-2 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-primary-400">
+                          <button
+                            onClick={() => onOpenBook(quote.book.id)}
+                            className="font-medium text-primary-600 hover:text-primary hover:underline"
+                          >
+                            {quote.book.title}
+                          </button>
+                          {quote.book.author && <span>by {quote.book.author}</span>}
+                          {describeQuoteLocation(quote) && <span>· {describeQuoteLocation(quote)}</span>}
+                          {quote.tags.map(name => (
+                            <span key={name} className="px-2 py-0.5 bg-lavender text-primary-600 rounded-full">#{name}</span>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {isLoading ? (
+                  <div className="flex items-center gap-2 text-primary-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Loading quotes…
+                  </div>
+                ) : quotes.length < total && (
+                  <button
+                    onClick={handleLoadMore}
+                    className="w-full py-2 bg-lavender text-primary-700 rounded-cozy text-sm font-medium hover:bg-lavender-dark transition-colors"
+                  >
+                    Load more
+                  </button>
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
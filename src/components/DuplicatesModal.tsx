@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Copy, Loader2, Merge, CheckCircle2 } from 'lucide-react';
+import { Book } from '../types/book';
+import * as api from '../services/api';
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const reasonLabels: Record<api.DuplicateReason, string> = {
+  isbn: 'Same ISBN',
+  title_author: 'Same title & author',
+  similar: 'Similar title or author',
+};
+
+const statusLabels: Record<Book['status'], string> = {
+  want_to_read: 'Want to Read',
+  reading: 'Reading',
+  read: 'Read',
+};
+
+/**
+ * The book with the most history is the best default survivor; ties go to the oldest
+ */
+function defaultSurvivor(books: Book[]): string {
+  const weight = (book: Book) => (book.reviews?.length ?? 0) + (book.sessions?.length ?? 0);
+  return [...books].sort((a, b) => weight(b) - weight(a) || a.dateAdded.localeCompare(b.dateAdded))[0].id;
+}
+
+/**
+ * Modal listing groups of books that look like the same work.
+ * For each group you pick the copy to keep and which others to fold into it.
+ */
+export function DuplicatesModal({ isOpen, onClose, onMerged }: DuplicatesModalProps) {
+  const [clusters, setClusters] = useState<api.DuplicateCluster[]>([]);
+  const [survivors, setSurvivors] = useState<Record<number, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [mergingIndex, setMergingIndex] = useState<number | null>(null);
+  const [mergedCount, setMergedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    setMergedCount(0);
+    setExcluded(new Set());
+    api.fetchDuplicates()
+      .then(found => {
+        setClusters(found);
+        setSurvivors(Object.fromEntries(found.map((cluster, i) => [i, defaultSurvivor(cluster.books)])));
+      })
+      .catch(err => {
+        console.error('Failed to find duplicates:', err);
+        setError(err instanceof Error ? err.message : 'Failed to find duplicates');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const dismiss = (index: number) => {
+    setClusters(prev => prev.map((cluster, i) => i === index ? { ...cluster, books: [] } : cluster));
+  };
+
+  const handleMerge = async (index: number) => {
+    const survivorId = survivors[index];
+    const bookIds = clusters[index].books
+      .map(book => book.id)
+      .filter(id => id !== survivorId && !excluded.has(id));
+    if (bookIds.length === 0) return;
+
+    setMergingIndex(index);
+    setError(null);
+    try {
+      await api.mergeBooks(survivorId, bookIds);
+      dismiss(index);
+      setMergedCount(count => count + bookIds.length);
+      onMerged();
+    } catch (err) {
+      console.error('Failed to merge books:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge books');
+    } finally {
+      setMergingIndex(null);
+    }
+  };
+
+  const toggleExcluded = (bookId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(bookId)) next.delete(bookId); else next.add(bookId);
+      return next;
+    });
+  };
+
+  const remaining = clusters.filter(cluster => cluster.books.length > 1).length;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-cream rounded-cozy-lg shadow-cozy-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-lavender">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-lavender rounded-full flex items-center justify-center">
+                    <Copy className="w-5 h-5 text-primary" />
+                  </div>
+                  <h2 className="font-serif text-xl font-semibold text-primary-900">
+                    Duplicate Books
+                  </h2>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="p-2 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+                  aria-label="Close duplicates"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-5">
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {mergedCount > 0 && (
+                  <p className="flex items-center gap-2 text-sm text-green-700">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Merged {mergedCount} duplicate{mergedCount !== 1 ? 's' : ''}
+                  </p>
+                )}
+
+                {isLoading ? (
+                  <div className="flex items-center gap-2 text-primary-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Looking for duplicates…
+                  </div>
+                ) : remaining === 0 && !error && (
+                  <p className="text-primary-500 italic">No duplicates found. Your shelves are tidy!</p>
+                )}
+
+                {clusters.map((cluster, index) => cluster.books.length > 1 && (
+                  <div key={index} className="bg-white rounded-cozy shadow-cozy p-4 space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                      {cluster.reasons.map(reason => (
+                        <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-lavender text-primary-600">
+                          {reasonLabels[reason]}
+                        </span>
+                      ))}
+                    </div>
+
+                    <ul className="space-y-2">
+                      {cluster.books.map(book => {
+                        const isSurvivor = survivors[index] === book.id;
+                        return (
+                          <li key={book.id} className={`flex items-center gap-3 p-2 rounded-cozy ${isSurvivor ? 'bg-lavender-light' : ''}`}>
+                            <input
+                              type="radio"
+                              name={`survivor-${index}`}
+                              checked={isSurvivor}
+                              onChange={() => setSurvivors(prev => ({ ...prev, [index]: book.id }))}
+                              className="accent-primary"
+                              aria-label={`Keep ${book.title}`}
+                            />
+                            <img src={api.coverSrc(book.coverUrl, 'small')} alt="" className="w-8 h-12 object-cover rounded" />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium text-primary-900 truncate">{book.title}</p>
+                              <p className="text-xs text-primary-500 truncate">
+                                {book.author}
+                                {book.isbn && ` · ISBN ${book.isbn}`}
+                              </p>
+                              <p className="text-xs text-primary-400">
+                                {statusLabels[book.status]} · {book.reviews?.length ?? 0} review{book.reviews?.length !== 1 ? 's' : ''} · added {book.dateAdded}
+                              </p>
+                            </div>
+                            {isSurvivor ? (
+                              <span className="text-xs font-medium text-primary">Keep</span>
+                            ) : (
+                              <label className="flex items-center gap-1.5 text-xs text-primary-600">
+                                <input
+                                  type="checkbox"
+                                  checked={!excluded.has(book.id)}
+                                  onChange={() => toggleExcluded(book.id)}
+                                  className="accent-primary"
+                                />
+                                Merge
+                              </label>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => dismiss(index)}
+                        className="px-3 py-1.5 text-sm bg-lavender text-primary-600 rounded-cozy hover:bg-lavender-dark transition-colors"
+                      >
+                        Skip
+                      </button>
+                      <button
+                        onClick={() => handleMerge(index)}
+                        disabled={mergingIndex !== null}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary text-white rounded-cozy hover:bg-primary-dark transition-colors disabled:opacity-50"
+                      >
+                        {mergingIndex === index ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+                        Merge into kept copy
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Upload, Loader2, FileSpreadsheet, CheckCircle2, Download } from 'lucide-react';
+import * as api from '../services/api';
+
+interface ImportLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const actionStyles: Record<api.ImportReportItem['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  skip: 'bg-lavender text-primary-500',
+};
+
+/**
+ * Modal for importing a library export from another service
+ * Shows a dry-run preview of what will change before anything is written
+ */
+export function ImportLibraryModal({ isOpen, onClose, onImported }: ImportLibraryModalProps) {
+  const [source, setSource] = useState<api.ImportSource>('goodreads');
+  const [newBookStatus, setNewBookStatus] = useState<'read' | 'want_to_read'>('read');
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<api.ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDone, setIsDone] = useState(false);
+
+  const isKindle = source === 'kindle-clippings';
+  // Clippings don't say whether a book was finished, so new books get the status picked here
+  const kindleStatus = isKindle ? newBookStatus : undefined;
+
+  const reset = () => {
+    setCsv(null);
+    setFileName('');
+    setPreview(null);
+    setError(null);
+    setIsDone(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+    setIsWorking(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      setPreview(await api.importLibrary(source, text, false, kindleStatus));
+    } catch (err) {
+      console.error('Failed to preview import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!csv) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      setPreview(await api.importLibrary(source, csv, true, kindleStatus));
+      setIsDone(true);
+      onImported();
+    } catch (err) {
+      console.error('Failed to import library:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const changedItems = preview?.items.filter(item => item.action !== 'skip') ?? [];
+  const skippedItems = preview?.items.filter(item => item.action === 'skip') ?? [];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+          />
+
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-cream rounded-cozy-lg shadow-cozy-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-lavender">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-lavender rounded-full flex items-center justify-center">
+                    <FileSpreadsheet className="w-5 h-5 text-primary" />
+                  </div>
+                  <h2 className="font-serif text-xl font-semibold text-primary-900">
+                    Import Your Library
+                  </h2>
+                </div>
+                <button
+                  onClick={handleClose}
+                  className="p-2 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+                  aria-label="Close import"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-5">
+                {/* Source + file picker */}
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <select
+                    value={source}
+                    onChange={(e) => { setSource(e.target.value as api.ImportSource); reset(); }}
+                    disabled={isWorking}
+                    className="px-4 py-3 bg-white border border-lavender-dark rounded-cozy text-primary-800 focus:outline-none focus:ring-2 focus:ring-primary/30 cursor-pointer"
+                  >
+                    <option value="goodreads">Goodreads export</option>
+                    <option value="storygraph">StoryGraph export</option>
+                    <option value="kindle-clippings">Kindle highlights</option>
+                  </select>
+                  <label className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white border border-dashed border-lavender-dark rounded-cozy text-primary-600 hover:bg-lavender-light cursor-pointer transition-colors">
+                    <Upload className="w-4 h-4" />
+                    <span className="truncate">{fileName || (isKindle ? 'Choose My Clippings.txt...' : 'Choose CSV file...')}</span>
+                    <input
+                      type="file"
+                      accept={isKindle ? '.txt,text/plain' : '.csv,text/csv'}
+                      className="hidden"
+                      onChange={handleFileChange}
+                      disabled={isWorking}
+                    />
+                  </label>
+                </div>
+                <p className="text-primary-400 text-xs">
+                  {source === 'goodreads'
+                    ? 'Goodreads: My Books → Import and export → Export Library.'
+                    : isKindle
+                      ? 'Kindle: connect it by USB and open documents/My Clippings.txt. Highlights and notes become quotes.'
+                      : 'StoryGraph: Manage Account → Export StoryGraph Library.'}{' '}
+                  Nothing is saved until you confirm.
+                </p>
+
+                {isKindle && (
+                  <label className="flex items-center gap-2 text-sm text-primary-600">
+                    Add books not in your library as
+                    <select
+                      value={newBookStatus}
+                      onChange={(e) => { setNewBookStatus(e.target.value as 'read' | 'want_to_read'); reset(); }}
+                      disabled={isWorking}
+                      className="px-3 py-1.5 bg-white border border-lavender-dark rounded-cozy text-primary-800 focus:outline-none focus:ring-2 focus:ring-primary/30 cursor-pointer"
+                    >
+                      <option value="read">Read</option>
+                      <option value="want_to_read">Want to read</option>
+                    </select>
+                  </label>
+                )}
+
+                <a
+                  href={api.getExportUrl('storygraph')}
+                  download
+                  className="inline-flex items-center gap-1.5 text-sm text-primary hover:text-primary-dark transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Download your library as a StoryGraph CSV
+                </a>
+
+                {isWorking && (
+                  <div className="flex items-center justify-center gap-2 py-6 text-primary-500">
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    {preview ? 'Importing...' : 'Checking your file...'}
+                  </div>
+                )}
+
+                {error && (
+                  <div className="p-4 bg-red-50 border border-red-200 rounded-cozy text-sm text-red-600">
+                    {error}
+                  </div>
+                )}
+
+                {preview && !isWorking && (
+                  <>
+                    {/* Summary */}
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                      <div className="p-3 bg-green-50 rounded-cozy">
+                        <div className="text-xl font-semibold text-green-700">{preview.summary.create}</div>
+                        <div className="text-xs text-green-600">new books</div>
+                      </div>
+                      <div className="p-3 bg-blue-50 rounded-cozy">
+                        <div className="text-xl font-semibold text-blue-700">{preview.summary.update}</div>
+                        <div className="text-xs text-blue-600">to update</div>
+                      </div>
+                      <div className="p-3 bg-lavender-light rounded-cozy">
+                        <div className="text-xl font-semibold text-primary-700">{preview.summary.skip}</div>
+                        <div className="text-xs text-primary-500">skipped</div>
+                      </div>
+                    </div>
+
+                    {preview.summary.quotes > 0 && (
+                      <p className="text-sm text-primary-600">
+                        {preview.summary.quotes} new quote{preview.summary.quotes !== 1 ? 's' : ''} to save
+                      </p>
+                    )}
+
+                    {preview.newShelves.length > 0 && (
+                      <p className="text-sm text-primary-600">
+                        New shelves: {preview.newShelves.join(', ')}
+                      </p>
+                    )}
+
+                    {/* Per-book diff */}
+                    <ul className="max-h-64 overflow-y-auto divide-y divide-lavender border border-lavender rounded-cozy bg-white">
+                      {[...changedItems, ...skippedItems].map(item => (
+                        <li key={item.row} className="px-4 py-2 flex items-center gap-3 text-sm">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionStyles[item.action]}`}>
+                            {item.action}
+                          </span>
+                          <span className="flex-1 min-w-0 truncate text-primary-800">
+                            {item.title} {item.author && <span className="text-primary-400">by {item.author}</span>}
+                          </span>
+                          <span className="text-xs text-primary-400 truncate max-w-[40%]">
+                            {item.reason || (item.quotes > 0
+                              ? `${item.quotes} quote${item.quotes !== 1 ? 's' : ''}`
+                              : item.changes.join(', '))}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+
+                    {isDone ? (
+                      <div className="flex items-center justify-center gap-2 py-2 text-green-700 font-medium">
+                        <CheckCircle2 className="w-5 h-5" /> Import complete
+                      </div>
+                    ) : (
+                      <button
+                        onClick={handleCommit}
+                        disabled={preview.summary.create + preview.summary.update === 0}
+                        className="w-full py-3 bg-primary text-white rounded-cozy font-semibold hover:bg-primary-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Import {preview.summary.create + preview.summary.update} book{preview.summary.create + preview.summary.update !== 1 ? 's' : ''}
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
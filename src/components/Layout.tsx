@@ -1,6 +1,8 @@
-import { ReactNode, useState } from 'react';
-import { BookMarked, Library, BookOpen, BookCheck, Bookmark, Plus, Trash2, ChevronLeft, ChevronRight, Target, FileText } from 'lucide-react';
-import { Book, Shelf, ReadingGoal } from '../types/book';
+import { ReactNode, useState, useEffect } from 'react';
+import { BookMarked, Library, BookOpen, BookCheck, Bookmark, Plus, Trash2, ChevronLeft, ChevronRight, Target, FileText, LogOut, Search, Sparkles, Copy, Layers, ScrollText } from 'lucide-react';
+import { Shelf, ShelfRule, ReadingGoal, ReadingStatus } from '../types/book';
+import { SearchPalette } from './SearchPalette';
+import { SmartShelfForm } from './SmartShelfForm';
 
 export type AppMode = 'books' | 'articles';
 
@@ -8,24 +10,33 @@ interface LayoutProps {
   children: ReactNode;
   customShelves: Shelf[];
   allShelves: Shelf[];
-  books: Book[];
+  statusCounts: Record<ReadingStatus | 'all', number>;
   shelfFilter: string;
   onShelfSelect: (shelfId: string) => void;
-  onCreateShelf: (name: string) => void;
-  onDeleteShelf: (shelfId: string) => void;
-  readingGoal: ReadingGoal;
-  onUpdateGoal: (target: number) => void;
+  onCreateShelf?: (name: string, rule?: ShelfRule) => void;
+  onDeleteShelf?: (shelfId: string) => void;
+  readingGoal: ReadingGoal | null;
+  onUpdateGoal?: (target: number) => void;
   mode: AppMode;
-  onModeChange: (mode: AppMode) => void;
+  onModeChange?: (mode: AppMode) => void;
+  userEmail?: string;
+  onSignOut?: () => void;
+  readOnly?: boolean; // Public page: no editing, no articles
+  onOpenBook?: (bookId: string) => void;
+  onOpenArticle?: (articleId: string) => void;
+  onFindDuplicates?: () => void;
+  onOpenSeries?: () => void;
+  onOpenQuotes?: () => void;
 }
 
 /**
  * Main layout wrapper with sidebar navigation
+ * In read-only mode (public pages) all editing controls are hidden
  */
 export function Layout({ 
   children, 
   customShelves,
-  books,
+  statusCounts,
   shelfFilter,
   onShelfSelect,
   onCreateShelf,
@@ -34,44 +45,64 @@ export function Layout({
   onUpdateGoal,
   mode,
   onModeChange,
+  userEmail,
+  onSignOut,
+  readOnly = false,
+  onOpenBook,
+  onOpenArticle,
+  onFindDuplicates,
+  onOpenSeries,
+  onOpenQuotes,
 }: LayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [newShelfName, setNewShelfName] = useState('');
   const [isCreatingShelf, setIsCreatingShelf] = useState(false);
+  const [isCreatingSmartShelf, setIsCreatingSmartShelf] = useState(false);
   const [isEditingGoal, setIsEditingGoal] = useState(false);
-  const [goalInput, setGoalInput] = useState(readingGoal.target.toString());
+  const [goalInput, setGoalInput] = useState(readingGoal?.target.toString() ?? '');
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const canSearch = !readOnly && !!onOpenBook && !!onOpenArticle;
 
-  // Count books by status
-  const statusCounts = {
-    all: books.length,
-    want_to_read: books.filter(b => b.status === 'want_to_read').length,
-    reading: books.filter(b => b.status === 'reading').length,
-    read: books.filter(b => b.status === 'read').length,
-  };
+  // Ctrl/⌘ K opens the search palette from anywhere
+  useEffect(() => {
+    if (!canSearch) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canSearch]);
 
-  // Count books by custom shelf
-  const shelfCounts: Record<string, number> = {};
-  customShelves.forEach(shelf => {
-    shelfCounts[shelf.id] = books.filter(b => b.shelf === shelf.id).length;
-  });
+  // Shelves come with their own live counts
+  const manualShelves = customShelves.filter(shelf => !shelf.rule);
+  const smartShelves = customShelves.filter(shelf => shelf.rule);
 
   const handleCreateShelf = () => {
     if (newShelfName.trim()) {
-      onCreateShelf(newShelfName.trim());
+      onCreateShelf?.(newShelfName.trim());
       setNewShelfName('');
       setIsCreatingShelf(false);
     }
   };
 
+  const handleCreateSmartShelf = (name: string, rule: ShelfRule) => {
+    onCreateShelf?.(name, rule);
+    setIsCreatingSmartShelf(false);
+  };
+
   const handleGoalSubmit = () => {
     const newTarget = parseInt(goalInput);
     if (!isNaN(newTarget) && newTarget > 0) {
-      onUpdateGoal(newTarget);
+      onUpdateGoal?.(newTarget);
     }
     setIsEditingGoal(false);
   };
 
-  const goalProgress = Math.min((statusCounts.read / readingGoal.target) * 100, 100);
+  const finishedThisYear = readingGoal?.current ?? 0;
+  const goalProgress = readingGoal ? Math.min((finishedThisYear / readingGoal.target) * 100, 100) : 0;
 
   return (
     <div className="min-h-screen bg-cream">
@@ -91,30 +122,56 @@ export function Layout({
             </span>
           </div>
           
-          {/* Mode Toggle */}
-          <div className="flex items-center gap-1 bg-primary-dark/50 rounded-full p-1">
-            <button
-              onClick={() => onModeChange('books')}
-              className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
-                mode === 'books'
-                  ? 'bg-white text-primary shadow-sm'
-                  : 'text-lavender-light hover:text-white'
-              }`}
-            >
-              <Library className="w-4 h-4" />
-              <span className="hidden sm:inline">Books</span>
-            </button>
-            <button
-              onClick={() => onModeChange('articles')}
-              className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
-                mode === 'articles'
-                  ? 'bg-white text-primary shadow-sm'
-                  : 'text-lavender-light hover:text-white'
-              }`}
-            >
-              <FileText className="w-4 h-4" />
-              <span className="hidden sm:inline">Articles</span>
-            </button>
+          <div className="flex items-center gap-3">
+            {/* Mode Toggle */}
+            {!readOnly && (
+              <div className="flex items-center gap-1 bg-primary-dark/50 rounded-full p-1">
+                <button
+                  onClick={() => onModeChange?.('books')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                    mode === 'books'
+                      ? 'bg-white text-primary shadow-sm'
+                      : 'text-lavender-light hover:text-white'
+                  }`}
+                >
+                  <Library className="w-4 h-4" />
+                  <span className="hidden sm:inline">Books</span>
+                </button>
+                <button
+                  onClick={() => onModeChange?.('articles')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                    mode === 'articles'
+                      ? 'bg-white text-primary shadow-sm'
+                      : 'text-lavender-light hover:text-white'
+                  }`}
+                >
+                  <FileText className="w-4 h-4" />
+                  <span className="hidden sm:inline">Articles</span>
+                </button>
+              </div>
+            )}
+
+            {canSearch && (
+              <button
+                onClick={() => setIsSearchOpen(true)}
+                title="Search your library (Ctrl+K)"
+                className="p-2 text-lavender-light hover:text-white transition-colors"
+                aria-label="Search"
+              >
+                <Search className="w-5 h-5" />
+              </button>
+            )}
+
+            {onSignOut && (
+              <button
+                onClick={onSignOut}
+                title={userEmail ? `Signed in as ${userEmail}` : undefined}
+                className="p-2 text-lavender-light hover:text-white transition-colors"
+                aria-label="Sign out"
+              >
+                <LogOut className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -131,18 +188,21 @@ export function Layout({
         `}>
           <div className="p-4 h-full overflow-y-auto">
             {/* Reading Goal */}
+            {readingGoal && (
             <div className="mb-6 p-3 bg-lavender-light rounded-cozy">
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center gap-2">
                   <Target className="w-4 h-4 text-primary" />
                   <span className="text-sm font-medium text-primary-700">{readingGoal.year} Goal</span>
                 </div>
-                <button
-                  onClick={() => setIsEditingGoal(!isEditingGoal)}
-                  className="text-xs text-primary-500 hover:text-primary transition-colors"
-                >
-                  Edit
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => setIsEditingGoal(!isEditingGoal)}
+                    className="text-xs text-primary-500 hover:text-primary transition-colors"
+                  >
+                    Edit
+                  </button>
+                )}
               </div>
               
               {isEditingGoal ? (
@@ -164,7 +224,7 @@ export function Layout({
               ) : (
                 <>
                   <div className="text-lg font-semibold text-primary-800">
-                    {statusCounts.read} / {readingGoal.target} books
+                    {finishedThisYear} / {readingGoal.target} books
                   </div>
                   <div className="w-full h-2 bg-lavender-dark rounded-full mt-2 overflow-hidden">
                     <div 
@@ -178,6 +238,7 @@ export function Layout({
                 </>
               )}
             </div>
+            )}
 
             {/* Main Shelves */}
             <nav className="space-y-1 mb-6">
@@ -213,20 +274,50 @@ export function Layout({
                 active={shelfFilter === 'read'}
                 onClick={() => onShelfSelect('read')}
               />
+              {!readOnly && onOpenSeries && (
+                <button
+                  onClick={onOpenSeries}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-cozy text-left text-sm text-primary-400 hover:text-primary-600 hover:bg-lavender-light transition-all"
+                >
+                  <Layers className="w-4 h-4" />
+                  Series
+                </button>
+              )}
+              {!readOnly && onOpenQuotes && (
+                <button
+                  onClick={onOpenQuotes}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-cozy text-left text-sm text-primary-400 hover:text-primary-600 hover:bg-lavender-light transition-all"
+                >
+                  <ScrollText className="w-4 h-4" />
+                  Commonplace book
+                </button>
+              )}
+              {!readOnly && onFindDuplicates && (
+                <button
+                  onClick={onFindDuplicates}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-cozy text-left text-sm text-primary-400 hover:text-primary-600 hover:bg-lavender-light transition-all"
+                >
+                  <Copy className="w-4 h-4" />
+                  Find duplicates
+                </button>
+              )}
             </nav>
 
             {/* Custom Shelves */}
+            {!(readOnly && manualShelves.length === 0) && (
             <div>
               <div className="flex items-center justify-between mb-2 px-2">
                 <p className="text-xs font-semibold text-primary-400 uppercase tracking-wider">
                   Custom Shelves
                 </p>
-                <button
-                  onClick={() => setIsCreatingShelf(true)}
-                  className="p-1 text-primary-400 hover:text-primary hover:bg-lavender rounded transition-all"
-                >
-                  <Plus className="w-4 h-4" />
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => setIsCreatingShelf(true)}
+                    className="p-1 text-primary-400 hover:text-primary hover:bg-lavender rounded transition-all"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                )}
               </div>
 
               {isCreatingShelf && (
@@ -258,32 +349,90 @@ export function Layout({
               )}
 
               <nav className="space-y-1">
-                {customShelves.map(shelf => (
+                {manualShelves.map(shelf => (
                   <div key={shelf.id} className="group flex items-center">
                     <ShelfButton
                       icon={<Library className="w-4 h-4" />}
                       label={shelf.name}
-                      count={shelfCounts[shelf.id] || 0}
+                      count={shelf.bookCount ?? 0}
                       active={shelfFilter === shelf.id}
                       onClick={() => onShelfSelect(shelf.id)}
                       className="flex-1"
                     />
-                    <button
-                      onClick={() => onDeleteShelf(shelf.id)}
-                      className="p-1 text-primary-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
-                      title="Delete shelf"
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </button>
+                    {!readOnly && (
+                      <button
+                        onClick={() => onDeleteShelf?.(shelf.id)}
+                        className="p-1 text-primary-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                        title="Delete shelf"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
                   </div>
                 ))}
-                {customShelves.length === 0 && !isCreatingShelf && (
+                {manualShelves.length === 0 && !isCreatingShelf && (
                   <p className="text-xs text-primary-300 px-2 py-2 italic">
                     No custom shelves yet
                   </p>
                 )}
               </nav>
             </div>
+            )}
+
+            {/* Smart Shelves */}
+            {!(readOnly && smartShelves.length === 0) && (
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-2 px-2">
+                <p className="text-xs font-semibold text-primary-400 uppercase tracking-wider">
+                  Smart Shelves
+                </p>
+                {!readOnly && (
+                  <button
+                    onClick={() => setIsCreatingSmartShelf(true)}
+                    className="p-1 text-primary-400 hover:text-primary hover:bg-lavender rounded transition-all"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {isCreatingSmartShelf && (
+                <SmartShelfForm
+                  onCreate={handleCreateSmartShelf}
+                  onCancel={() => setIsCreatingSmartShelf(false)}
+                />
+              )}
+
+              <nav className="space-y-1">
+                {smartShelves.map(shelf => (
+                  <div key={shelf.id} className="group flex items-center">
+                    <ShelfButton
+                      icon={<Sparkles className="w-4 h-4" />}
+                      label={shelf.name}
+                      count={shelf.bookCount ?? 0}
+                      active={shelfFilter === shelf.id}
+                      onClick={() => onShelfSelect(shelf.id)}
+                      className="flex-1"
+                    />
+                    {!readOnly && (
+                      <button
+                        onClick={() => onDeleteShelf?.(shelf.id)}
+                        className="p-1 text-primary-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                        title="Delete shelf"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {smartShelves.length === 0 && !isCreatingSmartShelf && (
+                  <p className="text-xs text-primary-300 px-2 py-2 italic">
+                    Shelves that fill themselves, e.g. 4+ star reads
+                  </p>
+                )}
+              </nav>
+            </div>
+            )}
           </div>
         </aside>
         )}
@@ -300,6 +449,15 @@ export function Layout({
           Made with 💜 for a book lover
         </p>
       </footer>
+
+      {canSearch && (
+        <SearchPalette
+          isOpen={isSearchOpen}
+          onClose={() => setIsSearchOpen(false)}
+          onOpenBook={onOpenBook}
+          onOpenArticle={onOpenArticle}
+        />
+      )}
     </div>
   );
 }
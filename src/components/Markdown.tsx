@@ -0,0 +1,185 @@
+import { Fragment, ReactNode, useState } from 'react';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'list'; ordered: boolean; items: string[] };
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const QUOTE = /^\s*>/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+// Earliest match wins; a backslash keeps the next mark literal
+const INLINE = /\\(?<escaped>[\\`*_|#>-])|\|\|(?<spoiler>.+?)\|\||\*\*(?<strong>.+?)\*\*|__(?<strongAlt>.+?)__|\*(?<em>[^\s*](?:.*?[^\s*])?)\*|(?<!\w)_(?<emAlt>[^\s_](?:.*?[^\s_])?)_(?!\w)|`(?<code>[^`]+)`/s;
+
+const isBlockStart = (line: string) => HEADING.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*> ?/, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: parseBlocks(quoted.join('\n')) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push(next[2]);
+        } else if (/^\s+\S/.test(lines[i]) && !next) {
+          // Indented lines continue the item above
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Hidden behind a blur until clicked; the click doesn't reach the card or
+ * row around it
+ */
+function Spoiler({ children }: { children: ReactNode }) {
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  if (isRevealed) {
+    return <span className="bg-lavender rounded px-0.5">{children}</span>;
+  }
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title="Spoiler - click to reveal"
+      aria-label="Spoiler, click to reveal"
+      onClick={(e) => { e.stopPropagation(); setIsRevealed(true); }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsRevealed(true);
+        }
+      }}
+      className="blur-sm select-none cursor-pointer bg-primary-100 rounded px-0.5 hover:blur-[3px] transition-all"
+    >
+      {children}
+    </span>
+  );
+}
+
+function withLineBreaks(text: string): ReactNode[] {
+  return text.split('\n').flatMap((line, index) => (index > 0 ? [<br />, line] : [line]));
+}
+
+function renderInline(text: string): ReactNode {
+  const nodes: ReactNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = rest.match(INLINE);
+    if (!match || match.index === undefined || !match.groups) {
+      nodes.push(...withLineBreaks(rest));
+      break;
+    }
+    nodes.push(...withLineBreaks(rest.slice(0, match.index)));
+
+    const { escaped, spoiler, strong, strongAlt, em, emAlt, code } = match.groups;
+    if (escaped) nodes.push(escaped);
+    else if (spoiler) nodes.push(<Spoiler>{renderInline(spoiler)}</Spoiler>);
+    else if (strong || strongAlt) nodes.push(<strong className="font-semibold">{renderInline(strong ?? strongAlt)}</strong>);
+    else if (em || emAlt) nodes.push(<em>{renderInline(em ?? emAlt)}</em>);
+    else if (code) nodes.push(<code className="px-1 bg-lavender-light rounded text-[0.9em]">{code}</code>);
+
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes.map((node, index) => <Fragment key={index}>{node}</Fragment>);
+}
+
+const headingStyles = ['text-lg font-semibold', 'text-base font-semibold', 'text-base font-medium'];
+
+function renderBlocks(blocks: Block[]): ReactNode {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        // Reviews sit under the modal's own headings, so # starts at h4
+        const depth = Math.min(block.level, 3) - 1;
+        const Heading = (['h4', 'h5', 'h6'] as const)[depth];
+        return (
+          <Heading key={index} className={`font-serif text-primary-900 ${headingStyles[depth]}`}>
+            {renderInline(block.text)}
+          </Heading>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote key={index} className="border-l-2 border-primary-300 pl-3 text-primary-600 italic space-y-2">
+            {renderBlocks(block.blocks)}
+          </blockquote>
+        );
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={index} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+          </List>
+        );
+      }
+      default:
+        return <p key={index}>{renderInline(block.text)}</p>;
+    }
+  });
+}
+
+/**
+ * Render review Markdown - headings, **bold**, *italic*, `code`, > quotes,
+ * lists and ||spoilers|| - as React elements. Raw HTML is never interpreted,
+ * it shows as text.
+ */
+export function Markdown({ text, className = '' }: MarkdownProps) {
+  return <div className={`space-y-2 ${className}`}>{renderBlocks(parseBlocks(text))}</div>;
+}
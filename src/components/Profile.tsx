@@ -1,6 +1,8 @@
-import { BookOpen, Heart, Sparkles, Star, BookMarked, TrendingUp } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { BookOpen, Heart, Sparkles, Star, BookMarked, TrendingUp, Download, Upload, Loader2, Globe, ScrollText } from 'lucide-react';
 import { profileData } from '../data/initialBooks';
-import { ReadingGoal } from '../types/book';
+import { ReadingGoal, describeQuoteLocation } from '../types/book';
+import * as api from '../services/api';
 
 interface ProfileStats {
   read: number;
@@ -8,20 +10,82 @@ interface ProfileStats {
   wantToRead: number;
   avgRating: number;
   totalPages: number;
+  readThisYear: number;
 }
 
 interface ProfileProps {
   bookCount: number;
   stats: ProfileStats;
   readingGoal: ReadingGoal;
+  onRestored?: () => void;
+  onOpenBook?: (bookId: string) => void;
+  onOpenQuotes?: () => void;
 }
 
 /**
  * Profile component displaying the library owner's information
  * Shows name, bio, and reading stats in a cozy card design
  */
-export function Profile({ stats, readingGoal }: ProfileProps) {
-  const goalProgress = Math.min((stats.read / readingGoal.target) * 100, 100);
+export function Profile({ stats, readingGoal, onRestored, onOpenBook, onOpenQuotes }: ProfileProps) {
+  const goalProgress = Math.min((stats.readThisYear / readingGoal.target) * 100, 100);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreMessage, setRestoreMessage] = useState<string | null>(null);
+  const [publicSlug, setPublicSlug] = useState<string | null>(null);
+  const [slugDraft, setSlugDraft] = useState('');
+  const [isSavingSlug, setIsSavingSlug] = useState(false);
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const [dailyQuote, setDailyQuote] = useState<api.QuoteWithBook | null>(null);
+
+  useEffect(() => {
+    api.fetchProfile()
+      .then(profile => {
+        setPublicSlug(profile.publicSlug);
+        setSlugDraft(profile.publicSlug || '');
+      })
+      .catch(err => console.error('Failed to load profile:', err));
+    api.fetchDailyQuote()
+      .then(setDailyQuote)
+      .catch(err => console.error('Failed to load quote of the day:', err));
+  }, []);
+
+  const handleSaveSlug = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingSlug(true);
+    setShareMessage(null);
+    try {
+      const profile = await api.updateProfile({ publicSlug: slugDraft });
+      setPublicSlug(profile.publicSlug);
+      setSlugDraft(profile.publicSlug || '');
+      setShareMessage(profile.publicSlug
+        ? 'Only books and reviews you mark public will appear on your page.'
+        : 'Your public page is turned off.');
+    } catch (err) {
+      console.error('Failed to save public link:', err);
+      setShareMessage(err instanceof Error ? err.message : 'Failed to save public link');
+    } finally {
+      setIsSavingSlug(false);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsRestoring(true);
+    setRestoreMessage(null);
+    try {
+      const isCsv = file.name.toLowerCase().endsWith('.csv');
+      const { restored } = await api.restoreBackup(await file.text(), isCsv);
+      setRestoreMessage(`Restored ${restored.books} book${restored.books !== 1 ? 's' : ''}, ${restored.reviews} review${restored.reviews !== 1 ? 's' : ''} and ${restored.articles} article${restored.articles !== 1 ? 's' : ''}.`);
+      onRestored?.();
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      setRestoreMessage(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
 
   return (
     <div className="bg-white rounded-cozy-lg shadow-cozy p-6 mb-8">
@@ -46,6 +110,39 @@ export function Profile({ stats, readingGoal }: ProfileProps) {
         "{profileData.bio}"
       </p>
 
+      {/* Quote of the day, from the commonplace book */}
+      {dailyQuote && (
+        <div className="mb-4 p-4 bg-lavender-light rounded-cozy">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium uppercase tracking-wide text-primary-400">Quote of the day</span>
+            {onOpenQuotes && (
+              <button
+                onClick={onOpenQuotes}
+                className="flex items-center gap-1 text-xs text-primary-500 hover:text-primary transition-colors"
+              >
+                <ScrollText className="w-3.5 h-3.5" />
+                All quotes
+              </button>
+            )}
+          </div>
+          <blockquote className="font-serif text-primary-800 leading-relaxed">
+            "{dailyQuote.text}"
+          </blockquote>
+          <p className="mt-2 text-xs text-primary-500">
+            —{' '}
+            {onOpenBook ? (
+              <button onClick={() => onOpenBook(dailyQuote.book.id)} className="font-medium hover:text-primary hover:underline">
+                {dailyQuote.book.title}
+              </button>
+            ) : (
+              <span className="font-medium">{dailyQuote.book.title}</span>
+            )}
+            , {dailyQuote.book.author}
+            {describeQuoteLocation(dailyQuote) && ` · ${describeQuoteLocation(dailyQuote)}`}
+          </p>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 pt-4 border-t border-lavender">
         <StatCard
@@ -78,7 +175,7 @@ export function Profile({ stats, readingGoal }: ProfileProps) {
             {readingGoal.year} Reading Progress
           </span>
           <span className="font-medium text-primary-700">
-            {stats.read} / {readingGoal.target} books ({Math.round(goalProgress)}%)
+            {stats.readThisYear} / {readingGoal.target} books ({Math.round(goalProgress)}%)
           </span>
         </div>
         <div className="w-full h-3 bg-lavender rounded-full overflow-hidden">
@@ -93,6 +190,69 @@ export function Profile({ stats, readingGoal }: ProfileProps) {
           </p>
         )}
       </div>
+
+      {/* Backup & restore */}
+      <div className="mt-4 pt-4 border-t border-lavender flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-primary-500 mr-auto">Backup your library</span>
+        <a
+          href={api.getExportUrl('json')}
+          download
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-lavender-light text-primary-700 rounded-cozy hover:bg-lavender transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" /> JSON
+        </a>
+        <a
+          href={api.getExportUrl('csv')}
+          download
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-lavender-light text-primary-700 rounded-cozy hover:bg-lavender transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" /> CSV
+        </a>
+        <label className={`flex items-center gap-1.5 px-3 py-1.5 bg-primary text-white rounded-cozy transition-colors ${isRestoring ? 'opacity-60 cursor-wait' : 'hover:bg-primary-dark cursor-pointer'}`}>
+          {isRestoring ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+          Restore
+          <input type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleRestore} disabled={isRestoring} />
+        </label>
+        {restoreMessage && (
+          <p className="w-full text-xs text-primary-400">{restoreMessage}</p>
+        )}
+      </div>
+
+      {/* Public sharing */}
+      <form onSubmit={handleSaveSlug} className="mt-4 pt-4 border-t border-lavender flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-primary-500 mr-auto flex items-center gap-1">
+          <Globe className="w-4 h-4" /> Share your library
+        </span>
+        <span className="text-primary-400">/u/</span>
+        <input
+          type="text"
+          value={slugDraft}
+          onChange={(e) => setSlugDraft(e.target.value)}
+          placeholder="your-name"
+          className="w-36 px-3 py-1.5 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30"
+        />
+        <button
+          type="submit"
+          disabled={isSavingSlug || slugDraft.trim().toLowerCase() === (publicSlug || '')}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-white rounded-cozy hover:bg-primary-dark transition-colors disabled:opacity-50"
+        >
+          {isSavingSlug && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          Save
+        </button>
+        {publicSlug && (
+          <a
+            href={api.getPublicPageUrl(publicSlug)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="w-full text-xs text-primary hover:text-primary-dark truncate"
+          >
+            {api.getPublicPageUrl(publicSlug)}
+          </a>
+        )}
+        {shareMessage && (
+          <p className="w-full text-xs text-primary-400">{shareMessage}</p>
+        )}
+      </form>
     </div>
   );
 }
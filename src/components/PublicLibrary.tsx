@@ -0,0 +1,235 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Quote, Calendar } from 'lucide-react';
+import { Layout } from './Layout';
+import { BookGrid } from './BookGrid';
+import { StarRating, RatingText } from './StarRating';
+import { Markdown } from './Markdown';
+import { Book, countFinishedInYear, getAverageRating } from '../types/book';
+import * as api from '../services/api';
+
+interface PublicLibraryProps {
+  slug: string;
+}
+
+/**
+ * Read-only library page opened at /u/:slug
+ * Shows only the books and reviews the owner marked public
+ */
+export function PublicLibrary({ slug }: PublicLibraryProps) {
+  const [library, setLibrary] = useState<api.PublicLibrary | null>(null);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [shelfFilter, setShelfFilter] = useState('all');
+  const [selectedBook, setSelectedBook] = useState<Book | null>(null);
+
+  useEffect(() => {
+    async function loadLibrary() {
+      try {
+        setIsLoading(true);
+        const [libraryData, booksData] = await Promise.all([
+          api.fetchPublicLibrary(slug),
+          api.fetchPublicBooks(slug),
+        ]);
+        setLibrary(libraryData);
+        setBooks(booksData);
+        document.title = libraryData.profile.libraryName;
+      } catch (err) {
+        console.error('Failed to load public library:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load library');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadLibrary();
+  }, [slug]);
+
+  const filteredBooks = useMemo(() => {
+    if (shelfFilter === 'all') return books;
+    if (['want_to_read', 'reading', 'read'].includes(shelfFilter)) {
+      return books.filter(book => book.status === shelfFilter);
+    }
+    return books.filter(book => book.shelves?.includes(shelfFilter));
+  }, [books, shelfFilter]);
+
+  // Only public books are counted, so shelves and the goal don't reveal private ones
+  const statusCounts = useMemo(() => ({
+    all: books.length,
+    want_to_read: books.filter(b => b.status === 'want_to_read').length,
+    reading: books.filter(b => b.status === 'reading').length,
+    read: books.filter(b => b.status === 'read').length,
+  }), [books]);
+
+  const shelves = useMemo(() => (library?.shelves ?? []).map(shelf => ({
+    ...shelf,
+    bookCount: books.filter(b => b.shelves?.includes(shelf.id)).length,
+  })), [library, books]);
+
+  const readingGoal = library?.readingGoal
+    ? { ...library.readingGoal, current: countFinishedInYear(books, library.readingGoal.year) }
+    : null;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background-cream flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !library) {
+    return (
+      <div className="min-h-screen bg-background-cream flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-6">
+          <div className="text-5xl mb-4">📚</div>
+          <h2 className="text-xl font-semibold text-primary-900 mb-2">This library isn't shared</h2>
+          <p className="text-primary-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { profile } = library;
+
+  return (
+    <Layout
+      customShelves={shelves}
+      allShelves={shelves}
+      statusCounts={statusCounts}
+      shelfFilter={shelfFilter}
+      onShelfSelect={setShelfFilter}
+      readingGoal={readingGoal}
+      mode="books"
+      readOnly
+    >
+      {/* Owner header */}
+      <div className="bg-white rounded-cozy-lg shadow-cozy p-6 mb-8 flex items-center gap-4">
+        <div className="w-16 h-16 rounded-full bg-lavender flex items-center justify-center text-3xl flex-shrink-0">
+          {profile.avatar}
+        </div>
+        <div>
+          <h1 className="font-serif text-2xl font-semibold text-primary-900">{profile.libraryName}</h1>
+          {profile.bio && (
+            <p className="text-primary-600 text-sm italic mt-1">"{profile.bio}"</p>
+          )}
+        </div>
+      </div>
+
+      <BookGrid
+        books={filteredBooks}
+        onBookClick={setSelectedBook}
+        emptyMessage={`${profile.name} hasn't shared any books here yet`}
+        emptySubtext="Check back later!"
+      />
+
+      <PublicBookModal book={selectedBook} onClose={() => setSelectedBook(null)} />
+    </Layout>
+  );
+}
+
+interface PublicBookModalProps {
+  book: Book | null;
+  onClose: () => void;
+}
+
+/**
+ * Read-only book details with its public reviews
+ */
+function PublicBookModal({ book, onClose }: PublicBookModalProps) {
+  const avgRating = book ? getAverageRating(book) : 0;
+
+  return (
+    <AnimatePresence>
+      {book && (
+        <>
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          >
+            <motion.div
+              className="relative bg-cream rounded-cozy-lg shadow-cozy-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <button
+                onClick={onClose}
+                className="absolute top-4 right-4 p-2 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all z-10"
+                aria-label="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+
+              <div className="flex flex-col sm:flex-row gap-6 p-6 border-b border-lavender">
+                <div className="flex-shrink-0 book-spine rounded-cozy overflow-hidden shadow-cozy">
+                  <img
+                    src={api.coverSrc(book.coverUrl)}
+                    alt={`Cover of ${book.title}`}
+                    className="w-32 h-48 object-cover"
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h2 className="font-serif text-2xl font-semibold text-primary-900 mb-2">{book.title}</h2>
+                  {book.author && <p className="text-primary-600 text-lg mb-4">by {book.author}</p>}
+                  {avgRating > 0 && (
+                    <div className="flex items-center gap-3 mb-4">
+                      <StarRating rating={avgRating} size="lg" />
+                      <RatingText rating={avgRating} />
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {book.tags.map(tag => (
+                      <span key={tag} className="px-3 py-1.5 bg-primary text-white text-sm rounded-full font-medium">
+                        #{tag.replace(/\s+/g, '')}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {book.description && (
+                  <p className="text-primary-700 text-sm leading-relaxed">{book.description}</p>
+                )}
+                {book.reviews.map(review => (
+                  <div key={review.id} className="p-4 bg-white border border-lavender rounded-cozy">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Quote className="w-4 h-4 text-primary-300" />
+                      <StarRating rating={review.rating} size="sm" />
+                    </div>
+                    <Markdown text={review.content} className="text-primary-700 leading-relaxed" />
+                    <div className="flex items-center gap-1 mt-2 text-primary-400 text-xs">
+                      <Calendar className="w-3 h-3" />
+                      <span>
+                        {new Date(review.dateAdded).toLocaleDateString('en-US', {
+                          month: 'long',
+                          day: 'numeric',
+                          year: 'numeric'
+                        })}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit3, Trash2, Loader2, MessageSquareQuote } from 'lucide-react';
+import { Quote, describeQuoteLocation } from '../types/book';
+import * as api from '../services/api';
+
+interface QuotesPanelProps {
+  bookId: string;
+}
+
+const emptyQuote = { text: '', page: '', chapter: '', note: '', tags: '' };
+
+type QuoteDraft = typeof emptyQuote;
+
+function toDraft(quote: Quote): QuoteDraft {
+  return {
+    text: quote.text,
+    page: quote.page?.toString() ?? '',
+    chapter: quote.chapter ?? '',
+    note: quote.note ?? '',
+    tags: quote.tags.join(', '),
+  };
+}
+
+function fromDraft(draft: QuoteDraft): api.QuoteInput {
+  return {
+    text: draft.text.trim(),
+    page: draft.page ? parseInt(draft.page) : null,
+    chapter: draft.chapter.trim() || null,
+    note: draft.note.trim() || null,
+    tags: draft.tags.split(',').map(t => t.trim()).filter(Boolean),
+  };
+}
+
+// Page order like the server's; quotes without a page stay last, oldest first
+const byPage = (a: Quote, b: Quote) => (a.page ?? Number.MAX_SAFE_INTEGER) - (b.page ?? Number.MAX_SAFE_INTEGER);
+
+/**
+ * A book's saved passages, in page order, with a form to add or edit one
+ */
+export function QuotesPanel({ bookId }: QuotesPanelProps) {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // null: no form open; 'new': adding; otherwise the id of the quote being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<QuoteDraft>(emptyQuote);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    setEditing(null);
+    api.fetchQuotes(bookId)
+      .then(setQuotes)
+      .catch(err => {
+        console.error('Failed to load quotes:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load quotes');
+      })
+      .finally(() => setIsLoading(false));
+  }, [bookId]);
+
+  const startEditing = (quote: Quote | null) => {
+    setEditing(quote ? quote.id : 'new');
+    setDraft(quote ? toDraft(quote) : emptyQuote);
+  };
+
+  const handleSave = async () => {
+    if (!draft.text.trim() || !editing) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (editing === 'new') {
+        const created = await api.createQuote(bookId, fromDraft(draft));
+        setQuotes(prev => [...prev, created].sort(byPage));
+      } else {
+        const updated = await api.updateQuote(bookId, editing, fromDraft(draft));
+        setQuotes(prev => prev.map(q => q.id === updated.id ? updated : q));
+      }
+      setEditing(null);
+    } catch (err) {
+      console.error('Failed to save quote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save quote');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (quoteId: string) => {
+    setError(null);
+    try {
+      await api.deleteQuote(bookId, quoteId);
+      setQuotes(prev => prev.filter(q => q.id !== quoteId));
+    } catch (err) {
+      console.error('Failed to delete quote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete quote');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30';
+
+  const form = (
+    <div className="mb-4 p-4 bg-lavender-light rounded-cozy space-y-2">
+      <textarea
+        value={draft.text}
+        onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+        placeholder="The passage, word for word..."
+        rows={3}
+        className={`w-full font-serif resize-none ${inputClass}`}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={draft.chapter}
+          onChange={(e) => setDraft(prev => ({ ...prev, chapter: e.target.value }))}
+          placeholder="Chapter"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="1"
+          value={draft.page}
+          onChange={(e) => setDraft(prev => ({ ...prev, page: e.target.value }))}
+          placeholder="Page"
+          className={inputClass}
+        />
+      </div>
+      <textarea
+        value={draft.note}
+        onChange={(e) => setDraft(prev => ({ ...prev, note: e.target.value }))}
+        placeholder="Why it stayed with you (optional)"
+        rows={2}
+        className={`w-full resize-none ${inputClass}`}
+      />
+      <input
+        type="text"
+        value={draft.tags}
+        onChange={(e) => setDraft(prev => ({ ...prev, tags: e.target.value }))}
+        placeholder="Tags (comma separated)"
+        className={`w-full ${inputClass}`}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!draft.text.trim() || isSaving}
+          className="flex-1 py-2 bg-primary text-white rounded-cozy text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {editing === 'new' ? 'Save Quote' : 'Save Changes'}
+        </button>
+        <button
+          onClick={() => setEditing(null)}
+          className="flex-1 py-2 bg-white text-primary-600 rounded-cozy text-sm font-medium hover:bg-lavender transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {editing === null && (
+        <button
+          onClick={() => startEditing(null)}
+          className="mb-4 flex items-center gap-1 px-3 py-1.5 text-sm text-primary-600 hover:text-primary hover:bg-lavender rounded-cozy transition-all"
+        >
+          <Plus className="w-4 h-4" /> Add Quote
+        </button>
+      )}
+      {editing === 'new' && form}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-primary-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading quotes…
+        </div>
+      ) : quotes.length > 0 ? (
+        <ul className="space-y-4">
+          {quotes.map(quote => editing === quote.id ? (
+            <li key={quote.id}>{form}</li>
+          ) : (
+            <li key={quote.id} className="group p-4 bg-white rounded-cozy shadow-cozy">
+              <blockquote className="font-serif text-primary-800 leading-relaxed border-l-2 border-primary-300 pl-3">
+                {quote.text}
+              </blockquote>
+              {quote.note && (
+                <p className="mt-2 text-sm text-primary-600 flex gap-1.5">
+                  <MessageSquareQuote className="w-4 h-4 shrink-0 mt-0.5 text-primary-400" />
+                  {quote.note}
+                </p>
+              )}
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-primary-400">
+                {describeQuoteLocation(quote) && <span>{describeQuoteLocation(quote)}</span>}
+                {quote.tags.map(tag => (
+                  <span key={tag} className="px-2 py-0.5 bg-lavender text-primary-600 rounded-full">#{tag}</span>
+                ))}
+                <span className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                  <button
+                    onClick={() => startEditing(quote)}
+                    className="p-1 text-primary-300 hover:text-primary"
+                    title="Edit quote"
+                  >
+                    <Edit3 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(quote.id)}
+                    className="p-1 text-primary-300 hover:text-red-500"
+                    title="Delete quote"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        editing !== 'new' && (
+          <p className="text-primary-400 text-center py-8 italic">
+            No quotes yet. Save the lines you want to remember!
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,89 +1,47 @@
-import { useMemo } from 'react';
-import { Book, getAverageRating } from '../types/book';
-import { BarChart3, Star, BookOpen, TrendingUp, Calendar, Tag } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { DailyPages, LibraryStats, TagInfo } from '../types/book';
+import { BarChart3, Star, BookOpen, TrendingUp, Calendar, Tag, Activity } from 'lucide-react';
+import * as api from '../services/api';
 
 interface ReadingStatsProps {
-  books: Book[];
+  libraryStats: LibraryStats;
+  tags?: TagInfo[]; // Colors for the top tags
 }
 
 /**
  * Reading statistics dashboard component
  * Shows various metrics and visualizations about reading habits
  */
-export function ReadingStats({ books }: ReadingStatsProps) {
-  const stats = useMemo(() => {
-    const readBooks = books.filter(b => b.status === 'read');
-    const readingBooks = books.filter(b => b.status === 'reading');
-    const wantToRead = books.filter(b => b.status === 'want_to_read');
-    
-    // Average rating
-    const ratedBooks = readBooks.filter(b => b.reviews && b.reviews.length > 0);
-    const avgRating = ratedBooks.length > 0
-      ? ratedBooks.reduce((sum, b) => sum + getAverageRating(b), 0) / ratedBooks.length
-      : 0;
-    
-    // Total pages
-    const totalPages = readBooks
-      .filter(b => b.totalPages)
-      .reduce((sum, b) => sum + (b.totalPages || 0), 0);
-    
-    // Pages in progress
-    const pagesInProgress = readingBooks
-      .filter(b => b.progress)
-      .reduce((sum, b) => sum + (b.progress || 0), 0);
-    
-    // Books by month (this year)
-    const currentYear = new Date().getFullYear();
-    const booksByMonth: Record<number, number> = {};
-    for (let i = 0; i < 12; i++) {
-      booksByMonth[i] = 0;
-    }
-    
-    readBooks.forEach(book => {
-      const date = new Date(book.dateAdded);
-      if (date.getFullYear() === currentYear) {
-        booksByMonth[date.getMonth()]++;
-      }
-    });
-    
-    // Top tags
-    const tagCounts: Record<string, number> = {};
-    books.forEach(book => {
-      book.tags.forEach(tag => {
-        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-      });
-    });
-    
-    const topTags = Object.entries(tagCounts)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5);
-    
-    // Rating distribution
-    const ratingDist: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
-    ratedBooks.forEach(book => {
-      const rating = Math.round(getAverageRating(book));
-      if (rating >= 1 && rating <= 5) {
-        ratingDist[rating]++;
-      }
-    });
-    
-    return {
-      totalRead: readBooks.length,
-      totalReading: readingBooks.length,
-      totalWantToRead: wantToRead.length,
-      avgRating,
-      totalPages,
-      pagesInProgress,
-      booksByMonth,
-      topTags,
-      ratingDist,
-      totalReviews: books.reduce((sum, b) => sum + (b.reviews?.length || 0), 0),
-    };
-  }, [books]);
+export function ReadingStats({ libraryStats, tags = [] }: ReadingStatsProps) {
+  const [dailyPages, setDailyPages] = useState<DailyPages[]>([]);
+
+  // Reload the pace chart whenever the stats change (progress updates come through here)
+  useEffect(() => {
+    api.fetchDailyPages(30)
+      .then(setDailyPages)
+      .catch(err => console.error('Failed to load daily pages:', err));
+  }, [libraryStats]);
+
+  const stats = useMemo(() => ({
+    totalRead: libraryStats.byStatus.read,
+    avgRating: libraryStats.avgRating,
+    totalPages: libraryStats.totalPages,
+    booksByMonth: libraryStats.finishedByMonth,
+    topTags: libraryStats.topTags.map(({ name, count }) => [name, count] as const),
+    ratingDist: libraryStats.ratingDistribution,
+    totalReviews: libraryStats.totalReviews,
+  }), [libraryStats]);
+
+  const tagColors = new Map(tags.map(tag => [tag.name, tag.color]));
 
   const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
   const maxBooksInMonth = Math.max(...Object.values(stats.booksByMonth), 1);
   const maxRatingCount = Math.max(...Object.values(stats.ratingDist), 1);
+  const maxDailyPages = Math.max(...dailyPages.map(d => d.pages), 1);
+  const activeDays = dailyPages.filter(d => d.pages > 0);
+  const avgPagesPerDay = activeDays.length > 0
+    ? Math.round(dailyPages.reduce((sum, d) => sum + d.pages, 0) / dailyPages.length)
+    : 0;
 
   return (
     <div className="bg-white rounded-cozy-lg shadow-cozy p-6 mb-6">
@@ -193,6 +151,31 @@ export function ReadingStats({ books }: ReadingStatsProps) {
         </div>
       </div>
 
+      {/* Pages per Day */}
+      {dailyPages.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-lavender">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-primary-700 flex items-center gap-2">
+              <Activity className="w-4 h-4 text-primary-400" />
+              Pages per Day (last 30 days)
+            </h3>
+            <span className="text-xs text-primary-500">
+              avg {avgPagesPerDay} pages/day · {activeDays.length} active day{activeDays.length !== 1 ? 's' : ''}
+            </span>
+          </div>
+          <div className="flex items-end gap-0.5 h-24">
+            {dailyPages.map(day => (
+              <div
+                key={day.date}
+                className={`flex-1 rounded-t transition-all duration-500 ${day.pages > 0 ? 'bg-primary-300 hover:bg-primary' : 'bg-lavender'}`}
+                style={{ height: `${Math.max((day.pages / maxDailyPages) * 100, 4)}%` }}
+                title={`${new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}: ${day.pages} page${day.pages !== 1 ? 's' : ''}`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Top Tags */}
       {stats.topTags.length > 0 && (
         <div className="mt-6 pt-6 border-t border-lavender">
@@ -206,6 +189,9 @@ export function ReadingStats({ books }: ReadingStatsProps) {
                 key={tag}
                 className="px-3 py-1.5 bg-lavender text-primary-700 rounded-full text-sm font-medium flex items-center gap-1"
               >
+                {tagColors.get(tag) && (
+                  <span className="w-2 h-2 rounded-full mr-0.5" style={{ backgroundColor: tagColors.get(tag)! }} />
+                )}
                 #{tag.replace(/\s+/g, '')}
                 <span className="text-primary-400 text-xs">({count})</span>
               </span>
@@ -1,11 +1,15 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Sparkles, RefreshCw, Plus, ExternalLink, AlertCircle, ChevronDown, ChevronUp, Globe } from 'lucide-react';
-import { Book, BookFormData } from '../types/book';
+import { BookFormData } from '../types/book';
 import { BookRecommendation, getRecommendations, checkApiHealth } from '../services/recommendationApi';
+import { placeholderCoverSrc, searchBooks } from '../services/api';
+
+const RECOMMENDATION_SAMPLE = 20;
 
 interface RecommendationsPanelProps {
-  books: Book[];
+  bookCount: number;
+  readCount: number;
   onAddBook: (book: BookFormData) => void;
 }
 
@@ -13,7 +17,7 @@ interface RecommendationsPanelProps {
  * AI-powered book recommendations panel
  * Shows personalized suggestions based on user's reading history
  */
-export function RecommendationsPanel({ books, onAddBook }: RecommendationsPanelProps) {
+export function RecommendationsPanel({ bookCount, readCount, onAddBook }: RecommendationsPanelProps) {
   const [recommendations, setRecommendations] = useState<BookRecommendation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -27,7 +31,7 @@ export function RecommendationsPanel({ books, onAddBook }: RecommendationsPanelP
   }, []);
 
   const handleGetRecommendations = async () => {
-    if (books.length === 0) {
+    if (bookCount === 0) {
       setError('Add some books to your library first to get recommendations!');
       return;
     }
@@ -36,6 +40,12 @@ export function RecommendationsPanel({ books, onAddBook }: RecommendationsPanelP
     setError(null);
 
     try {
+      // The recommender only looks at a handful of books, so send the best-rated reads,
+      // or the latest additions while there are too few of those
+      let { books } = await searchBooks({ status: 'read', sort: 'rating', direction: 'desc', limit: RECOMMENDATION_SAMPLE });
+      if (books.length < 3) {
+        ({ books } = await searchBooks({ limit: RECOMMENDATION_SAMPLE }));
+      }
       const response = await getRecommendations(books);
       setRecommendations(response.recommendations);
       setLastGenerated(new Date(response.generatedAt));
@@ -64,8 +74,6 @@ export function RecommendationsPanel({ books, onAddBook }: RecommendationsPanelP
     setRecommendations(prev => prev.filter(r => r.title !== rec.title));
   };
 
-  const readBooksCount = books.filter(b => b.status === 'read').length;
-
   return (
     <div className="bg-white rounded-cozy-lg shadow-cozy overflow-hidden mb-6">
       {/* Header */}
@@ -123,8 +131,8 @@ export function RecommendationsPanel({ books, onAddBook }: RecommendationsPanelP
                     Discover Your Next Read
                   </h3>
                   <p className="text-primary-500 text-sm mb-6 max-w-md mx-auto">
-                    {readBooksCount >= 3
-                      ? `Based on ${readBooksCount} books you've read, Parallel AI will search the web to find your perfect next book.`
+                    {readCount >= 3
+                      ? `Based on ${readCount} books you've read, Parallel AI will search the web to find your perfect next book.`
                       : 'Add more books to your library to get personalized recommendations based on your reading taste.'}
                   </p>
                   <button
@@ -193,11 +201,11 @@ export function RecommendationsPanel({ books, onAddBook }: RecommendationsPanelP
                         <div className="flex gap-3 mb-3">
                           {/* Cover */}
                           <img
-                            src={rec.coverUrl || `https://placehold.co/80x120/635C7B/white?text=${encodeURIComponent(rec.title.substring(0, 8))}`}
+                            src={rec.coverUrl || placeholderCoverSrc(rec.title)}
                             alt={`Cover of ${rec.title}`}
                             className="w-16 h-24 object-cover rounded shadow-cozy flex-shrink-0"
                             onError={(e) => {
-                              (e.target as HTMLImageElement).src = `https://placehold.co/80x120/635C7B/white?text=${encodeURIComponent(rec.title.substring(0, 8))}`;
+                              (e.target as HTMLImageElement).src = placeholderCoverSrc(rec.title);
                             }}
                           />
                           <div className="flex-1 min-w-0">
@@ -1,9 +1,13 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Calendar, Quote, Edit3, Trash2, Plus, BookOpen, Bookmark, BookCheck, ChevronDown, Save, Search, RefreshCw, ExternalLink, Sparkles, ChevronUp } from 'lucide-react';
-import { Book, Review, ReadingStatus, Shelf, getAverageRating, ReviewFormData, BookFormData } from '../types/book';
+import { X, Calendar, Quote, Edit3, Trash2, Plus, BookOpen, Bookmark, BookCheck, ChevronDown, Save, Search, RefreshCw, ExternalLink, Sparkles, ChevronUp, History, Globe, Lock, ImageUp, Loader2, Library, CheckCircle2, Layers, ArrowRight, MessageSquareQuote } from 'lucide-react';
+import { Book, BookSeries, Contributor, ContributorRole, Review, ReadingStatus, ReadingSession, Shelf, getAverageRating, ReviewFormData, BookFormData, Edition, EditionFormat, describeEdition, describeSeries, editionFormatLabels, formatDuration, getBookLength, isAudiobook } from '../types/book';
 import { StarRating, RatingText } from './StarRating';
+import { ShelfPicker } from './ShelfPicker';
+import { QuotesPanel } from './QuotesPanel';
+import { Markdown } from './Markdown';
 import { BookRecommendation, findSimilarBooks } from '../services/recommendationApi';
+import { coverSrc, fetchNextInSeries, placeholderCoverSrc } from '../services/api';
 
 interface ReviewModalProps {
   book: Book | null;
@@ -16,8 +20,17 @@ interface ReviewModalProps {
   onDeleteReview: (bookId: string, reviewId: string) => void;
   onUpdateProgress: (bookId: string, progress: number) => void;
   onChangeStatus: (bookId: string, status: ReadingStatus) => void;
+  onAddSession: (bookId: string, session: Partial<Omit<ReadingSession, 'id'>>) => void;
+  onDeleteSession: (bookId: string, sessionId: string) => void;
+  onAddEdition: (bookId: string, edition: Partial<Omit<Edition, 'id'>>, active: boolean) => void;
+  onSetActiveEdition: (bookId: string, editionId: string) => void;
+  onDeleteEdition: (bookId: string, editionId: string) => void;
   allShelves: Shelf[];
   onAddBook?: (book: BookFormData) => void;
+  onUploadCover?: (bookId: string, file: File) => Promise<void>;
+  onOpenAuthor?: (authorId: string) => void;
+  onOpenSeries?: (seriesId: string) => void;
+  onOpenBook?: (bookId: string) => void;
 }
 
 /**
@@ -35,14 +48,26 @@ export function ReviewModal({
   onDeleteReview,
   onUpdateProgress,
   onChangeStatus,
+  onAddSession,
+  onDeleteSession,
+  onAddEdition,
+  onSetActiveEdition,
+  onDeleteEdition,
   allShelves,
   onAddBook,
+  onUploadCover,
+  onOpenAuthor,
+  onOpenSeries,
+  onOpenBook,
 }: ReviewModalProps) {
   const [isAddingReview, setIsAddingReview] = useState(false);
   const [editingReviewId, setEditingReviewId] = useState<string | null>(null);
   const [isEditingBook, setIsEditingBook] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteReviewId, setDeleteReviewId] = useState<string | null>(null);
+  const [isUploadingCover, setIsUploadingCover] = useState(false);
+  const [coverError, setCoverError] = useState<string | null>(null);
+  const [reviewTab, setReviewTab] = useState<'reviews' | 'quotes'>('reviews');
   
   // New review form state
   const [newReview, setNewReview] = useState({ content: '', rating: 0 });
@@ -52,10 +77,26 @@ export function ReviewModal({
     title: '',
     author: '',
     tags: '',
+    format: '' as EditionFormat | '',
     totalPages: '',
-    shelf: '',
+    totalDurationMinutes: '',
+    series: '',
+    seriesPosition: '',
+    shelves: [] as string[],
   });
 
+  // Suggested after finishing a book in a series, remembered per book
+  const [nextInSeries, setNextInSeries] = useState<{ afterBookId: string; book: Book } | null>(null);
+
+  // Log a past read / re-read
+  const [isAddingSession, setIsAddingSession] = useState(false);
+  const [newSession, setNewSession] = useState({ startedAt: '', finishedAt: '', edition: '', editionId: '' });
+
+  // Add another edition (a second copy, or the format of a re-read)
+  const emptyEdition = { format: '' as EditionFormat | '', publisher: '', year: '', pages: '', durationMinutes: '', isbn: '', active: false };
+  const [isAddingEdition, setIsAddingEdition] = useState(false);
+  const [newEdition, setNewEdition] = useState(emptyEdition);
+
   // Similar books state (Parallel AI)
   const [similarBooks, setSimilarBooks] = useState<BookRecommendation[]>([]);
   const [isSimilarBooksLoading, setIsSimilarBooksLoading] = useState(false);
@@ -65,8 +106,12 @@ export function ReviewModal({
   if (!book) return null;
 
   const avgRating = getAverageRating(book);
-  const progressPercent = book.totalPages && book.progress
-    ? Math.round((book.progress / book.totalPages) * 100)
+  // Smart shelves fill themselves, so books can only be put on regular ones
+  const customShelves = allShelves.filter(s => !['all', 'want_to_read', 'reading', 'read'].includes(s.id) && !s.rule);
+  // Audiobooks track minutes listened against their length instead of pages
+  const length = getBookLength(book);
+  const progressPercent = length && book.progress
+    ? Math.round((book.progress / length) * 100)
     : 0;
 
   const handleStartEditBook = () => {
@@ -74,24 +119,58 @@ export function ReviewModal({
       title: book.title,
       author: book.author,
       tags: book.tags.join(', '),
+      format: book.format || '',
       totalPages: book.totalPages?.toString() || '',
-      shelf: book.shelf || '',
+      totalDurationMinutes: book.totalDurationMinutes?.toString() || '',
+      series: book.series?.name || '',
+      seriesPosition: book.series?.position?.toString() || '',
+      shelves: book.shelves || [],
     });
     setIsEditingBook(true);
   };
 
+  const handleCoverUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onUploadCover) return;
+
+    setIsUploadingCover(true);
+    setCoverError(null);
+    try {
+      await onUploadCover(book.id, file);
+    } catch (err) {
+      setCoverError(err instanceof Error ? err.message : 'Failed to upload cover');
+    } finally {
+      setIsUploadingCover(false);
+    }
+  };
+
   const handleSaveBookEdit = () => {
     onEditBook(book.id, {
       title: editForm.title,
       author: editForm.author,
       tags: editForm.tags.split(',').map(t => t.trim()).filter(t => t),
+      format: editForm.format || null,
       totalPages: editForm.totalPages ? parseInt(editForm.totalPages) : undefined,
-      // Pass null explicitly when no shelf is selected to allow removing from shelf
-      shelf: editForm.shelf || null,
+      totalDurationMinutes: editForm.totalDurationMinutes ? parseInt(editForm.totalDurationMinutes) : undefined,
+      series: editForm.series.trim()
+        ? { name: editForm.series.trim(), position: editForm.seriesPosition ? parseFloat(editForm.seriesPosition) : null }
+        : null,
+      shelves: editForm.shelves,
     });
     setIsEditingBook(false);
   };
 
+  const handleChangeStatus = (status: ReadingStatus) => {
+    onChangeStatus(book.id, status);
+    if (status === 'read' && book.series) {
+      const finishedId = book.id;
+      fetchNextInSeries(finishedId)
+        .then(next => setNextInSeries(next ? { afterBookId: finishedId, book: next } : null))
+        .catch(err => console.error('Failed to find next in series:', err));
+    }
+  };
+
   const handleAddReview = () => {
     if (newReview.content && newReview.rating > 0) {
       onAddReview(book.id, newReview);
@@ -115,6 +194,35 @@ export function ReviewModal({
     }
   };
 
+  const handleAddSession = () => {
+    if (!newSession.startedAt && !newSession.finishedAt) return;
+    onAddSession(book.id, {
+      startedAt: newSession.startedAt || null,
+      finishedAt: newSession.finishedAt || null,
+      edition: newSession.edition || null,
+      editionId: newSession.editionId || null,
+    });
+    setNewSession({ startedAt: '', finishedAt: '', edition: '', editionId: '' });
+    setIsAddingSession(false);
+  };
+
+  const handleAddEdition = () => {
+    const toNumber = (value: string) => (value ? parseInt(value) : null);
+    onAddEdition(book.id, {
+      format: newEdition.format || null,
+      publisher: newEdition.publisher.trim() || null,
+      year: toNumber(newEdition.year),
+      pages: toNumber(newEdition.pages),
+      durationMinutes: toNumber(newEdition.durationMinutes),
+      isbn: newEdition.isbn.trim() || null,
+    }, newEdition.active);
+    setNewEdition(emptyEdition);
+    setIsAddingEdition(false);
+  };
+
+  const editions = book.editions || [];
+  const editionOf = (session: ReadingSession) => editions.find(edition => edition.id === session.editionId);
+
   const statusOptions: { value: ReadingStatus; label: string; icon: React.ReactNode }[] = [
     { value: 'want_to_read', label: 'Want to Read', icon: <Bookmark className="w-4 h-4" /> },
     { value: 'reading', label: 'Currently Reading', icon: <BookOpen className="w-4 h-4" /> },
@@ -200,11 +308,11 @@ export function ReviewModal({
                 {/* Book cover */}
                 <div className="flex-shrink-0 book-spine rounded-cozy overflow-hidden shadow-cozy">
                   <img
-                    src={book.coverUrl}
+                    src={coverSrc(book.coverUrl)}
                     alt={`Cover of ${book.title}`}
                     className="w-32 h-48 object-cover"
                     onError={(e) => {
-                      (e.target as HTMLImageElement).src = `https://placehold.co/150x220/635C7B/white?text=${encodeURIComponent(book.title.substring(0, 12))}`;
+                      (e.target as HTMLImageElement).src = placeholderCoverSrc(book.title);
                     }}
                   />
                 </div>
@@ -234,31 +342,77 @@ export function ReviewModal({
                         className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
                         placeholder="Tags (comma separated)"
                       />
-                      <input
-                        type="number"
-                        value={editForm.totalPages}
-                        onChange={(e) => setEditForm(prev => ({ ...prev, totalPages: e.target.value }))}
+                      <select
+                        value={editForm.format}
+                        onChange={(e) => setEditForm(prev => ({ ...prev, format: e.target.value as EditionFormat | '' }))}
                         className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
-                        placeholder="Total pages"
-                      />
-                      {/* Custom Shelf Selector */}
-                      {allShelves.filter(s => !['want_to_read', 'reading', 'read'].includes(s.id)).length > 0 && (
-                        <div className="relative">
-                          <select
-                            value={editForm.shelf}
-                            onChange={(e) => setEditForm(prev => ({ ...prev, shelf: e.target.value }))}
-                            className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30 appearance-none cursor-pointer"
-                          >
-                            <option value="">No custom shelf</option>
-                            {allShelves
-                              .filter(s => !['want_to_read', 'reading', 'read'].includes(s.id))
-                              .map(shelf => (
-                                <option key={shelf.id} value={shelf.id}>
-                                  {shelf.name}
-                                </option>
-                              ))}
-                          </select>
-                          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary-400 pointer-events-none" />
+                        aria-label="Format"
+                      >
+                        <option value="">Format not set</option>
+                        {Object.entries(editionFormatLabels).map(([format, label]) => (
+                          <option key={format} value={format}>{label}</option>
+                        ))}
+                      </select>
+                      {editForm.format === 'audiobook' ? (
+                        <input
+                          type="number"
+                          value={editForm.totalDurationMinutes}
+                          onChange={(e) => setEditForm(prev => ({ ...prev, totalDurationMinutes: e.target.value }))}
+                          className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+                          placeholder="Length in minutes"
+                        />
+                      ) : (
+                        <input
+                          type="number"
+                          value={editForm.totalPages}
+                          onChange={(e) => setEditForm(prev => ({ ...prev, totalPages: e.target.value }))}
+                          className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+                          placeholder="Total pages"
+                        />
+                      )}
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={editForm.series}
+                          onChange={(e) => setEditForm(prev => ({ ...prev, series: e.target.value }))}
+                          className="flex-1 min-w-0 px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+                          placeholder="Series"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={editForm.seriesPosition}
+                          onChange={(e) => setEditForm(prev => ({ ...prev, seriesPosition: e.target.value }))}
+                          disabled={!editForm.series.trim()}
+                          className="w-20 px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30 disabled:opacity-50"
+                          placeholder="#"
+                          aria-label="Position in series"
+                        />
+                      </div>
+                      {/* Custom Shelves */}
+                      {customShelves.length > 0 && (
+                        <ShelfPicker
+                          shelves={customShelves}
+                          selected={editForm.shelves}
+                          onChange={(shelves) => setEditForm(prev => ({ ...prev, shelves }))}
+                        />
+                      )}
+                      {/* Cover upload */}
+                      {onUploadCover && (
+                        <div>
+                          <label className={`flex items-center justify-center gap-2 w-full px-3 py-2 bg-white border border-dashed border-lavender-dark rounded-cozy text-primary-600 text-sm transition-colors ${isUploadingCover ? 'opacity-60 cursor-wait' : 'hover:bg-lavender-light cursor-pointer'}`}>
+                            {isUploadingCover ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageUp className="w-4 h-4" />}
+                            Upload your own cover
+                            <input
+                              type="file"
+                              accept="image/jpeg,image/png,image/gif,image/webp"
+                              className="hidden"
+                              onChange={handleCoverUpload}
+                              disabled={isUploadingCover}
+                            />
+                          </label>
+                          {coverError && <p className="text-xs text-red-600 mt-1">{coverError}</p>}
                         </div>
                       )}
                       <div className="flex gap-2">
@@ -299,9 +453,14 @@ export function ReviewModal({
                           </button>
                         </div>
                       </div>
-                      <p className="text-primary-600 text-lg mb-4">
-                        by {book.author}
-                      </p>
+                      <div className="mb-4">
+                        {book.contributors && book.contributors.length > 0 ? (
+                          <ContributorCredits contributors={book.contributors} onOpenAuthor={onOpenAuthor} />
+                        ) : (
+                          book.author && <p className="text-primary-600 text-lg">by {book.author}</p>
+                        )}
+                        {book.series && <SeriesLine series={book.series} onOpenSeries={onOpenSeries} />}
+                      </div>
 
                       {/* Rating */}
                       {book.reviews && book.reviews.length > 0 && (
@@ -332,7 +491,7 @@ export function ReviewModal({
                       <div className="relative">
                         <select
                           value={book.status}
-                          onChange={(e) => onChangeStatus(book.id, e.target.value as ReadingStatus)}
+                          onChange={(e) => handleChangeStatus(e.target.value as ReadingStatus)}
                           className="w-full px-4 py-2.5 bg-white border border-lavender-dark rounded-cozy text-primary-700 focus:outline-none focus:ring-2 focus:ring-primary/30 cursor-pointer appearance-none"
                         >
                           {statusOptions.map(option => (
@@ -343,24 +502,57 @@ export function ReviewModal({
                         </select>
                         <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary-400 pointer-events-none" />
                       </div>
+
+                      {/* Public page visibility */}
+                      <button
+                        onClick={() => onEditBook(book.id, { isPublic: !book.isPublic })}
+                        className="mt-2 flex items-center gap-1.5 text-xs text-primary-500 hover:text-primary transition-colors"
+                      >
+                        {book.isPublic ? <Globe className="w-3.5 h-3.5" /> : <Lock className="w-3.5 h-3.5" />}
+                        {book.isPublic ? 'Shown on your public page' : 'Private - not on your public page'}
+                      </button>
+
+                      {/* Next in series, once this one is finished */}
+                      {nextInSeries?.afterBookId === book.id && book.status === 'read' && (
+                        <div className="mt-4 flex items-center gap-3 p-3 bg-lavender-light rounded-cozy border border-lavender-dark">
+                          <img src={coverSrc(nextInSeries.book.coverUrl, 'small')} alt="" className="w-10 h-14 object-cover rounded" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-xs text-primary-500">Next in {nextInSeries.book.series?.name ?? 'the series'}</p>
+                            <p className="text-sm font-medium text-primary-900 truncate">{nextInSeries.book.title}</p>
+                          </div>
+                          {onOpenBook && (
+                            <button
+                              onClick={() => onOpenBook(nextInSeries.book.id)}
+                              className="flex items-center gap-1 px-3 py-1.5 bg-primary text-white rounded-cozy text-sm font-medium hover:bg-primary-dark transition-colors"
+                            >
+                              Open <ArrowRight className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
               </div>
 
               {/* Reading Progress (for "reading" status) */}
-              {book.status === 'reading' && book.totalPages && (
+              {book.status === 'reading' && length && (
                 <div className="px-6 py-4 border-b border-lavender bg-lavender-light/50">
                   <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm font-medium text-primary-700">Reading Progress</span>
+                    <span className="text-sm font-medium text-primary-700">
+                      {isAudiobook(book) ? 'Listening Progress' : 'Reading Progress'}
+                    </span>
                     <span className="text-sm text-primary-500">
-                      {book.progress || 0} / {book.totalPages} pages ({progressPercent}%)
+                      {isAudiobook(book)
+                        ? `${formatDuration(book.progress || 0)} / ${formatDuration(length)}`
+                        : `${book.progress || 0} / ${length} pages`}
+                      {' '}({progressPercent}%)
                     </span>
                   </div>
                   <input
                     type="range"
                     min="0"
-                    max={book.totalPages}
+                    max={length}
                     value={book.progress || 0}
                     onChange={(e) => onUpdateProgress(book.id, parseInt(e.target.value))}
                     className="w-full h-2 bg-lavender-dark rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:cursor-pointer"
@@ -368,62 +560,95 @@ export function ReviewModal({
                 </div>
               )}
 
-              {/* Reviews section */}
-              <div className="p-6">
-                <div className="flex items-center justify-between mb-4">
+              {/* Editions - formats and copies of this work */}
+              <div className="px-6 py-4 border-b border-lavender">
+                <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center gap-2">
-                    <Quote className="w-5 h-5 text-primary-400" />
-                    <h3 className="font-serif text-lg font-medium text-primary-800">
-                      My Reviews
-                    </h3>
+                    <Library className="w-4 h-4 text-primary-400" />
+                    <span className="text-sm font-medium text-primary-700">Editions</span>
                   </div>
-                  {!isAddingReview && (
+                  {!isAddingEdition && (
                     <button
-                      onClick={() => setIsAddingReview(true)}
-                      className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary-600 hover:text-primary hover:bg-lavender rounded-cozy transition-all"
+                      onClick={() => setIsAddingEdition(true)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-primary-600 hover:text-primary hover:bg-lavender rounded-cozy transition-all"
                     >
-                      <Plus className="w-4 h-4" /> Add Review
+                      <Plus className="w-3.5 h-3.5" /> Add Edition
                     </button>
                   )}
                 </div>
 
-                {/* Add new review form */}
-                {isAddingReview && (
-                  <div className="mb-6 p-4 bg-lavender-light rounded-cozy">
-                    <div className="mb-3">
-                      <label className="block text-sm font-medium text-primary-700 mb-2">
-                        Your Rating
-                      </label>
-                      <div className="flex items-center gap-2">
-                        <StarRating
-                          rating={newReview.rating}
-                          size="lg"
-                          interactive
-                          onRatingChange={(rating) => setNewReview(prev => ({ ...prev, rating }))}
+                {isAddingEdition && (
+                  <div className="mb-3 p-3 bg-lavender-light rounded-cozy space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={newEdition.format}
+                        onChange={(e) => setNewEdition(prev => ({ ...prev, format: e.target.value as EditionFormat | '' }))}
+                        className="px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 focus:outline-none focus:ring-1 focus:ring-primary"
+                        aria-label="Format"
+                      >
+                        <option value="">Format</option>
+                        {Object.entries(editionFormatLabels).map(([format, label]) => (
+                          <option key={format} value={format}>{label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={newEdition.publisher}
+                        onChange={(e) => setNewEdition(prev => ({ ...prev, publisher: e.target.value }))}
+                        placeholder="Publisher"
+                        className="px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-1 focus:ring-primary"
+                      />
+                      <input
+                        type="number"
+                        value={newEdition.year}
+                        onChange={(e) => setNewEdition(prev => ({ ...prev, year: e.target.value }))}
+                        placeholder="Year"
+                        className="px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-1 focus:ring-primary"
+                      />
+                      {newEdition.format === 'audiobook' ? (
+                        <input
+                          type="number"
+                          value={newEdition.durationMinutes}
+                          onChange={(e) => setNewEdition(prev => ({ ...prev, durationMinutes: e.target.value }))}
+                          placeholder="Length (minutes)"
+                          className="px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-1 focus:ring-primary"
                         />
-                        <span className="text-sm text-primary-500">
-                          {newReview.rating > 0 ? `${newReview.rating}/5` : 'Click to rate'}
-                        </span>
-                      </div>
+                      ) : (
+                        <input
+                          type="number"
+                          value={newEdition.pages}
+                          onChange={(e) => setNewEdition(prev => ({ ...prev, pages: e.target.value }))}
+                          placeholder="Pages"
+                          className="px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-1 focus:ring-primary"
+                        />
+                      )}
                     </div>
-                    <textarea
-                      value={newReview.content}
-                      onChange={(e) => setNewReview(prev => ({ ...prev, content: e.target.value }))}
-                      placeholder="Share your thoughts about this book..."
-                      rows={4}
-                      className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 resize-none"
+                    <input
+                      type="text"
+                      value={newEdition.isbn}
+                      onChange={(e) => setNewEdition(prev => ({ ...prev, isbn: e.target.value }))}
+                      placeholder="ISBN (optional)"
+                      className="w-full px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-1 focus:ring-primary"
                     />
-                    <div className="flex gap-2 mt-3">
+                    <label className="flex items-center gap-2 text-xs text-primary-600">
+                      <input
+                        type="checkbox"
+                        checked={newEdition.active}
+                        onChange={(e) => setNewEdition(prev => ({ ...prev, active: e.target.checked }))}
+                        className="accent-primary"
+                      />
+                      This is the edition I'm reading now
+                    </label>
+                    <div className="flex gap-2">
                       <button
-                        onClick={handleAddReview}
-                        disabled={!newReview.content || newReview.rating === 0}
-                        className="flex-1 py-2 bg-primary text-white rounded-cozy text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        onClick={handleAddEdition}
+                        className="flex-1 py-1.5 bg-primary text-white rounded-cozy text-xs font-medium hover:bg-primary-dark transition-colors"
                       >
-                        Save Review
+                        Save
                       </button>
                       <button
-                        onClick={() => { setIsAddingReview(false); setNewReview({ content: '', rating: 0 }); }}
-                        className="flex-1 py-2 bg-white text-primary-600 rounded-cozy text-sm font-medium hover:bg-lavender transition-colors"
+                        onClick={() => { setIsAddingEdition(false); setNewEdition(emptyEdition); }}
+                        className="flex-1 py-1.5 bg-white text-primary-600 rounded-cozy text-xs font-medium hover:bg-lavender transition-colors"
                       >
                         Cancel
                       </button>
@@ -431,27 +656,250 @@ export function ReviewModal({
                   </div>
                 )}
 
-                {/* Existing reviews */}
-                {book.reviews && book.reviews.length > 0 ? (
-                  <div className="space-y-4">
-                    {book.reviews
-                      .sort((a, b) => new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime())
-                      .map((review) => (
-                        <ReviewCard
-                          key={review.id}
-                          review={review}
-                          isEditing={editingReviewId === review.id}
-                          onStartEdit={() => setEditingReviewId(review.id)}
-                          onSaveEdit={handleEditReview}
-                          onCancelEdit={() => setEditingReviewId(null)}
-                          onDelete={() => setDeleteReviewId(review.id)}
+                {editions.length > 0 ? (
+                  <ul className="space-y-1">
+                    {editions.map(edition => {
+                      const isActive = edition.id === book.activeEdition?.id;
+                      return (
+                        <li key={edition.id} className="group flex items-center justify-between text-sm text-primary-600">
+                          <span className="flex items-center gap-2">
+                            {isActive && <CheckCircle2 className="w-3.5 h-3.5 text-primary" />}
+                            <span className={isActive ? 'font-medium text-primary-800' : ''}>{describeEdition(edition)}</span>
+                            {edition.isbn && <span className="text-xs text-primary-400">ISBN {edition.isbn}</span>}
+                          </span>
+                          <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                            {!isActive && (
+                              <button
+                                onClick={() => onSetActiveEdition(book.id, edition.id)}
+                                className="px-2 py-0.5 text-xs text-primary-500 hover:text-primary hover:bg-lavender rounded-cozy"
+                                title="Track progress against this edition"
+                              >
+                                Use this
+                              </button>
+                            )}
+                            <button
+                              onClick={() => onDeleteEdition(book.id, edition.id)}
+                              className="p-1 text-primary-300 hover:text-red-500"
+                              title="Delete edition"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-primary-400 italic">No editions recorded</p>
+                )}
+              </div>
+
+              {/* Reading History - one entry per read, re-reads included */}
+              <div className="px-6 py-4 border-b border-lavender">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <History className="w-4 h-4 text-primary-400" />
+                    <span className="text-sm font-medium text-primary-700">Reading History</span>
+                  </div>
+                  {!isAddingSession && (
+                    <button
+                      onClick={() => setIsAddingSession(true)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-primary-600 hover:text-primary hover:bg-lavender rounded-cozy transition-all"
+                    >
+                      <Plus className="w-3.5 h-3.5" /> Log a Read
+                    </button>
+                  )}
+                </div>
+
+                {isAddingSession && (
+                  <div className="mb-3 p-3 bg-lavender-light rounded-cozy space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="text-xs text-primary-500">
+                        Started
+                        <input
+                          type="date"
+                          value={newSession.startedAt}
+                          onChange={(e) => setNewSession(prev => ({ ...prev, startedAt: e.target.value }))}
+                          className="w-full mt-1 px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 focus:outline-none focus:ring-1 focus:ring-primary"
                         />
-                      ))}
+                      </label>
+                      <label className="text-xs text-primary-500">
+                        Finished
+                        <input
+                          type="date"
+                          value={newSession.finishedAt}
+                          onChange={(e) => setNewSession(prev => ({ ...prev, finishedAt: e.target.value }))}
+                          className="w-full mt-1 px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 focus:outline-none focus:ring-1 focus:ring-primary"
+                        />
+                      </label>
+                    </div>
+                    {editions.length > 1 && (
+                      <select
+                        value={newSession.editionId}
+                        onChange={(e) => setNewSession(prev => ({ ...prev, editionId: e.target.value }))}
+                        className="w-full px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 focus:outline-none focus:ring-1 focus:ring-primary"
+                        aria-label="Edition read"
+                      >
+                        <option value="">Which edition? (optional)</option>
+                        {editions.map(edition => (
+                          <option key={edition.id} value={edition.id}>{describeEdition(edition)}</option>
+                        ))}
+                      </select>
+                    )}
+                    <input
+                      type="text"
+                      value={newSession.edition}
+                      onChange={(e) => setNewSession(prev => ({ ...prev, edition: e.target.value }))}
+                      placeholder={editions.length > 1 ? 'Notes on the edition (optional)' : 'Edition (optional)'}
+                      className="w-full px-2 py-1.5 bg-white border border-lavender-dark rounded text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleAddSession}
+                        disabled={!newSession.startedAt && !newSession.finishedAt}
+                        className="flex-1 py-1.5 bg-primary text-white rounded-cozy text-xs font-medium hover:bg-primary-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => { setIsAddingSession(false); setNewSession({ startedAt: '', finishedAt: '', edition: '', editionId: '' }); }}
+                        className="flex-1 py-1.5 bg-white text-primary-600 rounded-cozy text-xs font-medium hover:bg-lavender transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
                   </div>
+                )}
+
+                {book.sessions && book.sessions.length > 0 ? (
+                  <ul className="space-y-1">
+                    {book.sessions.map((session, index) => (
+                      <li key={session.id} className="group flex items-center justify-between text-sm text-primary-600">
+                        <span>
+                          <span className="text-primary-400 mr-2">#{index + 1}</span>
+                          {formatSession(session)}
+                          {editionOf(session) && (
+                            <span className="text-primary-400"> · {describeEdition(editionOf(session)!)}</span>
+                          )}
+                          {session.edition && (
+                            <span className="text-primary-400 italic"> · {session.edition}</span>
+                          )}
+                        </span>
+                        <button
+                          onClick={() => onDeleteSession(book.id, session.id)}
+                          className="p-1 text-primary-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                          title="Delete session"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
                 ) : (
-                  <p className="text-primary-400 text-center py-8 italic">
-                    No reviews yet. Share your thoughts about this book!
-                  </p>
+                  <p className="text-xs text-primary-400 italic">No reads logged yet</p>
+                )}
+              </div>
+
+              {/* Reviews section */}
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-1">
+                    {([['reviews', 'My Reviews', Quote], ['quotes', 'Quotes', MessageSquareQuote]] as const).map(([tab, label, Icon]) => (
+                      <button
+                        key={tab}
+                        onClick={() => setReviewTab(tab)}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-cozy font-serif text-lg font-medium transition-all ${
+                          reviewTab === tab ? 'bg-lavender text-primary-800' : 'text-primary-400 hover:text-primary-600'
+                        }`}
+                      >
+                        <Icon className="w-5 h-5 text-primary-400" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {reviewTab === 'reviews' && !isAddingReview && (
+                    <button
+                      onClick={() => setIsAddingReview(true)}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary-600 hover:text-primary hover:bg-lavender rounded-cozy transition-all"
+                    >
+                      <Plus className="w-4 h-4" /> Add Review
+                    </button>
+                  )}
+                </div>
+
+                {reviewTab === 'quotes' ? (
+                  <QuotesPanel bookId={book.id} />
+                ) : (
+                  <>
+                    {/* Add new review form */}
+                    {isAddingReview && (
+                      <div className="mb-6 p-4 bg-lavender-light rounded-cozy">
+                        <div className="mb-3">
+                          <label className="block text-sm font-medium text-primary-700 mb-2">
+                            Your Rating
+                          </label>
+                          <div className="flex items-center gap-2">
+                            <StarRating
+                              rating={newReview.rating}
+                              size="lg"
+                              interactive
+                              onRatingChange={(rating) => setNewReview(prev => ({ ...prev, rating }))}
+                            />
+                            <span className="text-sm text-primary-500">
+                              {newReview.rating > 0 ? `${newReview.rating}/5` : 'Click to rate'}
+                            </span>
+                          </div>
+                        </div>
+                        <textarea
+                          value={newReview.content}
+                          onChange={(e) => setNewReview(prev => ({ ...prev, content: e.target.value }))}
+                          placeholder="Share your thoughts about this book..."
+                          rows={4}
+                          className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30 resize-none"
+                        />
+                        <ReviewPreview content={newReview.content} />
+                        <div className="flex gap-2 mt-3">
+                          <button
+                            onClick={handleAddReview}
+                            disabled={!newReview.content || newReview.rating === 0}
+                            className="flex-1 py-2 bg-primary text-white rounded-cozy text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Save Review
+                          </button>
+                          <button
+                            onClick={() => { setIsAddingReview(false); setNewReview({ content: '', rating: 0 }); }}
+                            className="flex-1 py-2 bg-white text-primary-600 rounded-cozy text-sm font-medium hover:bg-lavender transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Existing reviews */}
+                    {book.reviews && book.reviews.length > 0 ? (
+                      <div className="space-y-4">
+                        {book.reviews
+                          .sort((a, b) => new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime())
+                          .map((review) => (
+                            <ReviewCard
+                              key={review.id}
+                              review={review}
+                              isEditing={editingReviewId === review.id}
+                              onStartEdit={() => setEditingReviewId(review.id)}
+                              onSaveEdit={handleEditReview}
+                              onCancelEdit={() => setEditingReviewId(null)}
+                              onDelete={() => setDeleteReviewId(review.id)}
+                              onTogglePublic={() => onEditReview(book.id, review.id, { isPublic: !review.isPublic })}
+                            />
+                          ))}
+                      </div>
+                    ) : (
+                      <p className="text-primary-400 text-center py-8 italic">
+                        No reviews yet. Share your thoughts about this book!
+                      </p>
+                    )}
+                  </>
                 )}
               </div>
 
@@ -547,11 +995,11 @@ export function ReviewModal({
                             >
                               {/* Cover */}
                               <img
-                                src={similarBook.coverUrl || `https://placehold.co/60x90/635C7B/white?text=${encodeURIComponent(similarBook.title.substring(0, 6))}`}
+                                src={coverSrc(similarBook.coverUrl, 'small') || placeholderCoverSrc(similarBook.title)}
                                 alt={`Cover of ${similarBook.title}`}
                                 className="w-12 h-18 object-cover rounded shadow-sm flex-shrink-0"
                                 onError={(e) => {
-                                  (e.target as HTMLImageElement).src = `https://placehold.co/60x90/635C7B/white?text=${encodeURIComponent(similarBook.title.substring(0, 6))}`;
+                                  (e.target as HTMLImageElement).src = placeholderCoverSrc(similarBook.title);
                                 }}
                               />
                               
@@ -711,6 +1159,110 @@ export function ReviewModal({
   );
 }
 
+function formatSessionDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Describe a reading session, e.g. "Mar 3, 2024 → Apr 1, 2024"
+ */
+function formatSession(session: ReadingSession): string {
+  const start = session.startedAt ? formatSessionDate(session.startedAt) : null;
+  if (session.finishedAt) {
+    const end = formatSessionDate(session.finishedAt);
+    return start ? `${start} → ${end}` : `Finished ${end}`;
+  }
+  if (session.abandonedAt) {
+    const end = formatSessionDate(session.abandonedAt);
+    return start ? `${start} → abandoned ${end}` : `Abandoned ${end}`;
+  }
+  return start ? `Started ${start}` : 'In progress';
+}
+
+const creditVerbs: Record<ContributorRole, string> = {
+  author: 'by',
+  translator: 'translated by',
+  editor: 'edited by',
+  illustrator: 'illustrated by',
+  narrator: 'narrated by',
+};
+
+/**
+ * Credit line, e.g. "by Fyodor Dostoevsky" then "translated by Richard Pevear & Larissa Volokhonsky".
+ * Names link to the author's page once saved.
+ */
+function ContributorCredits({ contributors, onOpenAuthor }: { contributors: Contributor[]; onOpenAuthor?: (authorId: string) => void }) {
+  const roles = (Object.keys(creditVerbs) as ContributorRole[]).filter(role => contributors.some(c => c.role === role));
+
+  return (
+    <>
+      {roles.map(role => (
+        <p key={role} className={role === 'author' ? 'text-primary-600 text-lg' : 'text-primary-500 text-sm'}>
+          {creditVerbs[role]}{' '}
+          {contributors.filter(c => c.role === role).map(({ authorId, name }, index) => (
+            <span key={authorId ?? name}>
+              {index > 0 && ' & '}
+              {authorId && onOpenAuthor ? (
+                <button
+                  onClick={() => onOpenAuthor(authorId)}
+                  className="hover:text-primary hover:underline transition-colors"
+                >
+                  {name}
+                </button>
+              ) : (
+                name
+              )}
+            </span>
+          ))}
+        </p>
+      ))}
+    </>
+  );
+}
+
+/**
+ * "Book 2 of The Expanse", opening the series view when there is one
+ */
+function SeriesLine({ series, onOpenSeries }: { series: BookSeries; onOpenSeries?: (seriesId: string) => void }) {
+  const { id } = series;
+  if (!id || !onOpenSeries) {
+    return (
+      <p className="mt-1 flex items-center gap-1.5 text-sm text-primary-500">
+        <Layers className="w-3.5 h-3.5" />
+        {describeSeries(series)}
+      </p>
+    );
+  }
+  return (
+    <button
+      onClick={() => onOpenSeries(id)}
+      className="mt-1 flex items-center gap-1.5 text-sm text-primary-500 hover:text-primary hover:underline"
+    >
+      <Layers className="w-3.5 h-3.5" />
+      {describeSeries(series)}
+    </button>
+  );
+}
+
+/**
+ * Formatting help under a review editor, and the review as it will look
+ */
+function ReviewPreview({ content }: { content: string }) {
+  return (
+    <>
+      <p className="mt-1 text-xs text-primary-400">
+        Markdown: **bold**, *italic*, # heading, &gt; quote, - list, ||spoiler||
+      </p>
+      {content.trim() && (
+        <div className="mt-2 p-3 bg-white/60 border border-dashed border-lavender-dark rounded-cozy">
+          <p className="text-xs text-primary-400 mb-1">Preview</p>
+          <Markdown text={content} className="text-primary-700 leading-relaxed" />
+        </div>
+      )}
+    </>
+  );
+}
+
 interface ReviewCardProps {
   review: Review;
   isEditing: boolean;
@@ -718,9 +1270,10 @@ interface ReviewCardProps {
   onSaveEdit: (review: Review) => void;
   onCancelEdit: () => void;
   onDelete: () => void;
+  onTogglePublic: () => void;
 }
 
-function ReviewCard({ review, isEditing, onStartEdit, onSaveEdit, onCancelEdit, onDelete }: ReviewCardProps) {
+function ReviewCard({ review, isEditing, onStartEdit, onSaveEdit, onCancelEdit, onDelete, onTogglePublic }: ReviewCardProps) {
   const [editContent, setEditContent] = useState(review.content);
   const [editRating, setEditRating] = useState(review.rating);
 
@@ -748,6 +1301,7 @@ function ReviewCard({ review, isEditing, onStartEdit, onSaveEdit, onCancelEdit,
           rows={4}
           className="w-full px-3 py-2 bg-white border border-lavender-dark rounded-cozy text-primary-800 focus:outline-none focus:ring-2 focus:ring-primary/30 resize-none"
         />
+        <ReviewPreview content={editContent} />
         <div className="flex gap-2 mt-3">
           <button
             onClick={handleSave}
@@ -773,24 +1327,34 @@ function ReviewCard({ review, isEditing, onStartEdit, onSaveEdit, onCancelEdit,
           <StarRating rating={review.rating} size="sm" />
           <span className="text-sm text-primary-500">{review.rating}/5</span>
         </div>
-        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="flex items-center gap-1">
+          {/* Always visible so it's clear which reviews are shared */}
           <button
-            onClick={onStartEdit}
-            className="p-1 text-primary-400 hover:text-primary hover:bg-lavender rounded transition-all"
-            title="Edit review"
+            onClick={onTogglePublic}
+            className={`p-1 rounded transition-all hover:bg-lavender ${review.isPublic ? 'text-primary' : 'text-primary-300 hover:text-primary'}`}
+            title={review.isPublic ? 'Public - click to make private' : 'Private - click to show on your public page'}
           >
-            <Edit3 className="w-3.5 h-3.5" />
-          </button>
-          <button
-            onClick={onDelete}
-            className="p-1 text-primary-400 hover:text-red-500 hover:bg-red-50 rounded transition-all"
-            title="Delete review"
-          >
-            <Trash2 className="w-3.5 h-3.5" />
+            {review.isPublic ? <Globe className="w-3.5 h-3.5" /> : <Lock className="w-3.5 h-3.5" />}
           </button>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={onStartEdit}
+              className="p-1 text-primary-400 hover:text-primary hover:bg-lavender rounded transition-all"
+              title="Edit review"
+            >
+              <Edit3 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onDelete}
+              className="p-1 text-primary-400 hover:text-red-500 hover:bg-red-50 rounded transition-all"
+              title="Delete review"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
         </div>
       </div>
-      <p className="text-primary-700 leading-relaxed italic">"{review.content}"</p>
+      <Markdown text={review.content} className="text-primary-700 leading-relaxed" />
       <div className="flex items-center gap-1 mt-2 text-primary-400 text-xs">
         <Calendar className="w-3 h-3" />
         <span>
@@ -1,5 +1,5 @@
-import { Search, SlidersHorizontal, X, ArrowUpDown } from 'lucide-react';
-import { ReadingStatus, Shelf } from '../types/book';
+import { Search, SlidersHorizontal, X, ArrowUpDown, Settings2 } from 'lucide-react';
+import { ReadingStatus, Shelf, TagInfo, orderTagTree } from '../types/book';
 import { SortOption, SortDirection } from '../App';
 
 interface SearchFilterBarProps {
@@ -15,8 +15,11 @@ interface SearchFilterBarProps {
   onSortByChange: (sort: SortOption) => void;
   sortDirection: SortDirection;
   onSortDirectionChange: (direction: SortDirection) => void;
-  allTags: string[];
+  ratingMin: number;
+  onRatingMinChange: (rating: number) => void;
+  tags: TagInfo[];
   allShelves: Shelf[];
+  onManageTags?: () => void;
 }
 
 export function SearchFilterBar({
@@ -30,7 +33,10 @@ export function SearchFilterBar({
   onSortByChange,
   sortDirection,
   onSortDirectionChange,
-  allTags,
+  ratingMin,
+  onRatingMinChange,
+  tags,
+  onManageTags,
 }: SearchFilterBarProps) {
   const statusOptions: { value: ReadingStatus | 'all'; label: string }[] = [
     { value: 'all', label: 'All Books' },
@@ -39,6 +45,13 @@ export function SearchFilterBar({
     { value: 'read', label: 'Read' },
   ];
 
+  const ratingOptions: { value: number; label: string }[] = [
+    { value: 0, label: 'Any Rating' },
+    { value: 3, label: '3+ Stars' },
+    { value: 4, label: '4+ Stars' },
+    { value: 4.5, label: '4.5+ Stars' },
+  ];
+
   const sortOptions: { value: SortOption; label: string }[] = [
     { value: 'dateAdded', label: 'Date Added' },
     { value: 'rating', label: 'Rating' },
@@ -86,6 +99,19 @@ export function SearchFilterBar({
           </select>
         </div>
 
+        {/* Minimum rating filter */}
+        <select
+          value={ratingMin}
+          onChange={(e) => onRatingMinChange(Number(e.target.value))}
+          className="px-3 py-2.5 bg-cream border border-lavender-dark rounded-cozy text-primary-700 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary transition-all cursor-pointer"
+        >
+          {ratingOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
         {/* Sort controls */}
         <div className="flex items-center gap-2">
           <select
@@ -111,21 +137,24 @@ export function SearchFilterBar({
         </div>
       </div>
 
-      {/* Tag chips */}
-      {allTags.length > 0 && (
+      {/* Tag chips, sub-genres right after their parent; a parent also matches its sub-genres */}
+      {tags.length > 0 && (
         <div className="flex flex-wrap gap-2">
           <span className="text-xs text-primary-400 py-1">Filter by tag:</span>
-          {allTags.map(tag => (
+          {orderTagTree(tags).map(({ tag, depth }) => (
             <button
-              key={tag}
-              onClick={() => onTagFilterChange(tagFilter === tag ? null : tag)}
-              className={`px-2.5 py-1 text-xs rounded-full font-medium transition-all ${
-                tagFilter === tag
+              key={tag.name}
+              onClick={() => onTagFilterChange(tagFilter === tag.name ? null : tag.name)}
+              title={tag.parent ? `Under ${tag.parent}` : undefined}
+              className={`flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full font-medium transition-all ${
+                tagFilter === tag.name
                   ? 'bg-primary text-white'
                   : 'bg-lavender text-primary-600 hover:bg-lavender-dark'
               }`}
             >
-              #{tag.replace(/\s+/g, '')}
+              {tag.color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />}
+              {depth > 0 && <span className="opacity-60">›</span>}
+              #{tag.name.replace(/\s+/g, '')}
             </button>
           ))}
           {tagFilter && (
@@ -137,6 +166,15 @@ export function SearchFilterBar({
               Clear
             </button>
           )}
+          {onManageTags && (
+            <button
+              onClick={onManageTags}
+              className="ml-auto px-2.5 py-1 text-xs text-primary-500 hover:text-primary-700 flex items-center gap-1 transition-colors"
+            >
+              <Settings2 className="w-3 h-3" />
+              Manage tags
+            </button>
+          )}
         </div>
       )}
     </div>
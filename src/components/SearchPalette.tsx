@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, BookOpen, Quote, FileText, Loader2 } from 'lucide-react';
+import * as api from '../services/api';
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenBook: (bookId: string) => void;
+  onOpenArticle: (articleId: string) => void;
+}
+
+interface PaletteItem {
+  key: string;
+  kind: 'book' | 'review' | 'article';
+  title: string;
+  subtitle: string;
+  snippet: string;
+  open: () => void;
+}
+
+const kindIcons = {
+  book: BookOpen,
+  review: Quote,
+  article: FileText,
+};
+
+const groupLabels = {
+  book: 'Books',
+  review: 'Reviews',
+  article: 'Articles',
+};
+
+/**
+ * Render a search snippet, highlighting the <mark>ed words without injecting HTML
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<\/?mark>/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-lavender text-primary-900 rounded px-0.5">{part}</mark>
+          : <span key={i}>{part}</span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Global full-text search over books, reviews and articles (Ctrl/⌘ K)
+ */
+export function SearchPalette({ isOpen, onClose, onOpenBook, onOpenArticle }: SearchPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<api.SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Start fresh each time the palette opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setResults(null);
+      setActiveIndex(0);
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen]);
+
+  // Search once typing settles
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const data = await api.searchLibrary(q);
+        if (!cancelled) {
+          setResults(data);
+          setActiveIndex(0);
+        }
+      } catch (err) {
+        console.error('Failed to search library:', err);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const items: PaletteItem[] = results ? [
+    ...results.books.map(book => ({
+      key: `book-${book.id}`,
+      kind: 'book' as const,
+      title: book.title,
+      subtitle: book.author ? `by ${book.author}` : '',
+      snippet: book.snippet,
+      open: () => onOpenBook(book.id),
+    })),
+    ...results.reviews.map(review => ({
+      key: `review-${review.id}`,
+      kind: 'review' as const,
+      title: review.bookTitle,
+      subtitle: `Your review · ${review.rating}★`,
+      snippet: review.snippet,
+      open: () => onOpenBook(review.bookId),
+    })),
+    ...results.articles.map(article => ({
+      key: `article-${article.id}`,
+      kind: 'article' as const,
+      title: article.title,
+      subtitle: article.url,
+      snippet: article.snippet,
+      open: () => onOpenArticle(article.id),
+    })),
+  ] : [];
+
+  const openItem = (item: PaletteItem) => {
+    item.open();
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault();
+      openItem(items[activeIndex]);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[12vh]" onClick={onClose}>
+            <motion.div
+              className="bg-cream rounded-cozy-lg shadow-cozy-lg w-full max-w-xl overflow-hidden"
+              initial={{ opacity: 0, y: -10, scale: 0.98 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -10, scale: 0.98 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center gap-3 px-4 border-b border-lavender">
+                {isSearching
+                  ? <Loader2 className="w-5 h-5 text-primary-400 animate-spin" />
+                  : <Search className="w-5 h-5 text-primary-400" />}
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Search descriptions, reviews and articles..."
+                  className="flex-1 py-4 bg-transparent text-primary-800 placeholder:text-primary-300 focus:outline-none"
+                />
+                <kbd className="text-xs text-primary-400 border border-lavender-dark rounded px-1.5 py-0.5">esc</kbd>
+              </div>
+
+              <div className="max-h-[60vh] overflow-y-auto">
+                {results && items.length === 0 && !isSearching && (
+                  <p className="px-4 py-8 text-center text-primary-400 text-sm">
+                    Nothing matches "{query.trim()}"
+                  </p>
+                )}
+
+                {items.map((item, index) => {
+                  const Icon = kindIcons[item.kind];
+                  const startsGroup = index === 0 || items[index - 1].kind !== item.kind;
+                  return (
+                    <div key={item.key}>
+                      {startsGroup && (
+                        <div className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-primary-400">
+                          {groupLabels[item.kind]}
+                        </div>
+                      )}
+                      <button
+                        onClick={() => openItem(item)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`w-full text-left px-4 py-2.5 flex gap-3 transition-colors ${
+                          index === activeIndex ? 'bg-lavender-light' : ''
+                        }`}
+                      >
+                        <Icon className="w-4 h-4 mt-1 text-primary-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <div className="text-primary-900 font-medium truncate">{item.title}</div>
+                          <div className="text-xs text-primary-400 truncate">{item.subtitle}</div>
+                          {item.snippet && (
+                            <p className="text-sm text-primary-600 mt-1 line-clamp-2">
+                              <Snippet text={item.snippet} />
+                            </p>
+                          )}
+                        </div>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
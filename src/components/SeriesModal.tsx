@@ -0,0 +1,325 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Layers, Loader2, ArrowLeft, CheckCircle2, BookOpen, Circle, Edit3, Trash2, Save, Wand2 } from 'lucide-react';
+import { ReadingStatus } from '../types/book';
+import * as api from '../services/api';
+
+interface SeriesModalProps {
+  isOpen: boolean;
+  seriesId: string | null; // Open straight on one series instead of the list
+  onClose: () => void;
+  onOpenBook: (bookId: string) => void;
+  onChanged: () => void;
+}
+
+const statusIcons: Record<ReadingStatus, ReactNode> = {
+  read: <CheckCircle2 className="w-5 h-5 text-green-600" />,
+  reading: <BookOpen className="w-5 h-5 text-primary" />,
+  want_to_read: <Circle className="w-5 h-5 text-primary-300" />,
+};
+
+const statusLabels: Record<ReadingStatus, string> = {
+  want_to_read: 'Unread',
+  reading: 'Reading',
+  read: 'Read',
+};
+
+/**
+ * The user's series and, for one series, its books in reading order with
+ * what has been read so far
+ */
+export function SeriesModal({ isOpen, seriesId, onClose, onOpenBook, onChanged }: SeriesModalProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [seriesList, setSeriesList] = useState<api.SeriesSummary[]>([]);
+  const [series, setSeries] = useState<api.SeriesDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [detectedCount, setDetectedCount] = useState<number | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedId(seriesId);
+      setDetectedCount(null);
+    }
+  }, [isOpen, seriesId]);
+
+  const loadList = () => {
+    setIsLoading(true);
+    setError(null);
+    api.fetchSeriesList()
+      .then(setSeriesList)
+      .catch(err => {
+        console.error('Failed to load series:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load series');
+      })
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRenaming(null);
+    if (!selectedId) {
+      setSeries(null);
+      loadList();
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setSeries(null);
+    api.fetchSeries(selectedId)
+      .then(setSeries)
+      .catch(err => {
+        console.error('Failed to load series:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load series');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, selectedId]);
+
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    setError(null);
+    try {
+      const { moved } = await api.detectSeries();
+      setDetectedCount(moved);
+      if (moved > 0) {
+        loadList();
+        onChanged();
+      }
+    } catch (err) {
+      console.error('Failed to detect series:', err);
+      setError(err instanceof Error ? err.message : 'Failed to detect series');
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!series || !renaming?.trim()) return;
+    setError(null);
+    try {
+      const renamed = await api.renameSeries(series.id, renaming.trim());
+      setSeries({ ...series, name: renamed.name });
+      setRenaming(null);
+      onChanged();
+    } catch (err) {
+      console.error('Failed to rename series:', err);
+      setError(err instanceof Error ? err.message : 'Failed to rename series');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!series) return;
+    setError(null);
+    try {
+      await api.deleteSeries(series.id);
+      setSelectedId(null);
+      onChanged();
+    } catch (err) {
+      console.error('Failed to delete series:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete series');
+    }
+  };
+
+  const readCount = series?.books.filter(book => book.status === 'read').length ?? 0;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-cream rounded-cozy-lg shadow-cozy-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-lavender">
+                <div className="flex items-center gap-3 min-w-0">
+                  {selectedId ? (
+                    <button
+                      onClick={() => setSelectedId(null)}
+                      className="w-10 h-10 bg-lavender rounded-full flex items-center justify-center hover:bg-lavender-dark transition-colors"
+                      aria-label="All series"
+                    >
+                      <ArrowLeft className="w-5 h-5 text-primary" />
+                    </button>
+                  ) : (
+                    <div className="w-10 h-10 bg-lavender rounded-full flex items-center justify-center">
+                      <Layers className="w-5 h-5 text-primary" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    {renaming !== null ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={renaming}
+                          onChange={(e) => setRenaming(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                          className="px-3 py-1.5 bg-white border border-lavender-dark rounded-cozy text-primary-800 focus:outline-none focus:ring-2 focus:ring-primary/30"
+                          autoFocus
+                        />
+                        <button
+                          onClick={handleRename}
+                          className="p-1.5 text-primary hover:bg-lavender rounded-full transition-all"
+                          aria-label="Save name"
+                        >
+                          <Save className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <h2 className="font-serif text-xl font-semibold text-primary-900 truncate">
+                        {selectedId ? series?.name ?? 'Series' : 'Series'}
+                      </h2>
+                    )}
+                    <p className="text-sm text-primary-500">
+                      {selectedId
+                        ? series && `${readCount} of ${series.books.length} read`
+                        : 'Books that belong together, in reading order'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {series && renaming === null && (
+                    <>
+                      <button
+                        onClick={() => setRenaming(series.name)}
+                        className="p-2 text-primary-400 hover:text-primary hover:bg-lavender rounded-full transition-all"
+                        title="Rename series"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={handleDelete}
+                        className="p-2 text-primary-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-all"
+                        title="Delete series (keeps its books)"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={onClose}
+                    className="p-2 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+                    aria-label="Close series"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="p-6 space-y-3">
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {isLoading && (
+                  <div className="flex items-center gap-2 text-primary-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Loading series…
+                  </div>
+                )}
+
+                {/* Every series */}
+                {!selectedId && !isLoading && (
+                  <>
+                    {seriesList.length === 0 ? (
+                      <p className="text-sm text-primary-500">
+                        No series yet. Set one when editing a book, or find them in your titles below.
+                      </p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {seriesList.map(item => (
+                          <li key={item.id}>
+                            <button
+                              onClick={() => setSelectedId(item.id)}
+                              className="w-full p-3 text-left bg-white rounded-cozy shadow-cozy hover:bg-lavender-light transition-colors"
+                            >
+                              <div className="flex items-center justify-between gap-3 mb-2">
+                                <span className="text-sm font-medium text-primary-900 truncate">{item.name}</span>
+                                <span className="text-xs text-primary-500 shrink-0">
+                                  {item.readCount} of {item.bookCount} read
+                                </span>
+                              </div>
+                              <div className="h-1.5 bg-lavender rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-primary rounded-full"
+                                  style={{ width: `${Math.round((item.readCount / item.bookCount) * 100)}%` }}
+                                />
+                              </div>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div className="flex items-center gap-3 pt-2">
+                      <button
+                        onClick={handleDetect}
+                        disabled={isDetecting}
+                        className="flex items-center gap-2 px-4 py-2 bg-lavender text-primary-700 rounded-cozy text-sm font-medium hover:bg-lavender-dark transition-colors disabled:opacity-60"
+                      >
+                        {isDetecting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                        Find series in titles
+                      </button>
+                      {detectedCount !== null && (
+                        <span className="text-sm text-primary-500">
+                          {detectedCount > 0
+                            ? `Moved ${detectedCount} book${detectedCount !== 1 ? 's' : ''} into series`
+                            : 'No titles like "Mort (Discworld, #4)" found'}
+                        </span>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                {/* One series, in reading order */}
+                {series && (
+                  <ol className="space-y-2">
+                    {series.books.map(book => (
+                      <li key={book.id}>
+                        <button
+                          onClick={() => onOpenBook(book.id)}
+                          className={`w-full flex items-center gap-3 p-2 text-left bg-white rounded-cozy shadow-cozy hover:bg-lavender-light transition-colors ${book.status === 'read' ? 'opacity-75' : ''}`}
+                        >
+                          <span className="w-8 text-center text-sm font-semibold text-primary-400">
+                            {book.position ?? '–'}
+                          </span>
+                          <img src={api.coverSrc(book.coverUrl, 'small')} alt="" className="w-10 h-14 object-cover rounded" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-primary-900 truncate">{book.title}</p>
+                            <p className="text-xs text-primary-500 truncate">{book.author}</p>
+                          </div>
+                          <span title={statusLabels[book.status]}>
+                            {statusIcons[book.status]}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,41 @@
+import { Check } from 'lucide-react';
+import { Shelf } from '../types/book';
+
+interface ShelfPickerProps {
+  shelves: Shelf[]; // Custom shelves only
+  selected: string[];
+  onChange: (shelfIds: string[]) => void;
+}
+
+/**
+ * Toggle chips for putting a book on any number of custom shelves
+ */
+export function ShelfPicker({ shelves, selected, onChange }: ShelfPickerProps) {
+  const toggle = (shelfId: string) => {
+    onChange(selected.includes(shelfId)
+      ? selected.filter(id => id !== shelfId)
+      : [...selected, shelfId]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {shelves.map(shelf => {
+        const isOn = selected.includes(shelf.id);
+        return (
+          <button
+            key={shelf.id}
+            type="button"
+            onClick={() => toggle(shelf.id)}
+            aria-pressed={isOn}
+            className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-full transition-colors ${
+              isOn ? 'bg-primary text-white' : 'bg-lavender text-primary-600 hover:bg-lavender-dark'
+            }`}
+          >
+            {isOn && <Check className="w-3.5 h-3.5" />}
+            {shelf.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { ReadingStatus, ShelfRule } from '../types/book';
+
+interface SmartShelfFormProps {
+  onCreate: (name: string, rule: ShelfRule) => void;
+  onCancel: () => void;
+}
+
+const ratingOptions = [3, 3.5, 4, 4.5, 5];
+
+const inputClass = 'w-full px-2 py-1.5 text-sm bg-cream border border-lavender-dark rounded text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-1 focus:ring-primary';
+
+/**
+ * Compact sidebar form for a smart shelf: a name plus the conditions a book must match
+ */
+export function SmartShelfForm({ onCreate, onCancel }: SmartShelfFormProps) {
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState<ReadingStatus | ''>('');
+  const [ratingMin, setRatingMin] = useState('');
+  const [tags, setTags] = useState('');
+  const [author, setAuthor] = useState('');
+  const [finishedYear, setFinishedYear] = useState('');
+
+  const rule: ShelfRule = {
+    ...(status && { status }),
+    ...(ratingMin && { ratingMin: parseFloat(ratingMin) }),
+    ...(tags.trim() && { tags: tags.split(',').map(t => t.trim()).filter(Boolean) }),
+    ...(author.trim() && { author: author.trim() }),
+    ...(finishedYear && { finishedYear: parseInt(finishedYear) }),
+  };
+  const canCreate = !!name.trim() && Object.keys(rule).length > 0;
+
+  const handleCreate = () => {
+    if (canCreate) onCreate(name.trim(), rule);
+  };
+
+  return (
+    <div className="mb-2 px-2 space-y-1.5">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Shelf name..."
+        className={inputClass}
+        autoFocus
+      />
+      <select
+        value={status}
+        onChange={(e) => setStatus(e.target.value as ReadingStatus | '')}
+        className={inputClass}
+      >
+        <option value="">Any status</option>
+        <option value="want_to_read">Want to Read</option>
+        <option value="reading">Reading</option>
+        <option value="read">Read</option>
+      </select>
+      <select
+        value={ratingMin}
+        onChange={(e) => setRatingMin(e.target.value)}
+        className={inputClass}
+      >
+        <option value="">Any rating</option>
+        {ratingOptions.map(rating => (
+          <option key={rating} value={rating}>{rating}+ stars</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, comma separated"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={author}
+        onChange={(e) => setAuthor(e.target.value)}
+        placeholder="Author"
+        className={inputClass}
+      />
+      <input
+        type="number"
+        value={finishedYear}
+        onChange={(e) => setFinishedYear(e.target.value)}
+        placeholder="Finished in year"
+        className={inputClass}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={handleCreate}
+          disabled={!canCreate}
+          className="flex-1 py-1 text-xs bg-primary text-white rounded hover:bg-primary-dark transition-colors disabled:opacity-50"
+        >
+          Create
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 py-1 text-xs bg-lavender text-primary-600 rounded hover:bg-lavender-dark transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Tags, Loader2, Pencil, Merge } from 'lucide-react';
+import { TagInfo, orderTagTree } from '../types/book';
+import * as api from '../services/api';
+
+interface TagManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tags: TagInfo[];
+  // `from` tags now go by `to` on every book
+  onChanged: (moved: { from: string[]; to: string } | null) => void;
+}
+
+const tagColors = ['#7c6fb0', '#e57373', '#f0a860', '#e6c84f', '#7bb77e', '#5aa5b8', '#6b8fd6', '#c77dba'];
+
+/**
+ * Modal for tidying up tags: rename, merge near-duplicates,
+ * nest genres under broader ones and pick colors
+ */
+export function TagManager({ isOpen, onClose, tags, onChanged }: TagManagerProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeInto, setMergeInto] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState('');
+  const [colorPickerFor, setColorPickerFor] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setSelected([]);
+    setMergeInto('');
+    setRenaming(null);
+    setColorPickerFor(null);
+    setError(null);
+    onClose();
+  };
+
+  const run = async (change: () => Promise<unknown>, moved: { from: string[]; to: string } | null = null) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await change();
+      onChanged(moved);
+      return true;
+    } catch (err) {
+      console.error('Failed to update tags:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update tags');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRename = async (name: string) => {
+    const newName = renameInput.trim();
+    if (!newName || newName === name) {
+      setRenaming(null);
+      return;
+    }
+    if (await run(() => api.updateTag(name, { name: newName }), { from: [name], to: newName })) {
+      setRenaming(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    const into = mergeInto.trim() || selected[0];
+    if (await run(() => api.mergeTags(selected, into), { from: selected, to: into })) {
+      setSelected([]);
+      setMergeInto('');
+    }
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-primary-900/40 backdrop-blur-cozy z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+          />
+
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-cream rounded-cozy-lg shadow-cozy-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-lavender">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-lavender rounded-full flex items-center justify-center">
+                    <Tags className="w-5 h-5 text-primary" />
+                  </div>
+                  <h2 className="font-serif text-xl font-semibold text-primary-900">
+                    Manage Tags
+                  </h2>
+                  {isWorking && <Loader2 className="w-4 h-4 text-primary-400 animate-spin" />}
+                </div>
+                <button
+                  onClick={handleClose}
+                  className="p-2 text-primary-400 hover:text-primary-600 hover:bg-lavender rounded-full transition-all"
+                  aria-label="Close tag manager"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {/* Merge bar */}
+                {selected.length >= 2 && (
+                  <div className="flex flex-wrap items-center gap-2 p-3 bg-lavender-light rounded-cozy">
+                    <span className="text-sm text-primary-700">Merge {selected.length} tags into</span>
+                    <input
+                      type="text"
+                      value={mergeInto}
+                      onChange={(e) => setMergeInto(e.target.value)}
+                      list="merge-tag-options"
+                      placeholder={selected[0]}
+                      className="flex-1 min-w-[8rem] px-3 py-1.5 bg-white border border-lavender-dark rounded-cozy text-sm text-primary-800 placeholder:text-primary-300 focus:outline-none focus:ring-2 focus:ring-primary/30"
+                    />
+                    <datalist id="merge-tag-options">
+                      {selected.map(name => <option key={name} value={name} />)}
+                    </datalist>
+                    <button
+                      onClick={handleMerge}
+                      disabled={isWorking}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-white text-sm rounded-cozy hover:bg-primary-dark transition-colors disabled:opacity-50"
+                    >
+                      <Merge className="w-4 h-4" />
+                      Merge
+                    </button>
+                  </div>
+                )}
+
+                {tags.length === 0 && (
+                  <p className="text-sm text-primary-400 italic">No tags yet. Add some to your books first.</p>
+                )}
+
+                <ul className="divide-y divide-lavender">
+                  {orderTagTree(tags).map(({ tag, depth }) => (
+                    <li key={tag.name} className="py-2 space-y-2">
+                      <div className="flex items-center gap-3" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(tag.name)}
+                          onChange={() => toggleSelected(tag.name)}
+                          className="accent-primary"
+                          aria-label={`Select ${tag.name} for merging`}
+                        />
+                        <button
+                          onClick={() => setColorPickerFor(colorPickerFor === tag.name ? null : tag.name)}
+                          className="w-4 h-4 rounded-full border border-lavender-dark flex-shrink-0"
+                          style={{ backgroundColor: tag.color ?? 'transparent' }}
+                          title="Pick a color"
+                        />
+
+                        {renaming === tag.name ? (
+                          <input
+                            type="text"
+                            value={renameInput}
+                            onChange={(e) => setRenameInput(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename(tag.name);
+                              if (e.key === 'Escape') setRenaming(null);
+                            }}
+                            onBlur={() => handleRename(tag.name)}
+                            className="flex-1 px-2 py-1 bg-white border border-lavender-dark rounded text-sm text-primary-800 focus:outline-none focus:ring-1 focus:ring-primary"
+                            autoFocus
+                          />
+                        ) : (
+                          <button
+                            onClick={() => { setRenaming(tag.name); setRenameInput(tag.name); }}
+                            className="group flex-1 flex items-center gap-1.5 text-left text-sm font-medium text-primary-800"
+                            title="Rename"
+                          >
+                            #{tag.name}
+                            <Pencil className="w-3 h-3 text-primary-300 opacity-0 group-hover:opacity-100 transition-opacity" />
+                          </button>
+                        )}
+
+                        <span className="text-xs text-primary-400 whitespace-nowrap">
+                          {tag.count} book{tag.count !== 1 ? 's' : ''}
+                        </span>
+
+                        <select
+                          value={tag.parent ?? ''}
+                          onChange={(e) => run(() => api.updateTag(tag.name, { parent: e.target.value || null }))}
+                          disabled={isWorking}
+                          className="w-36 px-2 py-1 bg-white border border-lavender-dark rounded text-xs text-primary-700 focus:outline-none focus:ring-1 focus:ring-primary"
+                          aria-label={`Parent of ${tag.name}`}
+                        >
+                          <option value="">No parent</option>
+                          {tags.filter(other => other.name !== tag.name).map(other => (
+                            <option key={other.name} value={other.name}>Under {other.name}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {colorPickerFor === tag.name && (
+                        <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.25 + 2}rem` }}>
+                          {tagColors.map(color => (
+                            <button
+                              key={color}
+                              onClick={() => { run(() => api.updateTag(tag.name, { color })); setColorPickerFor(null); }}
+                              className={`w-5 h-5 rounded-full transition-transform hover:scale-110 ${tag.color === color ? 'ring-2 ring-offset-1 ring-primary' : ''}`}
+                              style={{ backgroundColor: color }}
+                              aria-label={`Color ${color}`}
+                            />
+                          ))}
+                          {tag.color && (
+                            <button
+                              onClick={() => { run(() => api.updateTag(tag.name, { color: null })); setColorPickerFor(null); }}
+                              className="text-xs text-primary-500 hover:text-primary-700"
+                            >
+                              Clear
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
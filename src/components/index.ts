@@ -11,3 +11,18 @@ export { SearchFilterBar } from './SearchFilterBar';
 export { ReadingStats } from './ReadingStats';
 export { RecommendationsPanel } from './RecommendationsPanel';
 export { ArticleReader } from './ArticleReader';
+export { ImportLibraryModal } from './ImportLibraryModal';
+export { AuthScreen } from './AuthScreen';
+export { PublicLibrary } from './PublicLibrary';
+export { SearchPalette } from './SearchPalette';
+export { BarcodeScanner } from './BarcodeScanner';
+export { BulkActionBar } from './BulkActionBar';
+export { ShelfPicker } from './ShelfPicker';
+export { SmartShelfForm } from './SmartShelfForm';
+export { TagManager } from './TagManager';
+export { DuplicatesModal } from './DuplicatesModal';
+export { AuthorModal } from './AuthorModal';
+export { SeriesModal } from './SeriesModal';
+export { QuotesPanel } from './QuotesPanel';
+export { CommonplaceModal } from './CommonplaceModal';
+export { Markdown } from './Markdown';
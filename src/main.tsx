@@ -2,10 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { PublicLibrary } from './components/PublicLibrary.tsx'
+
+// Shared read-only pages live at /u/:slug
+const publicSlug = window.location.pathname.match(/^\/u\/([^/]+)\/?$/)?.[1]
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {publicSlug ? <PublicLibrary slug={decodeURIComponent(publicSlug)} /> : <App />}
   </StrictMode>,
 )
 
@@ -16,6 +16,7 @@ async function fetchApi<T>(
   
   const response = await fetch(url, {
     ...options,
+    credentials: 'include', // Session cookie
     headers: {
       'Content-Type': 'application/json',
       ...options.headers,
@@ -35,12 +36,88 @@ async function fetchApi<T>(
   return response.json();
 }
 
+// ============ Auth API ============
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+// Resolves to null when nobody is signed in instead of throwing
+export async function fetchCurrentUser(): Promise<AuthUser | null> {
+  const response = await fetch(`${API_BASE_URL}/auth/me`, { credentials: 'include' });
+  if (response.status === 401) return null;
+  if (!response.ok) throw new Error(`Request failed: ${response.status}`);
+  return response.json();
+}
+
+export async function register(email: string, password: string, name?: string): Promise<AuthUser> {
+  return fetchApi<AuthUser>('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email, password, name }),
+  });
+}
+
+export async function login(email: string, password: string): Promise<AuthUser> {
+  return fetchApi<AuthUser>('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+}
+
+export async function logout(): Promise<void> {
+  return fetchApi<void>('/auth/logout', { method: 'POST' });
+}
+
 // ============ Books API ============
 
-import type { Book, BookFormData, ReviewFormData } from '../types/book';
+import type { Book, BookFormData, ReviewFormData, ReadingStatus, ReadingSession, Edition, Quote, ContributorRole, ProgressEntry, DailyPages, LibraryStats, ReadingGoal, ShelfRule, TagInfo } from '../types/book';
+
+export interface BookQuery {
+  q?: string;
+  status?: ReadingStatus;
+  shelf?: string;
+  tag?: string;
+  ratingMin?: number;
+  sort?: 'dateAdded' | 'rating' | 'title' | 'author';
+  direction?: 'asc' | 'desc';
+  cursor?: string;
+  limit?: number;
+}
+
+export interface BookPage {
+  books: Book[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// One page of books matching the query, filtered and sorted on the server
+export async function searchBooks(query: BookQuery): Promise<BookPage> {
+  const params = new URLSearchParams({ limit: String(query.limit ?? 24) });
+  Object.entries(query).forEach(([key, value]) => {
+    if (key !== 'limit' && value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return fetchApi<BookPage>(`/books?${params}`);
+}
+
+// Stored covers come back as /api/covers/:bookId/large paths on the API server
+export function coverSrc(url: string | undefined, size: 'small' | 'medium' | 'large' = 'large'): string | undefined {
+  if (!url?.startsWith('/api/covers/')) return url;
+  return `${API_BASE_URL}${url.slice('/api'.length).replace('/large?', `/${size}?`)}`;
+}
+
+// Generated title cover for books without one, or whose cover fails to load
+export function placeholderCoverSrc(title: string): string {
+  return `${API_BASE_URL}/covers/placeholder?title=${encodeURIComponent(title.substring(0, 60))}`;
+}
 
-export async function fetchBooks(): Promise<Book[]> {
-  return fetchApi<Book[]>('/books');
+// Upload an image file as the book's cover
+export async function uploadCover(bookId: string, file: File): Promise<void> {
+  return fetchApi<void>(`/covers/${bookId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
 }
 
 export async function fetchBook(id: string): Promise<Book> {
@@ -56,7 +133,11 @@ export async function createBook(data: BookFormData): Promise<Book> {
       tags: data.tags,
       status: data.status,
       totalPages: data.totalPages,
-      shelf: data.shelf,
+      totalDurationMinutes: data.totalDurationMinutes,
+      format: data.format,
+      contributors: data.contributors,
+      series: data.series,
+      shelves: data.shelves,
       isbn: data.isbn,
       coverUrl: data.coverUrl,
       description: data.description,
@@ -77,6 +158,69 @@ export async function deleteBook(id: string): Promise<void> {
   return fetchApi<void>(`/books/${id}`, { method: 'DELETE' });
 }
 
+export type BulkAction =
+  | { action: 'add_to_shelf'; shelf: string }
+  | { action: 'remove_from_shelf'; shelf: string }
+  | { action: 'set_status'; status: ReadingStatus }
+  | { action: 'add_tags'; tags: string[] }
+  | { action: 'remove_tags'; tags: string[] }
+  | { action: 'delete' };
+
+export type BulkOutcome = 'updated' | 'unchanged' | 'deleted' | 'not_found';
+
+export interface BulkReport {
+  action: BulkAction['action'];
+  summary: Record<BulkOutcome, number>;
+  items: { bookId: string; outcome: BulkOutcome }[];
+}
+
+export async function bulkUpdateBooks(bookIds: string[], action: BulkAction): Promise<BulkReport> {
+  return fetchApi<BulkReport>('/books/bulk', {
+    method: 'POST',
+    body: JSON.stringify({ bookIds, ...action }),
+  });
+}
+
+// Same ISBN, same title + author, or a likely typo in either
+export type DuplicateReason = 'isbn' | 'title_author' | 'similar';
+
+export interface DuplicateCluster {
+  reasons: DuplicateReason[];
+  books: Book[];
+}
+
+export async function fetchDuplicates(): Promise<DuplicateCluster[]> {
+  return fetchApi<DuplicateCluster[]>('/books/duplicates');
+}
+
+// Returns the survivor with everything from the merged books
+export async function mergeBooks(survivorId: string, bookIds: string[]): Promise<Book> {
+  return fetchApi<Book>('/books/merge', {
+    method: 'POST',
+    body: JSON.stringify({ survivorId, bookIds }),
+  });
+}
+
+// ============ Progress API ============
+
+export async function fetchProgressHistory(bookId: string): Promise<ProgressEntry[]> {
+  return fetchApi<ProgressEntry[]>(`/books/${bookId}/progress`);
+}
+
+export async function fetchDailyPages(days = 30): Promise<DailyPages[]> {
+  return fetchApi<DailyPages[]>(`/books/progress/daily?days=${days}`);
+}
+
+// Counts and totals across the whole library, worked out on the server
+export async function fetchLibraryStats(): Promise<LibraryStats> {
+  return fetchApi<LibraryStats>('/books/stats');
+}
+
+// Null when the series has no unread book after this one
+export async function fetchNextInSeries(bookId: string): Promise<Book | null> {
+  return fetchApi<Book | null>(`/books/${bookId}/next-in-series`);
+}
+
 // ============ Reviews API ============
 
 export async function addReview(bookId: string, data: ReviewFormData): Promise<{ id: string; content: string; rating: number; dateAdded: string }> {
@@ -101,11 +245,248 @@ export async function deleteReview(bookId: string, reviewId: string): Promise<vo
   return fetchApi<void>(`/books/${bookId}/reviews/${reviewId}`, { method: 'DELETE' });
 }
 
+// ============ Quotes API ============
+
+export type QuoteInput = Partial<Omit<Quote, 'id' | 'dateAdded'>>;
+
+// A quote in the commonplace book, with the book it came from
+export interface QuoteWithBook extends Quote {
+  book: { id: string; title: string; author: string };
+}
+
+export async function fetchQuotes(bookId: string): Promise<Quote[]> {
+  return fetchApi<Quote[]>(`/books/${bookId}/quotes`);
+}
+
+export async function createQuote(bookId: string, data: QuoteInput): Promise<Quote> {
+  return fetchApi<Quote>(`/books/${bookId}/quotes`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateQuote(bookId: string, quoteId: string, updates: QuoteInput): Promise<Quote> {
+  return fetchApi<Quote>(`/books/${bookId}/quotes/${quoteId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteQuote(bookId: string, quoteId: string): Promise<void> {
+  return fetchApi<void>(`/books/${bookId}/quotes/${quoteId}`, { method: 'DELETE' });
+}
+
+// Every quote in the library, newest first, or ranked by `q` when searching
+export async function fetchCommonplaceBook(
+  params: { q?: string; tag?: string; offset?: number } = {}
+): Promise<{ quotes: QuoteWithBook[]; total: number }> {
+  const query = new URLSearchParams();
+  if (params.q) query.set('q', params.q);
+  if (params.tag) query.set('tag', params.tag);
+  if (params.offset) query.set('offset', String(params.offset));
+  return fetchApi(`/quotes?${query}`);
+}
+
+export async function fetchDailyQuote(): Promise<QuoteWithBook | null> {
+  return fetchApi<QuoteWithBook | null>('/quotes/daily');
+}
+
+// ============ Authors API ============
+
+export interface AuthorBook {
+  id: string;
+  title: string;
+  author: string;
+  coverUrl: string;
+  status: ReadingStatus;
+  averageRating: number | null; // Null when the book has no reviews
+  roles: ContributorRole[];
+}
+
+export interface AuthorDetail {
+  id: string;
+  name: string;
+  averageRating: number | null;
+  books: AuthorBook[];
+}
+
+export async function fetchAuthor(id: string): Promise<AuthorDetail> {
+  return fetchApi<AuthorDetail>(`/authors/${id}`);
+}
+
+// ============ Series API ============
+
+export interface SeriesSummary {
+  id: string;
+  name: string;
+  bookCount: number;
+  readCount: number;
+}
+
+export interface SeriesBook {
+  id: string;
+  title: string;
+  author: string;
+  coverUrl: string;
+  status: ReadingStatus;
+  position: number | null;
+}
+
+export interface SeriesDetail {
+  id: string;
+  name: string;
+  books: SeriesBook[]; // In reading order
+}
+
+export async function fetchSeriesList(): Promise<SeriesSummary[]> {
+  return fetchApi<SeriesSummary[]>('/series');
+}
+
+export async function fetchSeries(id: string): Promise<SeriesDetail> {
+  return fetchApi<SeriesDetail>(`/series/${id}`);
+}
+
+export async function renameSeries(id: string, name: string): Promise<{ id: string; name: string }> {
+  return fetchApi(`/series/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ name }),
+  });
+}
+
+export async function deleteSeries(id: string): Promise<void> {
+  return fetchApi<void>(`/series/${id}`, { method: 'DELETE' });
+}
+
+// Files books whose titles end in a marker like "(The Expanse, #1)" under that series
+export async function detectSeries(): Promise<{ moved: number }> {
+  return fetchApi<{ moved: number }>('/series/detect', { method: 'POST' });
+}
+
+// ============ Editions API ============
+
+// `active: true` makes the edition the one the book shows and tracks progress against
+export type EditionInput = Partial<Omit<Edition, 'id'>> & { active?: boolean };
+
+export async function createEdition(bookId: string, data: EditionInput): Promise<Edition> {
+  return fetchApi<Edition>(`/books/${bookId}/editions`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateEdition(bookId: string, editionId: string, updates: EditionInput): Promise<Edition> {
+  return fetchApi<Edition>(`/books/${bookId}/editions/${editionId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteEdition(bookId: string, editionId: string): Promise<void> {
+  return fetchApi<void>(`/books/${bookId}/editions/${editionId}`, { method: 'DELETE' });
+}
+
+// ============ Reading Sessions API ============
+
+export type ReadingSessionInput = Partial<Omit<ReadingSession, 'id'>>;
+
+export async function fetchSessions(bookId: string): Promise<ReadingSession[]> {
+  return fetchApi<ReadingSession[]>(`/books/${bookId}/sessions`);
+}
+
+export async function createSession(bookId: string, data: ReadingSessionInput): Promise<ReadingSession> {
+  return fetchApi<ReadingSession>(`/books/${bookId}/sessions`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateSession(
+  bookId: string,
+  sessionId: string,
+  updates: ReadingSessionInput
+): Promise<ReadingSession> {
+  return fetchApi<ReadingSession>(`/books/${bookId}/sessions/${sessionId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteSession(bookId: string, sessionId: string): Promise<void> {
+  return fetchApi<void>(`/books/${bookId}/sessions/${sessionId}`, { method: 'DELETE' });
+}
+
+// ============ Import API ============
+
+export type ImportSource = 'goodreads' | 'storygraph' | 'kindle-clippings';
+
+export interface ImportReportItem {
+  row: number;
+  title: string;
+  author: string;
+  status: string;
+  action: 'create' | 'update' | 'skip';
+  matchedBookId?: string;
+  matchReason?: 'isbn' | 'title_author';
+  changes: string[];
+  reason?: string;
+  quotes: number; // Quotes the import adds to this book
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: { total: number; create: number; update: number; skip: number; quotes: number };
+  newShelves: string[];
+  items: ImportReportItem[];
+}
+
+// `newBookStatus` applies to Kindle clippings, which don't say whether a book was finished
+export async function importLibrary(
+  source: ImportSource,
+  content: string,
+  commit = false,
+  newBookStatus?: 'read' | 'want_to_read'
+): Promise<ImportReport> {
+  const query = new URLSearchParams();
+  if (commit) query.set('commit', 'true');
+  if (newBookStatus) query.set('status', newBookStatus);
+  return fetchApi<ImportReport>(`/import/${source}?${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': source === 'kindle-clippings' ? 'text/plain' : 'text/csv' },
+    body: content,
+  });
+}
+
+// ============ Export API ============
+
+export type ExportFormat = 'json' | 'csv' | 'storygraph';
+
+// Plain URL so the browser handles the download via a regular link
+export function getExportUrl(format: ExportFormat): string {
+  return format === 'storygraph'
+    ? `${API_BASE_URL}/export/storygraph`
+    : `${API_BASE_URL}/export?format=${format}`;
+}
+
+export interface RestoreResult {
+  version: number;
+  restored: Record<'profile' | 'shelves' | 'tags' | 'series' | 'books' | 'editions' | 'reviews' | 'quotes' | 'sessions' | 'progressEntries' | 'readingGoals' | 'articles', number>;
+}
+
+// Backups are sent exactly as downloaded: JSON as-is, CSV as text/csv
+export async function restoreBackup(content: string, isCsv: boolean): Promise<RestoreResult> {
+  return fetchApi<RestoreResult>('/import/backup', {
+    method: 'POST',
+    headers: { 'Content-Type': isCsv ? 'text/csv' : 'application/json' },
+    body: content,
+  });
+}
+
 // ============ Shelves API ============
 
 export interface ShelfWithCount {
   id: string;
   name: string;
+  rule: ShelfRule | null;
   createdAt: string;
   bookCount: number;
 }
@@ -114,10 +495,11 @@ export async function fetchShelves(): Promise<ShelfWithCount[]> {
   return fetchApi<ShelfWithCount[]>('/shelves');
 }
 
-export async function createShelf(name: string): Promise<ShelfWithCount> {
+// Passing a rule creates a smart shelf
+export async function createShelf(name: string, rule?: ShelfRule): Promise<ShelfWithCount> {
   return fetchApi<ShelfWithCount>('/shelves', {
     method: 'POST',
-    body: JSON.stringify({ name }),
+    body: JSON.stringify({ name, rule }),
   });
 }
 
@@ -132,6 +514,43 @@ export async function deleteShelf(id: string): Promise<void> {
   return fetchApi<void>(`/shelves/${id}`, { method: 'DELETE' });
 }
 
+// Books not listed keep their relative order after the listed ones
+export async function reorderShelf(id: string, bookIds: string[]): Promise<void> {
+  return fetchApi<void>(`/shelves/${id}/order`, {
+    method: 'PUT',
+    body: JSON.stringify({ bookIds }),
+  });
+}
+
+// ============ Tags API ============
+
+export interface TagChangeResult {
+  tag?: TagInfo;
+  booksUpdated: number;
+}
+
+export async function fetchTags(): Promise<TagInfo[]> {
+  return fetchApi<TagInfo[]>('/tags');
+}
+
+// Renaming rewrites every book with the tag; color and parent null clear them
+export async function updateTag(
+  name: string,
+  changes: { name?: string; color?: string | null; parent?: string | null }
+): Promise<TagChangeResult> {
+  return fetchApi<TagChangeResult>(`/tags/${encodeURIComponent(name)}`, {
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+}
+
+export async function mergeTags(tags: string[], into: string): Promise<TagChangeResult> {
+  return fetchApi<TagChangeResult>('/tags/merge', {
+    method: 'POST',
+    body: JSON.stringify({ tags, into }),
+  });
+}
+
 // ============ Reading Goal API ============
 
 export interface ReadingGoalData {
@@ -162,6 +581,7 @@ export interface ProfileData {
   libraryName: string;
   bio: string;
   avatar: string;
+  publicSlug: string | null; // Public page at /u/:publicSlug
 }
 
 export async function fetchProfile(): Promise<ProfileData> {
@@ -175,3 +595,65 @@ export async function updateProfile(data: Partial<ProfileData>): Promise<Profile
   });
 }
 
+// ============ Metadata API ============
+
+// Book details from the server's metadata providers (Google Books, Open Library, fixtures)
+export interface BookMetadata {
+  title: string;
+  author: string;
+  authors?: string[]; // Every credited author, in order
+  isbn?: string;
+  coverUrl?: string;
+  pageCount?: number;
+  publishYear?: number;
+  description?: string;
+  series?: string;
+  seriesPosition?: number;
+  source: string;
+}
+
+export async function searchMetadata(query: string): Promise<BookMetadata[]> {
+  return fetchApi<BookMetadata[]>(`/metadata/search?q=${encodeURIComponent(query)}`);
+}
+
+// Resolves to null when no provider knows the ISBN
+export async function lookupIsbn(isbn: string): Promise<BookMetadata | null> {
+  try {
+    return await fetchApi<BookMetadata>(`/metadata/isbn/${encodeURIComponent(isbn)}`);
+  } catch {
+    return null;
+  }
+}
+
+// ============ Search API ============
+
+// Snippets wrap matched words in <mark></mark>
+export interface SearchResults {
+  books: { id: string; title: string; author: string; coverUrl: string | null; snippet: string; rank: number }[];
+  reviews: { id: string; bookId: string; bookTitle: string; rating: number; snippet: string; rank: number }[];
+  articles: { id: string; title: string; url: string; snippet: string; rank: number }[];
+}
+
+export async function searchLibrary(q: string): Promise<SearchResults> {
+  return fetchApi<SearchResults>(`/search?q=${encodeURIComponent(q)}`);
+}
+
+// ============ Public Pages API ============
+
+export interface PublicLibrary {
+  profile: Omit<ProfileData, 'publicSlug'>;
+  readingGoal: ReadingGoal | null;
+  shelves: { id: string; name: string; createdAt: string }[];
+}
+
+export async function fetchPublicLibrary(slug: string): Promise<PublicLibrary> {
+  return fetchApi<PublicLibrary>(`/public/${encodeURIComponent(slug)}`);
+}
+
+export async function fetchPublicBooks(slug: string): Promise<Book[]> {
+  return fetchApi<Book[]>(`/public/${encodeURIComponent(slug)}/books`);
+}
+
+export function getPublicPageUrl(slug: string): string {
+  return `${window.location.origin}/u/${slug}`;
+}
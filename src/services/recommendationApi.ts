@@ -43,7 +43,7 @@ export interface SimilarBooksResponse {
 /**
  * Fetch personalized book recommendations based on user's library
  * Powered by Parallel AI
- * @param books - User's book library
+ * @param books - A sample of the user's library
  * @param preferences - Optional preferences to guide recommendations
  * @returns Array of book recommendations with reasons
  */
@@ -75,6 +75,7 @@ export async function getRecommendations(
 
   const response = await fetch(`${API_BASE_URL}/recommendations`, {
     method: 'POST',
+    credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
     },
@@ -100,6 +101,7 @@ export async function getRecommendations(
 export async function findSimilarBooks(book: Book): Promise<SimilarBooksResponse> {
   const response = await fetch(`${API_BASE_URL}/recommendations/similar`, {
     method: 'POST',
+    credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
     },
@@ -10,27 +10,140 @@ export interface Review {
   id: string;
   content: string;
   rating: number; // 1-5 scale
+  isPublic?: boolean; // Shown on the public page
   dateAdded: string;
 }
 
+/**
+ * What a person did on a book
+ */
+export type ContributorRole = 'author' | 'translator' | 'editor' | 'illustrator' | 'narrator';
+
+/**
+ * Where a book sits in a series
+ */
+export interface BookSeries {
+  id?: string; // Set once saved; links to the series view
+  name: string;
+  position: number | null; // 1.5 for a novella between books 1 and 2
+}
+
+/**
+ * A person credited on a book, in title page order
+ */
+export interface Contributor {
+  authorId?: string; // Set once saved; links to the author's page
+  name: string;
+  role: ContributorRole;
+}
+
+/**
+ * Physical or digital form of an edition
+ */
+export type EditionFormat = 'hardcover' | 'paperback' | 'ebook' | 'audiobook';
+
+/**
+ * One edition of a book - a copy you own, or the format of a re-read
+ */
+export interface Edition {
+  id: string;
+  format: EditionFormat | null;
+  publisher: string | null;
+  year: number | null;
+  pages: number | null;
+  durationMinutes: number | null;
+  isbn: string | null;
+}
+
+/**
+ * One pass through a book - re-reads are additional sessions
+ */
+export interface ReadingSession {
+  id: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  abandonedAt: string | null;
+  edition: string | null;
+  editionId?: string | null; // The edition read, when it was picked from the book's editions
+}
+
 /**
  * Represents a book in Ipshita's Library
  */
 export interface Book {
   id: string;
   title: string;
-  author: string;
+  author: string; // Authors joined with " & "
+  contributors?: Contributor[]; // Authors, translators, editors... in title page order
+  series?: BookSeries | null;
   reviews: Review[]; // Multiple reviews per book
   tags: string[];
   coverUrl: string;
   dateAdded: string;
   // New fields for enhanced functionality
   status: ReadingStatus;
-  progress?: number; // Pages read (for "reading" status)
+  progress?: number; // Pages read, or minutes listened for audiobooks (for "reading" status)
   totalPages?: number;
-  shelf?: string | null; // Custom shelf name (null means no shelf)
+  totalDurationMinutes?: number | null; // Length of an audiobook
+  format?: EditionFormat | null; // Format of the active edition
+  shelves?: string[]; // Ids of the custom shelves the book is on
   isbn?: string; // For fetching real covers
   description?: string; // Book description from API
+  isPublic?: boolean; // Listed on the owner's public page
+  editions?: Edition[]; // Every edition of the work, oldest first
+  activeEdition?: Edition | null; // The edition isbn and totalPages come from
+  sessions?: ReadingSession[]; // Reading history, oldest first
+  dateFinished?: string | null; // Most recent finish date across sessions
+  pagesPerDay?: number | null; // Recent reading pace (for "reading" status)
+  minutesPerDay?: number | null; // Recent listening pace, for audiobooks
+  estimatedFinish?: string | null; // Projected finish date at the current pace
+}
+
+/**
+ * A passage saved from a book
+ */
+export interface Quote {
+  id: string;
+  text: string;
+  page: number | null;
+  location?: number | null; // Kindle location, for ebooks without page numbers
+  chapter: string | null;
+  note: string | null; // The reader's own comment on it
+  tags: string[];
+  dateAdded: string;
+}
+
+/**
+ * A single point in a book's progress history
+ */
+export interface ProgressEntry {
+  id: string;
+  page: number;
+  pagesRead: number; // Pages gained since the previous entry
+  recordedAt: string;
+}
+
+/**
+ * Pages read across all books on one day
+ */
+export interface DailyPages {
+  date: string;
+  pages: number;
+}
+
+/**
+ * Counts and totals across the whole library
+ */
+export interface LibraryStats {
+  total: number;
+  byStatus: Record<ReadingStatus, number>;
+  avgRating: number;
+  ratingDistribution: Record<number, number>; // Rated read books by rounded rating, 1 to 5
+  totalReviews: number;
+  totalPages: number; // Audiobook listening time counted as pages
+  year: number;
+  finishedByMonth: number[]; // Finished reads in each month of `year`
+  topTags: { name: string; count: number }[]; // Rolled up to their top-level genre
 }
 
 /**
@@ -52,6 +165,113 @@ export function getLatestReview(book: Book): Review | null {
   );
 }
 
+/**
+ * A Markdown review as plain text for short previews, with spoilers hidden
+ */
+export function reviewPreviewText(content: string): string {
+  return content
+    .replace(/\|\|.+?\|\|/gs, '[spoiler]')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/(?<!\\)(\*\*|\*|`)(.+?)(?<!\\)\1/g, '$2')
+    .replace(/(?<!\w)(__|_)(.+?)\1(?!\w)/g, '$2')
+    .replace(/\\([\\`*_|#>-])/g, '$1');
+}
+
+/**
+ * Dates on which the book was finished, one per completed session
+ */
+export function getFinishDates(book: Book): string[] {
+  return (book.sessions || [])
+    .map(session => session.finishedAt)
+    .filter((date): date is string => !!date);
+}
+
+/**
+ * Count completed reads (including re-reads) finished in the given year
+ */
+export function countFinishedInYear(books: Book[], year: number): number {
+  return books.reduce(
+    (sum, book) => sum + getFinishDates(book).filter(date => new Date(date).getFullYear() === year).length,
+    0
+  );
+}
+
+export const contributorRoleLabels: Record<ContributorRole, string> = {
+  author: 'Author',
+  translator: 'Translator',
+  editor: 'Editor',
+  illustrator: 'Illustrator',
+  narrator: 'Narrator',
+};
+
+export const editionFormatLabels: Record<EditionFormat, string> = {
+  hardcover: 'Hardcover',
+  paperback: 'Paperback',
+  ebook: 'Ebook',
+  audiobook: 'Audiobook',
+};
+
+// A minute of narration covers about half a printed page (150 words a minute, 300 a page)
+export const PAGES_PER_MINUTE_LISTENED = 0.5;
+
+/**
+ * Audiobooks track progress in minutes listened rather than pages
+ */
+export function isAudiobook(book: Book): boolean {
+  return book.format === 'audiobook';
+}
+
+/**
+ * The book's length in the unit its progress is kept in: minutes for audiobooks, pages otherwise
+ */
+export function getBookLength(book: Book): number | null {
+  return (isAudiobook(book) ? book.totalDurationMinutes : book.totalPages) || null;
+}
+
+/**
+ * Pages read so far, or listening time converted to pages for audiobooks
+ */
+export function getPageEquivalents(book: Book, amount: number): number {
+  return isAudiobook(book) ? Math.round(amount * PAGES_PER_MINUTE_LISTENED) : amount;
+}
+
+/**
+ * Format a listening time, e.g. "3h 12m" or "45m"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Summarize an edition, e.g. "Paperback · Penguin, 2003 · 320 pages"
+ */
+export function describeEdition(edition: Edition): string {
+  const published = [edition.publisher, edition.year].filter(Boolean).join(', ');
+  const length = edition.pages
+    ? `${edition.pages} pages`
+    : edition.durationMinutes
+      ? formatDuration(edition.durationMinutes)
+      : null;
+  const parts = [edition.format && editionFormatLabels[edition.format], published, length].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Unspecified edition';
+}
+
+/**
+ * Place in a series, e.g. "Book 2 of The Expanse", or just the series name
+ */
+export function describeSeries(series: BookSeries): string {
+  return series.position !== null ? `Book ${series.position} of ${series.name}` : series.name;
+}
+
+/**
+ * Where a quote was found, e.g. "Chapter 3 · p. 42" or "loc. 1180"; empty when unknown
+ */
+export function describeQuoteLocation(quote: Quote): string {
+  const position = quote.page ? `p. ${quote.page}` : quote.location ? `loc. ${quote.location}` : null;
+  return [quote.chapter, position].filter(Boolean).join(' · ');
+}
+
 /**
  * Migrate old book format to new format
  * Handles conversion of `review` string to `reviews` array
@@ -88,19 +308,57 @@ export function migrateBook(book: any): Book {
     status: book.status || 'read',
     progress: book.progress,
     totalPages: book.totalPages,
-    shelf: book.shelf,
+    shelves: book.shelves || (book.shelf ? [book.shelf] : []),
     isbn: book.isbn,
     description: book.description,
   };
 }
 
 /**
- * Custom shelf for organizing books
+ * A tag with its settings and how many books carry it
+ */
+export interface TagInfo {
+  name: string;
+  color: string | null;
+  parent: string | null; // Broader genre this tag sits under
+  count: number;
+}
+
+/**
+ * Tags in hierarchy order: each tag followed by its sub-genres, with their depth
+ */
+export function orderTagTree(tags: TagInfo[]): { tag: TagInfo; depth: number }[] {
+  const names = new Set(tags.map(tag => tag.name));
+  const ordered: { tag: TagInfo; depth: number }[] = [];
+  const visit = (tag: TagInfo, depth: number) => {
+    ordered.push({ tag, depth });
+    tags.filter(child => child.parent === tag.name).forEach(child => visit(child, depth + 1));
+  };
+  tags.filter(tag => !tag.parent || !names.has(tag.parent)).forEach(tag => visit(tag, 0));
+  return ordered;
+}
+
+/**
+ * Membership rule of a smart shelf; every condition that is set must hold
+ */
+export interface ShelfRule {
+  status?: ReadingStatus;
+  ratingMin?: number;
+  tags?: string[];
+  author?: string;
+  finishedYear?: number; // Finished a read during this year
+}
+
+/**
+ * Custom shelf for organizing books. A smart shelf has a rule instead of
+ * hand-picked books, and its bookCount comes from the server.
  */
 export interface Shelf {
   id: string;
   name: string;
   createdAt: string;
+  rule?: ShelfRule | null;
+  bookCount?: number;
 }
 
 /**
@@ -114,7 +372,11 @@ export interface BookFormData {
   tags: string;
   status: ReadingStatus;
   totalPages?: number;
-  shelf?: string;
+  totalDurationMinutes?: number;
+  format?: EditionFormat;
+  contributors?: Contributor[]; // When set, `author` is built from these
+  series?: BookSeries;
+  shelves?: string[];
   isbn?: string;
   coverUrl?: string;
   description?: string;
@@ -126,6 +388,7 @@ export interface BookFormData {
 export interface ReviewFormData {
   content: string;
   rating: number;
+  isPublic?: boolean;
 }
 
 /**